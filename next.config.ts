@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Loads its WASM file from node_modules at runtime
+  serverExternalPackages: ['sql.js'],
   images: {
     remotePatterns: [
       {
@@ -1,12 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
 import { ParsedSpreadsheetData, Track } from "@/types";
 import Artist from "@/components/Artist";
 import MusicPlayer from "@/components/MusicPlayer";
 import TrackDetailPage from "@/components/TrackDetailPage";
 import SheetNavigation, { SheetType } from "@/components/SheetNavigation";
+import { useLinkHealth } from "@/hooks/useLinkHealth";
+import { applyLinkHealth } from "@/utils/linkHealth";
 
 export default function SpreadsheetPage() {
   const params = useParams();
@@ -21,6 +23,12 @@ export default function SpreadsheetPage() {
   const [infoTrack, setInfoTrack] = useState<Track | null>(null);
   const [currentSheet, setCurrentSheet] = useState<SheetType>('unreleased');
   const [sheetLoading, setSheetLoading] = useState(false);
+  // Dead links are marked as background checks come back
+  const { results: linkHealth } = useLinkHealth(spreadsheetId, data?.artist?.albums);
+  const checkedArtist = useMemo(
+    () => (data?.artist ? applyLinkHealth(data.artist, linkHealth) : null),
+    [data, linkHealth]
+  );
 
   // Get sheet type from URL params
   useEffect(() => {
@@ -62,6 +70,31 @@ export default function SpreadsheetPage() {
     fetchData();
   }, [spreadsheetId]);
 
+  // Links from the Updates page open the mentioned track: ?era=<era id>&track=<track id>&title=<fallback>&eraName=<fallback>
+  useEffect(() => {
+    const eraId = searchParams.get('era');
+    const trackId = searchParams.get('track');
+    const eraName = searchParams.get('eraName');
+    if (!spreadsheetId || !eraId || !trackId) return;
+
+    const openLinkedTrack = async () => {
+      try {
+        const eraQuery = `era=${encodeURIComponent(eraId)}${eraName ? `&name=${encodeURIComponent(eraName)}` : ''}`;
+        const response = await fetch(`/api/era?docId=${encodeURIComponent(spreadsheetId)}&${eraQuery}`);
+        if (!response.ok) return;
+        const { era } = await response.json();
+        const title = searchParams.get('title')?.toLowerCase();
+        // Track IDs shift when rows move, so fall back to the title
+        const track = era.tracks.find((t: Track) => t.id === trackId)
+          || era.tracks.find((t: Track) => t.title.main.toLowerCase() === title);
+        if (track) setInfoTrack(track);
+      } catch (err) {
+        console.warn('Could not open linked track:', err);
+      }
+    };
+    openLinkedTrack();
+  }, [spreadsheetId, searchParams]);
+
   const handleSheetChange = async (newSheet: SheetType) => {
     if (newSheet === currentSheet) return;
     
@@ -157,7 +190,7 @@ export default function SpreadsheetPage() {
         isLoading={sheetLoading}
       />
       <Artist
-        artist={data.artist}
+        artist={checkedArtist || data.artist}
         onPlayTrack={handlePlayTrack}
         onTrackInfo={handleTrackInfo}
         docId={spreadsheetId}
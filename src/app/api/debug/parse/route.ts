@@ -13,9 +13,10 @@ export async function POST(request: NextRequest) {
 
     // Use the unified parser with debug logging
     let result;
+    let report;
     try {
       if (googleDocsUrl) {
-        result = await UnifiedParser.parseGoogleDoc(googleDocsUrl);
+        ({ artist: result, report } = await UnifiedParser.parseGoogleDocWithReport(googleDocsUrl));
       } else {
         // For JSON data, return error for now
         return NextResponse.json({ error: 'JSON data parsing not yet implemented' }, { status: 501 });
@@ -31,11 +32,23 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
+    const summary = UnifiedParser.summarizeReport(report);
     const debugInfo = {
       artist: result.name,
       albumCount: result.albums.length,
       totalTracks: result.albums.reduce((sum: number, album: any) => sum + album.tracks.length, 0),
-      lastUpdated: result.lastUpdated
+      lastUpdated: result.lastUpdated,
+      profile: report.profile,
+      columnMap: report.columnMap,
+      rowAnalysis: {
+        totalRows: summary.totalRows,
+        headerRowIndex: report.headerRowIndex,
+        dataRowCount: summary.totalRows - report.headerRowIndex - 1,
+        processedRows: summary.tracks + summary.eraHeaders,
+        skippedRows: summary.skipped + summary.stats + summary.announcements,
+        eraRows: summary.eraHeaders,
+        trackRows: summary.tracks
+      }
     };
 
     console.log('🐛 Debug parsing completed:', debugInfo);
@@ -44,6 +57,8 @@ export async function POST(request: NextRequest) {
       success: true,
       result,
       debugInfo,
+      report,
+      reportSummary: summary,
       debugLogs: [
         {
           step: 'PARSING_COMPLETE',
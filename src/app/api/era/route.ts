@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { TrackerCache } from '@/utils/trackerCache';
+import { reconstructGoogleSheetsUrl } from '@/utils/urlUtils';
+
+/**
+ * Whether an If-None-Match header matches the current ETag (weak comparison)
+ */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => strip(tag) === strip(etag));
+}
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const docId = url.searchParams.get('docId');
+  const eraId = url.searchParams.get('era');
+  const eraName = url.searchParams.get('name');
+  const refresh = ['1', 'true'].includes(url.searchParams.get('refresh') || '');
+
+  if (!docId || !eraId) {
+    return NextResponse.json(
+      { error: 'docId and era are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { artist, cacheStatus } = await TrackerCache.parse(reconstructGoogleSheetsUrl(docId), { refresh });
+
+    // IDs shift when eras are added or renamed on the sheet; the name finds the era again after such an edit
+    const era = artist.albums.find(album => album.id === eraId)
+      || (eraName ? artist.albums.find(album => album.name === eraName) : undefined);
+    if (!era) {
+      return NextResponse.json(
+        { error: `Era "${eraId}" not found` },
+        { status: 404 }
+      );
+    }
+
+    const body = JSON.stringify({ era, id: docId });
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    const headers = {
+      'ETag': etag,
+      // Let browsers keep the era but revalidate it on every expansion
+      'Cache-Control': 'private, no-cache',
+      'X-Cache': cacheStatus,
+    };
+
+    if (matchesETag(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ API era error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to load era';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
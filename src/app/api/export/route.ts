@@ -1,12 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DataExporter } from '@/utils/dataExporter';
+import { Artist, AvailabilityType, Era, QualityTier } from '@/types';
+import {
+  BinaryFormat,
+  BINARY_FORMATS,
+  DataExporter,
+  ExportFormat,
+  ExportSelection,
+  EXPORT_MIME_TYPES,
+  PlaylistFormat,
+  PLAYLIST_FORMATS,
+} from '@/utils/dataExporter';
+import { getStoredLinkHealth } from '@/utils/linkChecker';
+import { applyLinkHealth, collectArtistLinkUrls } from '@/utils/linkHealth';
+import { SpreadsheetExporter } from '@/utils/spreadsheetExporter';
+import { SQLiteExporter } from '@/utils/sqliteExporter';
+
+const EXPORT_FORMATS = Object.keys(EXPORT_MIME_TYPES) as (ExportFormat | BinaryFormat)[];
+
+// Comma-separated query parameter as a list, or undefined when absent
+function getList(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const value = searchParams.get(name);
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const docId = searchParams.get('docId');
-    const format = searchParams.get('format') as 'json' | 'csv' || 'json';
+    const format = (searchParams.get('format') || 'json') as ExportFormat | BinaryFormat;
     const includeMetadata = searchParams.get('includeMetadata') !== 'false';
+    // Playlists can be narrowed to an era, a list of tracks, or quality and availability tiers
+    const selection: ExportSelection = {
+      eraId: searchParams.get('era') || undefined,
+      trackIds: getList(searchParams, 'tracks'),
+      qualities: getList(searchParams, 'quality') as QualityTier[] | undefined,
+      availabilities: getList(searchParams, 'availability') as AvailabilityType[] | undefined,
+    };
 
     if (!docId) {
       return NextResponse.json(
@@ -15,6 +44,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // First, get the parsed data
     const parseResponse = await fetch(
       `${request.nextUrl.origin}/api/parse?docId=${docId}`,
@@ -37,31 +73,54 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (selection.eraId && !parsedData.artist.albums.some((album: { id: string }) => album.id === selection.eraId)) {
+      return NextResponse.json(
+        { error: `Era ${selection.eraId} not found` },
+        { status: 404 }
+      );
+    }
+
     const sourceUrl = `https://docs.google.com/spreadsheets/d/${docId}`;
-    let content: string;
-    let contentType: string;
-    let filename: string;
-
-    if (format === 'json') {
-      content = DataExporter.exportToJSON(parsedData.artist, docId, sourceUrl, {
-        format: 'json',
-        includeMetadata
-      });
-      contentType = 'application/json';
-      filename = DataExporter.generateFilename(parsedData.artist.name, docId, 'json');
-    } else {
-      content = DataExporter.exportToCSV(parsedData.artist, docId, {
-        format: 'csv',
-        flattenTracks: true
+    const filename = DataExporter.generateFilename(
+      selection.eraId ? `${parsedData.artist.name}_${selection.eraId}` : parsedData.artist.name,
+      docId,
+      format
+    );
+
+    // Workbooks and databases hold every track, narrowed only by era
+    if (BINARY_FORMATS.includes(format as BinaryFormat)) {
+      const artist: Artist = selection.eraId
+        ? { ...parsedData.artist, albums: parsedData.artist.albums.filter((album: Era) => album.id === selection.eraId) }
+        : parsedData.artist;
+      const file = format === 'sqlite'
+        ? await SQLiteExporter.export(artist)
+        : await SpreadsheetExporter.export(artist, sourceUrl, format as 'xlsx' | 'ods');
+      return new NextResponse(Buffer.from(file), {
+        status: 200,
+        headers: {
+          'Content-Type': EXPORT_MIME_TYPES[format],
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
       });
-      contentType = 'text/csv';
-      filename = DataExporter.generateFilename(parsedData.artist.name, docId, 'csv');
     }
 
+    // Playlists leave out links the background checker found dead
+    const artist: Artist = PLAYLIST_FORMATS.includes(format as PlaylistFormat)
+      ? applyLinkHealth(parsedData.artist, await getStoredLinkHealth(collectArtistLinkUrls(parsedData.artist)))
+      : parsedData.artist;
+
+    const content = DataExporter.exportContent(artist, docId, sourceUrl, {
+      format: format as ExportFormat,
+      includeMetadata,
+      flattenTracks: true,
+      selection
+    });
+
     return new NextResponse(content, {
       status: 200,
       headers: {
-        'Content-Type': contentType,
+        'Content-Type': `${EXPORT_MIME_TYPES[format]}; charset=utf-8`,
         'Content-Disposition': `attachment; filename="${filename}"`,
         'Cache-Control': 'no-cache, no-store, must-revalidate',
       },
@@ -79,7 +138,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { docId, format = 'json', includeMetadata = true, artistData } = body;
+    const { docId, format = 'json', includeMetadata = true, artistData, selection } = body;
 
     if (!docId || !artistData) {
       return NextResponse.json(
@@ -88,31 +147,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const sourceUrl = `https://docs.google.com/spreadsheets/d/${docId}`;
-    let content: string;
-    let contentType: string;
-    let filename: string;
-
-    if (format === 'json') {
-      content = DataExporter.exportToJSON(artistData, docId, sourceUrl, {
-        format: 'json',
-        includeMetadata
-      });
-      contentType = 'application/json';
-      filename = DataExporter.generateFilename(artistData.name, docId, 'json');
-    } else {
-      content = DataExporter.exportToCSV(artistData, docId, {
-        format: 'csv',
-        flattenTracks: true
-      });
-      contentType = 'text/csv';
-      filename = DataExporter.generateFilename(artistData.name, docId, 'csv');
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
     }
 
+    // The JSON envelope only carries text; workbooks and databases are downloaded with GET
+    if (BINARY_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `${format} exports are only available through GET /api/export` },
+        { status: 400 }
+      );
+    }
+
+    const sourceUrl = `https://docs.google.com/spreadsheets/d/${docId}`;
+    const content = DataExporter.exportContent(artistData, docId, sourceUrl, {
+      format,
+      includeMetadata,
+      flattenTracks: true,
+      selection
+    });
+
     return NextResponse.json({
       content,
-      filename,
-      contentType
+      filename: DataExporter.generateFilename(artistData.name, docId, format),
+      contentType: EXPORT_MIME_TYPES[format as ExportFormat]
     });
 
   } catch (error) {
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedEntryType } from '@/types';
+import { FEED_ENTRY_TYPES, loadTrackerFeed, renderAtom, renderJSONFeed } from '@/utils/trackerFeed';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ docId: string }> }) {
+  const { docId } = await params;
+  const { searchParams } = request.nextUrl;
+  const format = searchParams.get('format') || 'atom';
+  const typeParam = searchParams.get('type');
+
+  if (format !== 'atom' && format !== 'json') {
+    return NextResponse.json(
+      { error: 'format must be atom or json' },
+      { status: 400 }
+    );
+  }
+
+  const types = typeParam === 'all'
+    ? FEED_ENTRY_TYPES
+    : (typeParam ? typeParam.split(',').map(type => type.trim()).filter(Boolean) : []);
+  const unknownTypes = types.filter(type => !FEED_ENTRY_TYPES.includes(type as FeedEntryType));
+  if (unknownTypes.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown entry type: ${unknownTypes.join(', ')} (expected ${FEED_ENTRY_TYPES.join(', ')} or all)` },
+      { status: 400 }
+    );
+  }
+
+  // Links built from the Host header can't go in a shared cache; a configured site URL can
+  const siteUrl = process.env.SITE_URL?.replace(/\/+$/, '');
+  const origin = siteUrl || request.nextUrl.origin;
+
+  try {
+    const feed = await loadTrackerFeed(docId, {
+      origin,
+      feedUrl: `${origin}${request.nextUrl.pathname}${request.nextUrl.search}`,
+      types: types as FeedEntryType[],
+    });
+
+    return new NextResponse(format === 'json' ? renderJSONFeed(feed) : renderAtom(feed), {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'json' ? 'application/feed+json; charset=utf-8' : 'application/atom+xml; charset=utf-8',
+        'Cache-Control': siteUrl ? 'public, max-age=300' : 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Feed error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to build feed';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
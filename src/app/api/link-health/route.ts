@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkLinks, getStoredLinkHealth } from '@/utils/linkChecker';
+import { collectArtistLinkUrls, isFreshLinkHealth } from '@/utils/linkHealth';
+import { TrackerCache } from '@/utils/trackerCache';
+import { getBaseDocumentId, reconstructGoogleSheetsUrl } from '@/utils/urlUtils';
+
+// Keeps one request from tying the server up checking a whole tracker at once
+const MAX_URLS_PER_REQUEST = 200;
+
+// Links each tracker, or trusted client address, may have checked per window; stored results are free to read
+const CHECK_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_CHECKS_PER_WINDOW = 1000;
+const checkCounts = new Map<string, { count: number; windowStart: number }>();
+
+/**
+ * Who a request's checks are counted against: the client address when a proxy we trust sets it,
+ * otherwise the tracker, since clients can send any forwarding header they like
+ */
+function getAllowanceKey(request: NextRequest, docId: string): string {
+  if (process.env.TRUST_PROXY_HEADERS === 'true') {
+    // The proxy appends the address it saw; earlier entries come from the client
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+    const client = forwarded || request.headers.get('x-real-ip');
+    if (client) return `client:${client}`;
+  }
+  return `tracker:${getBaseDocumentId(docId)}`;
+}
+
+/**
+ * Count links against an allowance, refusing the whole batch when it would go over
+ */
+function takeChecks(key: string, count: number): boolean {
+  const now = Date.now();
+  for (const [staleKey, record] of Array.from(checkCounts)) {
+    if (now - record.windowStart > CHECK_WINDOW_MS) checkCounts.delete(staleKey);
+  }
+  const record = checkCounts.get(key);
+
+  if (!record || now - record.windowStart > CHECK_WINDOW_MS) {
+    checkCounts.set(key, { count, windowStart: now });
+    return count <= MAX_CHECKS_PER_WINDOW;
+  }
+  if (record.count + count > MAX_CHECKS_PER_WINDOW) {
+    return false;
+  }
+  record.count += count;
+  return true;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { docId, urls, check = true } = await request.json();
+
+    if (!Array.isArray(urls) || urls.some(url => typeof url !== 'string')) {
+      return NextResponse.json({ error: 'urls must be an array of strings' }, { status: 400 });
+    }
+    if (urls.length > MAX_URLS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_URLS_PER_REQUEST} links can be checked per request` },
+        { status: 400 }
+      );
+    }
+
+    // check: false only reads stored results
+    if (!check) {
+      return NextResponse.json({ results: await getStoredLinkHealth(urls) });
+    }
+
+    if (typeof docId !== 'string' || !docId) {
+      return NextResponse.json(
+        { error: 'docId is required to check links' },
+        { status: 400 }
+      );
+    }
+
+    // Only links the tracker itself lists are requested, so the server can't be pointed at arbitrary URLs
+    const { artist } = await TrackerCache.parse(reconstructGoogleSheetsUrl(docId));
+    const trackerUrls = new Set(collectArtistLinkUrls(artist));
+    const allowed = urls.filter(url => trackerUrls.has(url));
+
+    // Links with a recent result are answered from the store and don't count
+    const stored = await getStoredLinkHealth(allowed);
+    const unchecked = allowed.filter(url => !isFreshLinkHealth(stored[url]));
+    if (!takeChecks(getAllowanceKey(request, docId), unchecked.length)) {
+      return NextResponse.json(
+        { error: 'Too many link checks, try again later' },
+        { status: 429, headers: { 'Retry-After': String(CHECK_WINDOW_MS / 1000) } }
+      );
+    }
+
+    return NextResponse.json({ results: await checkLinks(allowed) });
+  } catch (error) {
+    console.error('Link health API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SheetParser, SheetData } from '@/utils/sheetParser';
+import { XlsxReader } from '@/utils/xlsxReader';
+import { TrackerImporter } from '@/utils/trackerImport';
+
+const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25 MB
+const MAX_BODY_SIZE = MAX_FILE_SIZE + 64 * 1024; // room for the multipart headers around the file
+
+/**
+ * Read the request body, giving up once it passes maxBytes; null when it is too large
+ */
+async function readLimitedBody(request: NextRequest, maxBytes: number): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * Parse an uploaded tracker file: a CSV tab, an XLSX workbook or a JSON export
+ */
+export async function POST(request: NextRequest) {
+  // Turn away oversized uploads before reading them; the body is still capped when no length is sent
+  if (Number(request.headers.get('content-length')) > MAX_BODY_SIZE) {
+    return NextResponse.json({ error: 'File is larger than 25 MB' }, { status: 413 });
+  }
+  const body = await readLimitedBody(request, MAX_BODY_SIZE);
+  if (!body) {
+    return NextResponse.json({ error: 'File is larger than 25 MB' }, { status: 413 });
+  }
+
+  let formData: FormData;
+  try {
+    formData = await new Response(body, {
+      headers: { 'Content-Type': request.headers.get('content-type') || '' },
+    }).formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart form with a file field' }, { status: 400 });
+  }
+
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'A tracker file is required' }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return NextResponse.json({ error: 'File is larger than 25 MB' }, { status: 413 });
+  }
+
+  const extension = file.name.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || '';
+  const title = file.name.replace(/\.[a-z0-9]+$/i, '');
+  console.log(`📄 Parsing uploaded file ${file.name} (${file.size} bytes)`);
+
+  try {
+    if (extension === 'json') {
+      const result = TrackerImporter.import(await file.text());
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: 'Invalid tracker export', details: result.errors },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(TrackerImporter.toSpreadsheetData(result));
+    }
+
+    let sheets: (SheetData & { name: string })[];
+    if (extension === 'xlsx') {
+      sheets = await XlsxReader.readWorkbook(await file.arrayBuffer());
+    } else if (extension === 'csv') {
+      // A CSV download holds a single tab
+      sheets = [{ name: title, rows: await SheetParser.parseCSVData(await file.text()) }];
+    } else {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a .csv, .xlsx or .json file.' },
+        { status: 415 }
+      );
+    }
+
+    const { artist } = await SheetParser.parseSheets(sheets, title);
+    return NextResponse.json({
+      artist,
+      ...SheetParser.getTabSummary(artist),
+    });
+  } catch (error) {
+    console.error('❌ File parse error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to parse file';
+    return NextResponse.json({ error: errorMessage }, { status: 422 });
+  }
+}
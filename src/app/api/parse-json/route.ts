@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { TrackerImporter } from '@/utils/trackerImport';
 
 export async function POST(request: NextRequest) {
   try {
@@ -8,12 +9,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'JSON data is required' }, { status: 400 });
     }
 
-    // JSON parsing is not yet implemented in the unified parser
-    console.log('JSON parsing request received but not implemented');
-    
-    return NextResponse.json({ 
-      error: 'JSON data parsing is not yet implemented. Please use Google Sheets URLs instead.' 
-    }, { status: 501 });
+    // Accepts TrackerExport JSON as an object or as the text of an exported file
+    const result = TrackerImporter.import(jsonData);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Invalid tracker export', details: result.errors },
+        { status: 400 }
+      );
+    }
+
+    const response = TrackerImporter.toSpreadsheetData(result);
+    if (typeof trackerName === 'string' && trackerName.trim()) {
+      response.artist = { ...response.artist, name: trackerName.trim() };
+    }
+
+    return NextResponse.json(response);
 
   } catch (error) {
     console.error('JSON Parse API error:', error);
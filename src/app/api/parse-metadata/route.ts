@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedParser } from '@/utils/unifiedParser';
+import { TrackerCache } from '@/utils/trackerCache';
 import { reconstructGoogleSheetsUrl } from '@/utils/urlUtils';
-import { Artist } from '@/types';
+import { Artist, TrackerCacheStatus } from '@/types';
 
 export async function GET(request: NextRequest) {
   const url = new URL(request.url);
   const docId = url.searchParams.get('docId');
+  const refresh = ['1', 'true'].includes(url.searchParams.get('refresh') || '');
 
   if (!docId) {
     return NextResponse.json(
@@ -20,11 +22,12 @@ export async function GET(request: NextRequest) {
     
     console.log('🚀 Fetching metadata only for:', fullGoogleDocsUrl);
     
-    // Try unified parser
+    // Shares the cached parse with /api/parse, so expanding eras doesn't re-download the sheet
     let artist: Artist;
+    let cacheStatus: TrackerCacheStatus;
     try {
-      artist = await UnifiedParser.parseGoogleDoc(fullGoogleDocsUrl);
-      console.log('✅ Unified parser succeeded');
+      ({ artist, cacheStatus } = await TrackerCache.parse(fullGoogleDocsUrl, { refresh }));
+      console.log(`✅ Unified parser succeeded (cache ${cacheStatus})`);
     } catch (error) {
       console.log('⚠️ Unified parser failed:', error instanceof Error ? error.message : String(error));
       throw error; // Re-throw since we don't have fallback
@@ -47,14 +50,14 @@ export async function GET(request: NextRequest) {
             ...album.metadata,
             trackCount: album.tracks.length // Use actual track count from HTML parser
           }
-        }))
+        })),
+        sections: undefined // Other tabs' track lists are only in the full parse
       },
-      hasUpdatesPage: false,
-      hasStatisticsPage: false,
+      ...UnifiedParser.getTabSummary(artist),
       id: docId,
     };
 
-    return NextResponse.json(response);
+    return NextResponse.json(response, { headers: { 'X-Cache': cacheStatus } });
   } catch (error) {
     console.error('❌ API metadata error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Failed to parse document metadata';
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedParser } from '@/utils/unifiedParser';
+import { TrackerCache } from '@/utils/trackerCache';
+import { TrackerImporter } from '@/utils/trackerImport';
 import { ParsedSpreadsheetData } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { googleDocsUrl, sheetType = 'unreleased', jsonData } = body;
+    const { googleDocsUrl, sheetType = 'unreleased', jsonData, format = 'csv', includeReport = false, forceRefresh = false } = body;
 
     if (!googleDocsUrl && !jsonData) {
       return NextResponse.json(
@@ -14,43 +16,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let docId: string;
-    if (googleDocsUrl) {
-      try {
-        docId = UnifiedParser.getDocumentId(googleDocsUrl);
-      } catch {
+    if (jsonData) {
+      // Imported exports render in place; they have no document to navigate to
+      const result = TrackerImporter.import(jsonData);
+      if (!result.ok) {
         return NextResponse.json(
-          { error: 'Invalid Google Docs URL format' },
+          { error: 'Invalid tracker export', details: result.errors },
           { status: 400 }
         );
       }
-    } else {
-      // Generate a temporary ID for JSON data
-      docId = `json_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      return NextResponse.json(TrackerImporter.toSpreadsheetData(result));
     }
 
-    // Parse the Google Doc using unified parser - always fetch fresh data
-    console.log('Fetching fresh data from source');
+    let docId: string;
     try {
-      if (jsonData) {
-        // TODO: Add JSON data parsing support to unified parser
-        return NextResponse.json(
-          { error: 'JSON data parsing not yet implemented in unified parser' },
-          { status: 501 }
-        );
-      }
-      
-      const artist = await UnifiedParser.parseGoogleDoc(googleDocsUrl || '');
+      docId = UnifiedParser.getDocumentId(googleDocsUrl);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid Google Docs URL format' },
+        { status: 400 }
+      );
+    }
+
+    // Parse the Google Doc through the tracker cache; forceRefresh bypasses it
+    try {
+      const { artist, report, cacheStatus } = await TrackerCache.parse(googleDocsUrl, {
+        format: format === 'xlsx' ? 'xlsx' : 'csv',
+        refresh: forceRefresh === true,
+      });
       
-      console.log('API: Parsed artist:', artist);
+      console.log(`API: Parsed artist ${artist.name} (cache ${cacheStatus})`);
 
       const response: ParsedSpreadsheetData & { id: string } = {
         artist,
-        hasUpdatesPage: false, // Default values since config not available
-        hasStatisticsPage: false,
+        ...UnifiedParser.getTabSummary(artist),
         id: docId,
       };
-      return NextResponse.json(response);
+      if (includeReport === true) {
+        response.parseReport = UnifiedParser.summarizeReport(report);
+      }
+      return NextResponse.json(response, { headers: { 'X-Cache': cacheStatus } });
     } catch (parseError) {
       console.error('Parse error:', parseError);
       
@@ -90,6 +95,9 @@ export async function GET(request: NextRequest) {
   const googleDocsUrl = url.searchParams.get('googleDocsUrl');
   const docId = url.searchParams.get('docId');
   const sheetType = url.searchParams.get('sheetType') as 'unreleased' | 'best' | 'recent' || 'unreleased';
+  const format = url.searchParams.get('format') === 'xlsx' ? 'xlsx' : 'csv';
+  const includeReport = ['1', 'true'].includes(url.searchParams.get('report') || '');
+  const refresh = ['1', 'true'].includes(url.searchParams.get('refresh') || '');
 
   // Support both old docId format and new googleDocsUrl format
   let fullGoogleDocsUrl = '';
@@ -112,21 +120,20 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Always fetch fresh data - no caching
-    console.log('Fetching fresh data from source for:', fullGoogleDocsUrl);
-    
-    // Use unified parser for consistent data extraction
-    const artist = await UnifiedParser.parseGoogleDoc(fullGoogleDocsUrl);
+    // Served from the tracker cache unless ?refresh=1
+    const { artist, report, cacheStatus } = await TrackerCache.parse(fullGoogleDocsUrl, { format, refresh });
     const documentId = UnifiedParser.getDocumentId(fullGoogleDocsUrl);
 
     const response: ParsedSpreadsheetData & { id: string } = {
       artist,
-      hasUpdatesPage: false,
-      hasStatisticsPage: false,
+      ...UnifiedParser.getTabSummary(artist),
       id: documentId,
     };
+    if (includeReport) {
+      response.parseReport = UnifiedParser.summarizeReport(report);
+    }
 
-    return NextResponse.json(response);
+    return NextResponse.json(response, { headers: { 'X-Cache': cacheStatus } });
   } catch (error) {
     console.error('API error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Failed to parse Google Doc';
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Artist } from '@/types';
+import { TrackerCache } from '@/utils/trackerCache';
+import { TrackerSnapshots } from '@/utils/trackerSnapshots';
+import { diffArtists } from '@/utils/trackerDiff';
+import { reconstructGoogleSheetsUrl } from '@/utils/urlUtils';
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const docId = url.searchParams.get('docId');
+  const fromId = url.searchParams.get('from');
+  const toId = url.searchParams.get('to');
+  const since = url.searchParams.get('since');
+
+  if (!docId || (!fromId && !since)) {
+    return NextResponse.json(
+      { error: 'docId and either from (snapshot ID) or since (date) are required' },
+      { status: 400 }
+    );
+  }
+
+  const sinceDate = since ? new Date(since) : null;
+  if (sinceDate && isNaN(sinceDate.getTime())) {
+    return NextResponse.json(
+      { error: 'since must be a date, e.g. 2025-01-31 or an ISO timestamp' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const before = fromId
+      ? await TrackerSnapshots.load(docId, fromId)
+      : await TrackerSnapshots.findAt(docId, sinceDate as Date);
+    if (!before) {
+      return NextResponse.json(
+        { error: fromId ? `Snapshot ${fromId} not found` : 'No snapshots of this tracker yet' },
+        { status: 404 }
+      );
+    }
+
+    // Compare against another snapshot, or against the tracker as it is now
+    let after: { artist: Artist; takenAt: string };
+    if (toId) {
+      const snapshot = await TrackerSnapshots.load(docId, toId);
+      if (!snapshot) {
+        return NextResponse.json(
+          { error: `Snapshot ${toId} not found` },
+          { status: 404 }
+        );
+      }
+      after = snapshot;
+    } else {
+      const { artist, cachedAt } = await TrackerCache.parse(reconstructGoogleSheetsUrl(docId));
+      after = { artist, takenAt: new Date(cachedAt).toISOString() };
+    }
+
+    const diff = diffArtists(before.artist, after.artist, before.takenAt, after.takenAt);
+    return NextResponse.json({ docId, fromSnapshot: before.id, toSnapshot: toId || null, ...diff });
+  } catch (error) {
+    console.error('❌ Snapshot diff error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to compare snapshots';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TrackerCache } from '@/utils/trackerCache';
+import { TrackerSnapshots } from '@/utils/trackerSnapshots';
+import { reconstructGoogleSheetsUrl } from '@/utils/urlUtils';
+
+export async function GET(request: NextRequest) {
+  const docId = new URL(request.url).searchParams.get('docId');
+
+  if (!docId) {
+    return NextResponse.json(
+      { error: 'Document ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const snapshots = await TrackerSnapshots.list(docId);
+  return NextResponse.json({ docId, snapshots });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { docId } = await request.json();
+
+    if (!docId || typeof docId !== 'string') {
+      return NextResponse.json(
+        { error: 'Document ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Re-read the tracker; the cache snapshots every fresh parse unless nothing changed since the last one
+    const { snapshot } = await TrackerCache.refreshWithSnapshot(reconstructGoogleSheetsUrl(docId));
+
+    return NextResponse.json({ docId, snapshot });
+  } catch (error) {
+    console.error('❌ Snapshot error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to take snapshot';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyStream } from '@/utils/streamProxy';
+
+export async function GET(request: NextRequest) {
+  return proxyStream(request);
+}
+
+export async function HEAD(request: NextRequest) {
+  return proxyStream(request);
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UpdateEntry } from '@/types';
+import { loadTrackerUpdates } from '@/utils/updateSource';
+import { filterUpdates, UPDATE_TYPES } from '@/utils/trackerUpdates';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const docId = url.searchParams.get('docId');
+  const typeParam = url.searchParams.get('type');
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+
+  if (!docId) {
+    return NextResponse.json(
+      { error: 'Document ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const types = typeParam ? typeParam.split(',').map(type => type.trim()).filter(Boolean) : [];
+  const unknownTypes = types.filter(type => !UPDATE_TYPES.includes(type as UpdateEntry['type']));
+  if (unknownTypes.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown update type: ${unknownTypes.join(', ')} (expected ${UPDATE_TYPES.join(', ')})` },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !ISO_DATE.test(from)) || (to && !ISO_DATE.test(to))) {
+    return NextResponse.json(
+      { error: 'from and to must be dates in YYYY-MM-DD format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { source, updates } = await loadTrackerUpdates(docId);
+    const filtered = filterUpdates(updates, { types: types as UpdateEntry['type'][], from, to });
+    return NextResponse.json({ docId, source, total: updates.length, updates: filtered });
+  } catch (error) {
+    console.error('❌ Updates error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to load updates';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redactWebhookUrl, TrackerWebhooks } from '@/utils/trackerWebhooks';
+
+export async function GET(request: NextRequest) {
+  const docId = request.nextUrl.searchParams.get('docId');
+  const webhookId = request.nextUrl.searchParams.get('webhookId') || undefined;
+
+  if (!docId) {
+    return NextResponse.json(
+      { error: 'Document ID is required' },
+      { status: 400 }
+    );
+  }
+
+  // Receiver URLs can carry credentials, so only their host is shown
+  const deliveries = await TrackerWebhooks.getDeliveries(docId, webhookId);
+  return NextResponse.json({
+    docId,
+    deliveries: deliveries.map(delivery => ({ ...delivery, url: redactWebhookUrl(delivery.url) })),
+  });
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TrackChangeType, WebhookSubscription } from '@/types';
+import { redactWebhookUrl, TrackerWebhooks } from '@/utils/trackerWebhooks';
+import { TRACK_CHANGE_TYPES } from '@/utils/trackerDiff';
+import { checkPublicUrl } from '@/utils/streamProxy';
+
+// Secrets and full URLs are only shown when a webhook is created; Discord webhook URLs carry their token
+function toPublicWebhook({ secret, managementKeyHash, url, ...subscription }: WebhookSubscription) {
+  void secret;
+  void managementKeyHash;
+  return { ...subscription, url: redactWebhookUrl(url) };
+}
+
+export async function GET(request: NextRequest) {
+  const docId = request.nextUrl.searchParams.get('docId');
+
+  if (!docId) {
+    return NextResponse.json(
+      { error: 'Document ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const webhooks = await TrackerWebhooks.list(docId);
+  return NextResponse.json({ docId, webhooks: webhooks.map(toPublicWebhook) });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { docId, url, format = 'json', events, secret } = await request.json();
+
+    if (!docId || typeof docId !== 'string' || !url || typeof url !== 'string') {
+      return NextResponse.json(
+        { error: 'docId and url are required' },
+        { status: 400 }
+      );
+    }
+    if (format !== 'json' && format !== 'discord') {
+      return NextResponse.json(
+        { error: 'format must be json or discord' },
+        { status: 400 }
+      );
+    }
+    if (events !== undefined && (!Array.isArray(events) || events.some(event => !TRACK_CHANGE_TYPES.includes(event)))) {
+      return NextResponse.json(
+        { error: `events must be a list of: ${TRACK_CHANGE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+      return NextResponse.json(
+        { error: 'secret must be a string of at least 16 characters' },
+        { status: 400 }
+      );
+    }
+
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return NextResponse.json(
+        { error: 'url is not a valid URL' },
+        { status: 400 }
+      );
+    }
+    if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS !== 'true') {
+      const problem = await checkPublicUrl(target);
+      if (problem) {
+        return NextResponse.json(
+          { error: problem.message },
+          { status: 400 }
+        );
+      }
+    } else if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+      return NextResponse.json(
+        { error: 'Only http and https URLs can be used' },
+        { status: 400 }
+      );
+    }
+
+    const registered = await TrackerWebhooks.register(docId, {
+      url: target.toString(),
+      format,
+      events: events as TrackChangeType[] | undefined,
+      secret,
+    });
+    if ('problem' in registered) {
+      return NextResponse.json(
+        { error: registered.problem.message },
+        { status: registered.problem.status }
+      );
+    }
+    const { subscription, managementKey } = registered;
+    const { managementKeyHash, ...webhook } = subscription;
+    void managementKeyHash;
+    return NextResponse.json({ webhook, managementKey }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Webhook registration error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to register webhook';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const docId = request.nextUrl.searchParams.get('docId');
+  const id = request.nextUrl.searchParams.get('id');
+
+  if (!docId || !id) {
+    return NextResponse.json(
+      { error: 'docId and id are required' },
+      { status: 400 }
+    );
+  }
+
+  const managementKey = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!managementKey) {
+    return NextResponse.json(
+      { error: 'The management key from registration is required as a Bearer token' },
+      { status: 401 }
+    );
+  }
+
+  const subscription = (await TrackerWebhooks.list(docId)).find(subscription => subscription.id === id);
+  if (!subscription) {
+    return NextResponse.json(
+      { error: `Webhook ${id} not found` },
+      { status: 404 }
+    );
+  }
+  if (!TrackerWebhooks.verifyManagementKey(subscription, managementKey)) {
+    return NextResponse.json(
+      { error: 'Invalid management key' },
+      { status: 403 }
+    );
+  }
+
+  await TrackerWebhooks.remove(docId, id);
+  return NextResponse.json({ docId, removed: id });
+}
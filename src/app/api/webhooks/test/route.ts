@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redactWebhookUrl, TrackerWebhooks } from '@/utils/trackerWebhooks';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { docId, id } = await request.json();
+
+    if (!docId || typeof docId !== 'string' || !id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'docId and id are required' },
+        { status: 400 }
+      );
+    }
+
+    const managementKey = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!managementKey) {
+      return NextResponse.json(
+        { error: 'The management key from registration is required as a Bearer token' },
+        { status: 401 }
+      );
+    }
+
+    const subscription = (await TrackerWebhooks.list(docId)).find(subscription => subscription.id === id);
+    if (!subscription) {
+      return NextResponse.json(
+        { error: `Webhook ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (!TrackerWebhooks.verifyManagementKey(subscription, managementKey)) {
+      return NextResponse.json(
+        { error: 'Invalid management key' },
+        { status: 403 }
+      );
+    }
+
+    const delivery = await TrackerWebhooks.sendTest(docId, id);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: `Webhook ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ delivery: { ...delivery, url: redactWebhookUrl(delivery.url) } });
+  } catch (error) {
+    console.error('❌ Webhook test error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send test webhook';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
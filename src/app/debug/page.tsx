@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { ParseReport, ParseReportSummary, ParseRowClassification } from '@/types';
 
 interface RawDataResponse {
   success: boolean;
@@ -33,40 +34,56 @@ interface RawDataResponse {
 interface DebugLog {
   step: string;
   message: string;
-  data?: any;
+  data?: unknown;
   timestamp: string;
 }
 
 interface DebugParseResponse {
-  success: boolean;
+  success?: boolean;
   debugInfo?: {
+    artist: string;
+    albumCount: number;
+    totalTracks: number;
+    lastUpdated: string;
+    profile: ParseReport['profile'];
+    columnMap: ParseReport['columnMap'];
     rowAnalysis: {
-      totalRows: number;
-      headerRowIndex: number;
+      totalRows: ParseReportSummary['totalRows'];
+      headerRowIndex: ParseReport['headerRowIndex'];
       dataRowCount: number;
       processedRows: number;
       skippedRows: number;
-      eraRows: number;
-      trackRows: number;
-    };
-    headers: string[];
-    columnMap: Record<string, number>;
-    sampleRows: {
-      firstFewRows: string[][];
-      headerRow: string[];
-      firstFewDataRows: string[][];
+      eraRows: ParseReportSummary['eraHeaders'];
+      trackRows: ParseReportSummary['tracks'];
     };
   };
+  report?: ParseReport;
+  reportSummary?: ParseReportSummary;
   debugLogs?: DebugLog[];
   error?: string;
 }
 
+const CLASSIFICATION_STYLES: Record<ParseRowClassification, string> = {
+  track: 'bg-green-100 text-green-800',
+  era_header: 'bg-purple-100 text-purple-800',
+  stats: 'bg-blue-100 text-blue-800',
+  announcement: 'bg-yellow-100 text-yellow-800',
+  skipped: 'bg-gray-100 text-gray-700',
+};
+
 export default function DebugPage() {
   const [url, setUrl] = useState('');
   const [rawData, setRawData] = useState<RawDataResponse | null>(null);
-  const [debugData, setDebugData] = useState<Record<string, unknown> | null>(null);
+  const [debugData, setDebugData] = useState<DebugParseResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'raw' | 'debug'>('raw');
+  const [rowFilter, setRowFilter] = useState<ParseRowClassification | 'warnings' | 'all'>('all');
+
+  const report = debugData?.report;
+  const reportRows = report?.entries.filter(entry =>
+    rowFilter === 'all' ||
+    (rowFilter === 'warnings' ? entry.warnings.length > 0 : entry.classification === rowFilter)
+  ) || [];
 
   const fetchRawData = async () => {
     if (!url) return;
@@ -269,7 +286,7 @@ export default function DebugPage() {
           {debugData.error ? (
             <div className="bg-red-50 border border-red-200 rounded-md p-4">
               <h3 className="text-lg font-semibold text-red-800 mb-2">Error</h3>
-              <p className="text-red-700">{String(debugData.error)}</p>
+              <p className="text-red-700">{debugData.error}</p>
             </div>
           ) : (
             <>
@@ -278,18 +295,19 @@ export default function DebugPage() {
                 <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
                   <h3 className="text-lg font-semibold mb-2">Parse Analysis</h3>
                   <div className="grid grid-cols-4 gap-4 text-sm mb-4">
-                    <div><strong>Total Rows:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.totalRows || 'N/A'}</div>
-                    <div><strong>Header Row:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.headerRowIndex || 'N/A'}</div>
-                    <div><strong>Data Rows:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.dataRowCount || 'N/A'}</div>
-                    <div><strong>Processed:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.processedRows || 'N/A'}</div>
-                    <div><strong>Skipped:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.skippedRows || 'N/A'}</div>
-                    <div><strong>Era Rows:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.eraRows || 'N/A'}</div>
-                    <div><strong>Track Rows:</strong> {(debugData.debugInfo as any)?.rowAnalysis?.trackRows || 'N/A'}</div>
+                    <div><strong>Total Rows:</strong> {debugData.debugInfo.rowAnalysis.totalRows ?? 'N/A'}</div>
+                    <div><strong>Header Row:</strong> {debugData.debugInfo.rowAnalysis.headerRowIndex ?? 'N/A'}</div>
+                    <div><strong>Data Rows:</strong> {debugData.debugInfo.rowAnalysis.dataRowCount ?? 'N/A'}</div>
+                    <div><strong>Processed:</strong> {debugData.debugInfo.rowAnalysis.processedRows ?? 'N/A'}</div>
+                    <div><strong>Skipped:</strong> {debugData.debugInfo.rowAnalysis.skippedRows ?? 'N/A'}</div>
+                    <div><strong>Era Rows:</strong> {debugData.debugInfo.rowAnalysis.eraRows ?? 'N/A'}</div>
+                    <div><strong>Track Rows:</strong> {debugData.debugInfo.rowAnalysis.trackRows ?? 'N/A'}</div>
+                    <div><strong>Warnings:</strong> {debugData.reportSummary?.warnings ?? 'N/A'}</div>
                   </div>
                   
                   <h4 className="font-medium mb-2">Column Mapping:</h4>
                   <div className="grid grid-cols-3 gap-2 text-xs">
-                    {debugData.debugInfo && Object.entries((debugData.debugInfo as any)?.columnMap || {}).map(([key, value]) => (
+                    {Object.entries(debugData.debugInfo.columnMap || {}).map(([key, value]) => (
                       <div key={key}>
                         <strong>{key}:</strong> {typeof value === 'number' && value >= 0 ? `Column ${value}` : 'Not found'}
                       </div>
@@ -298,12 +316,65 @@ export default function DebugPage() {
                 </div>
               )}
 
+              {/* Row Report */}
+              {report && (
+                <div className="bg-white border border-gray-200 rounded-md p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-lg font-semibold">
+                      Row Report{report.tab && <span className="text-sm font-normal text-gray-500"> · {report.tab}</span>}
+                    </h3>
+                    <select
+                      value={rowFilter}
+                      onChange={(e) => setRowFilter(e.target.value as ParseRowClassification | 'warnings' | 'all')}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="all">All rows ({report.entries.length})</option>
+                      <option value="warnings">With warnings</option>
+                      <option value="track">Tracks</option>
+                      <option value="era_header">Era headers</option>
+                      <option value="stats">Stats</option>
+                      <option value="announcement">Announcements</option>
+                      <option value="skipped">Skipped</option>
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-3">Profile: {report.profile}</p>
+                  <div className="max-h-[32rem] overflow-y-auto">
+                    <table className="min-w-full text-xs border border-gray-300">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-2 py-1 border text-left">Row</th>
+                          <th className="px-2 py-1 border text-left">Classification</th>
+                          <th className="px-2 py-1 border text-left">Reason</th>
+                          <th className="px-2 py-1 border text-left">Era</th>
+                          <th className="px-2 py-1 border text-left">Warnings</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {reportRows.map(entry => (
+                          <tr key={entry.rowIndex} className={entry.warnings.length > 0 ? 'bg-red-50' : 'bg-white'}>
+                            <td className="px-2 py-1 border font-medium">{entry.rowIndex}</td>
+                            <td className="px-2 py-1 border">
+                              <span className={`px-2 py-0.5 rounded ${CLASSIFICATION_STYLES[entry.classification]}`}>
+                                {entry.classification.replace('_', ' ')}
+                              </span>
+                            </td>
+                            <td className="px-2 py-1 border">{entry.reason}</td>
+                            <td className="px-2 py-1 border">{entry.era || ''}</td>
+                            <td className="px-2 py-1 border text-red-700">{entry.warnings.join('; ')}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Debug Logs */}
               {debugData.debugLogs && (
                 <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
                   <h3 className="text-lg font-semibold mb-2">Debug Logs</h3>
                   <div className="max-h-96 overflow-y-auto space-y-2">
-                    {(debugData.debugLogs as any[])?.map((log: any, i: number) => (
+                    {debugData.debugLogs.map((log, i) => (
                       <div key={i} className="bg-white p-3 rounded border text-sm">
                         <div className="flex gap-2 items-center mb-1">
                           <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded text-xs font-medium">
@@ -312,7 +383,7 @@ export default function DebugPage() {
                           <span className="text-gray-500 text-xs">{log.timestamp}</span>
                         </div>
                         <div className="font-medium mb-1">{log.message}</div>
-                        {log.data && (
+                        {log.data !== undefined && (
                           <pre className="text-xs bg-gray-100 p-2 rounded overflow-x-auto">
                             {JSON.stringify(log.data, null, 2)}
                           </pre>
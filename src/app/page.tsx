@@ -165,6 +165,40 @@ export default function Home() {
       setLoading(false);
     }
   };
+  const handleFileSubmit = async (file: File) => {
+    setLoading(true);
+    setError(null);
+    setCurrentUrl(null);
+    setCurrentDocId('');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/parse-file', {
+        method: 'POST',
+        body: formData,
+      });
+      const data: ParsedSpreadsheetData & { error?: string } = await response.json();
+      if (!response.ok || !data.artist) {
+        throw new Error(data.error || 'Failed to parse file');
+      }
+      // Uploaded trackers have no document to link to, so they render here
+      startTransition(() => {
+        setError(null);
+        setArtist(data.artist);
+      });
+      localStorage.setItem('trackerData', JSON.stringify({
+        artist: data.artist,
+        hasUpdatesPage: data.hasUpdatesPage,
+        hasStatisticsPage: data.hasStatisticsPage
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      setArtist(null);
+    } finally {
+      setLoading(false);
+    }
+  };
   const handleReset = () => {
     setArtist(null);
     setError(null);
@@ -174,7 +208,7 @@ export default function Home() {
     <div className="min-h-screen bg-slate-900">
       {!artist ? (
         <div className="py-12">
-          <GoogleDocsForm onSubmit={handleFormSubmit} loading={loading} />
+          <GoogleDocsForm onSubmit={handleFormSubmit} onFileSubmit={handleFileSubmit} loading={loading} />
           {error && (
             <div className="max-w-2xl mx-auto mt-6 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 rounded-xl shadow-sm">
               <h3 className="font-medium mb-1">Error</h3>
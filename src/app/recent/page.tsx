@@ -6,6 +6,7 @@ import { ParsedSpreadsheetData, Track } from '@/types';
 import TrackList from '@/components/TrackList';
 import MusicPlayer from '@/components/MusicPlayer';
 import Navigation from '@/components/Navigation';
+import { resolveTrackerDate, compareTrackerDates } from '@/utils/trackerDate';
 
 export default function RecentTracks() {
   const router = useRouter();
@@ -47,12 +48,11 @@ export default function RecentTracks() {
   // Get tracks sorted by leak date (most recent first)
   const recentTracks = data?.artist.albums.flatMap(album => 
     album.tracks
-      .filter(track => track.leakDate && track.leakDate.trim() !== '')
-      .map(track => ({ ...track, albumName: album.name }))
+      .map(track => ({ ...track, albumName: album.name, leakDateValue: resolveTrackerDate(track.parsedLeakDate, track.leakDate) }))
+      .filter(track => track.leakDateValue)
   ).sort((a, b) => {
     // Sort by leak date descending (most recent first)
-    if (!a.leakDate || !b.leakDate) return 0;
-    return new Date(b.leakDate).getTime() - new Date(a.leakDate).getTime();
+    return compareTrackerDates(b.leakDateValue, a.leakDateValue);
   }).slice(0, 50) || []; // Limit to 50 most recent
 
   const handleTrackPlay = (track: Track) => {
@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { StatEntry, Era } from '@/types';
+import { StatEntry, Era, Track, LinkHealth } from '@/types';
+import { summarizeTracks, QUALITY_TIER_LABELS, AVAILABILITY_LABELS } from '@/utils/qualityTaxonomy';
+import { collectLinkUrls, getDeadLinkRates } from '@/utils/linkHealth';
 import Link from 'next/link';
 
 export default function StatisticsPage() {
@@ -44,9 +46,53 @@ export default function StatisticsPage() {
           });
           
           setStatistics(stats);
-        } else if (parsedData.artist && parsedData.artist.statistics && Array.isArray(parsedData.artist.statistics)) {
-          // Fallback for legacy data structure
-          setStatistics(parsedData.artist.statistics);
+        } else if (parsedData.artist) {
+          // Tracker's own Statistics tab first, then counts from the normalized track data
+          const stats: StatEntry[] = Array.isArray(parsedData.artist.statistics) ? [...parsedData.artist.statistics] : [];
+          const tracks: Track[] = (parsedData.artist.albums || []).flatMap((album: Era) => album.tracks);
+
+          if (tracks.length > 0) {
+            const summary = summarizeTracks(tracks);
+            stats.push(
+              { label: QUALITY_TIER_LABELS.lossless, value: summary.quality.lossless, type: 'quality' },
+              { label: QUALITY_TIER_LABELS.cd, value: summary.quality.cdQuality, type: 'quality' },
+              { label: QUALITY_TIER_LABELS.high, value: summary.quality.highQuality, type: 'quality' },
+              { label: QUALITY_TIER_LABELS.medium, value: summary.quality.mediumQuality, type: 'quality' },
+              { label: QUALITY_TIER_LABELS.low, value: summary.quality.lowQuality, type: 'quality' },
+              { label: QUALITY_TIER_LABELS.recording, value: summary.quality.recordings, type: 'quality' },
+              { label: QUALITY_TIER_LABELS.not_available, value: summary.quality.notAvailable, type: 'quality' },
+              { label: AVAILABILITY_LABELS.og, value: summary.availability.ogFiles, type: 'availability' },
+              { label: AVAILABILITY_LABELS.full, value: summary.availability.full, type: 'availability' },
+              { label: AVAILABILITY_LABELS.tagged, value: summary.availability.tagged, type: 'availability' },
+              { label: AVAILABILITY_LABELS.stem, value: summary.availability.stemBounces, type: 'availability' },
+              { label: AVAILABILITY_LABELS.partial, value: summary.availability.partial, type: 'availability' },
+              { label: AVAILABILITY_LABELS.snippet, value: summary.availability.snippets, type: 'availability' },
+              { label: AVAILABILITY_LABELS.unavailable, value: summary.availability.unavailable, type: 'availability' },
+            );
+
+            // Dead-link rate per era from links the background checker has already visited
+            const albums: Era[] = parsedData.artist.albums || [];
+            const urls = collectLinkUrls(albums);
+            const linkHealth: Record<string, LinkHealth> = {};
+            for (let i = 0; i < urls.length; i += 200) {
+              try {
+                const response = await fetch('/api/link-health', {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ urls: urls.slice(i, i + 200), check: false }),
+                });
+                if (!response.ok) break;
+                Object.assign(linkHealth, (await response.json()).results);
+              } catch {
+                break;
+              }
+            }
+            for (const rate of getDeadLinkRates(albums, linkHealth)) {
+              stats.push({ label: `${rate.era} (${rate.dead}/${rate.checked} checked)`, value: rate.rate, type: 'dead links %' });
+            }
+          }
+
+          setStatistics(stats);
         }
         setLoading(false);
       } catch {
@@ -112,7 +158,8 @@ export default function StatisticsPage() {
                 <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 border-b border-gray-200 dark:border-gray-600 pb-2">{category}</h2>
                 <div className="space-y-3">
                   {stats.map((stat, index) => (
-                    <div key={index} className="text-sm">
+                    <div key={index} className="text-sm flex justify-between gap-4">
+                      <div className="text-gray-600 dark:text-gray-400">{stat.label}</div>
                       <div className="text-gray-800 dark:text-gray-200 font-medium">{stat.value}</div>
                     </div>
                   ))}
@@ -1,46 +1,54 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { UpdateEntry } from '@/types';
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { UpdateEntry, UpdateSource } from '@/types';
 import Link from 'next/link';
+import { parseTrackerDate, formatTrackerDate } from '@/utils/trackerDate';
+import { filterUpdates, getTrackPath, linkUpdateTracks, UPDATE_TYPES, UPDATE_TYPE_LABELS } from '@/utils/trackerUpdates';
+
+const TYPE_COLORS: Record<UpdateEntry['type'], string> = {
+  leak: 'text-green-800 dark:text-green-200 bg-green-100 dark:bg-green-900',
+  addition: 'text-blue-800 dark:text-blue-200 bg-blue-100 dark:bg-blue-900',
+  update: 'text-yellow-800 dark:text-yellow-200 bg-yellow-100 dark:bg-yellow-900',
+  removal: 'text-red-800 dark:text-red-200 bg-red-100 dark:bg-red-900',
+};
 
 export default function UpdatesPage() {
   const [updates, setUpdates] = useState<UpdateEntry[]>([]);
+  const [source, setSource] = useState<UpdateSource>('tab');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [selectedTypes, setSelectedTypes] = useState<UpdateEntry['type'][]>([]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const docId = searchParams.get('docId');
+
+  const filteredUpdates = useMemo(
+    () => filterUpdates(updates, { types: selectedTypes, from: fromDate || null, to: toDate || null }),
+    [updates, selectedTypes, fromDate, toDate]
+  );
+
+  const toggleType = (type: UpdateEntry['type']) => {
+    setSelectedTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
 
   // Function to format date according to locale
   const formatDate = (dateString: string | undefined): { formatted: string | null, year: number | null, isValid: boolean } => {
     if (!dateString) return { formatted: null, year: null, isValid: false };
-    
-    // Check for malformed dates with ?? 
-    if (dateString.includes('??')) {
-      return { formatted: dateString, year: null, isValid: false };
-    }
-    
-    try {
-      // Parse M/D/YYYY or MM/DD/YYYY format (handle both single and double digits)
-      const [month, day, year] = dateString.split('/').map(Number);
-      const date = new Date(year, month - 1, day);
-      
-      // Validate the date
-      if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
-        return { formatted: dateString, year: null, isValid: false };
-      }
-      
-      // Format according to user's locale
-      const formatted = date.toLocaleDateString(undefined, {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit'
-      });
-      
-      return { formatted, year, isValid: true };
-    } catch {
+
+    const date = parseTrackerDate(dateString);
+    if (!date) {
       return { formatted: dateString, year: null, isValid: false };
     }
+
+    // Ranges spanning several years have no single year color
+    const year = Number(date.earliest.slice(0, 4));
+    const isSingleYear = year === Number(date.latest.slice(0, 4));
+
+    return { formatted: formatTrackerDate(date), year: isSingleYear ? year : null, isValid: true };
   };
 
   // Function to get year color with better consistency and readability
@@ -64,9 +72,22 @@ export default function UpdatesPage() {
   };
 
   useEffect(() => {
-    // Get updates from localStorage where we cache the parsed data
     const loadUpdates = async () => {
       try {
+        // A tracker page links here with its doc ID; the server falls back to snapshot changes when there's no Updates tab
+        if (docId) {
+          const response = await fetch(`/api/updates?docId=${encodeURIComponent(docId)}`);
+          if (!response.ok) {
+            throw new Error('Failed to fetch updates');
+          }
+          const result = await response.json();
+          setUpdates(result.updates);
+          setSource(result.source);
+          setLoading(false);
+          return;
+        }
+
+        // Otherwise use the last parsed tracker cached in localStorage
         const cachedData = localStorage.getItem('trackerData');
         if (!cachedData) {
           // No data available, redirect to home and replace history
@@ -76,7 +97,7 @@ export default function UpdatesPage() {
         
         const parsedData = JSON.parse(cachedData);
         if (parsedData.artist && parsedData.artist.updates) {
-          setUpdates(parsedData.artist.updates);
+          setUpdates(linkUpdateTracks(parsedData.artist.updates, parsedData.artist));
         }
         setLoading(false);
       } catch {
@@ -86,7 +107,7 @@ export default function UpdatesPage() {
     };
 
     loadUpdates();
-  }, [router]);
+  }, [docId, router]);
 
   if (loading) {
     return (
@@ -114,20 +135,73 @@ export default function UpdatesPage() {
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">Updates</h1>
           <p className="text-gray-600 dark:text-gray-300 text-lg">
-            Latest changes and updates to the tracker
+            {source === 'snapshots'
+              ? 'Changes detected between saved snapshots of the tracker'
+              : 'Latest changes and updates to the tracker'}
           </p>
+          {docId && (
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              Subscribe to new leaks:{' '}
+              <a href={`/api/feed/${docId}`} className="text-blue-600 dark:text-blue-400 hover:underline">Atom</a>
+              {' · '}
+              <a href={`/api/feed/${docId}?format=json`} className="text-blue-600 dark:text-blue-400 hover:underline">JSON Feed</a>
+            </p>
+          )}
         </div>
 
+        {updates.length > 0 && (
+          <div className="mb-6 flex flex-wrap items-center gap-3">
+            {UPDATE_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors duration-150 ${
+                  selectedTypes.includes(type)
+                    ? TYPE_COLORS[type]
+                    : 'text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                {UPDATE_TYPE_LABELS[type]}
+              </button>
+            ))}
+            <div className="flex items-center gap-2 ml-auto text-sm text-gray-600 dark:text-gray-300">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                aria-label="From date"
+                className="px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                aria-label="To date"
+                className="px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+            </div>
+          </div>
+        )}
+
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
           {updates.length === 0 ? (
             <div className="text-center text-gray-500 dark:text-gray-400 py-12">
               <div className="text-6xl mb-4">📝</div>
               <div className="text-xl font-medium mb-2">No updates available</div>
-              <div className="text-gray-400 dark:text-gray-500">Parse a spreadsheet first to see updates</div>
+              <div className="text-gray-400 dark:text-gray-500">
+                {docId
+                  ? 'This tracker has no Updates tab and no snapshot history yet'
+                  : 'Parse a spreadsheet first to see updates'}
+              </div>
+            </div>
+          ) : filteredUpdates.length === 0 ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-12">
+              <div className="text-xl font-medium">No updates match these filters</div>
             </div>
           ) : (
             <div className="divide-y divide-gray-100 dark:divide-gray-700">
-              {updates.map((update, index) => {
+              {filteredUpdates.map((update, index) => {
                 const { formatted, year, isValid } = formatDate(update.date);
                 const dateColor = getYearColor(year, isValid);
                 
@@ -135,9 +209,31 @@ export default function UpdatesPage() {
                   <div key={index} className="p-6 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-150">
                     <div className="flex justify-between items-start gap-4">
                       <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className={`px-2 py-0.5 rounded text-xs font-semibold ${TYPE_COLORS[update.type]}`}>
+                            {UPDATE_TYPE_LABELS[update.type]}
+                          </span>
+                        </div>
                         <p className="text-gray-900 dark:text-white text-base leading-relaxed font-medium">
                           {update.description}
                         </p>
+                        {update.tracks && update.tracks.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {update.tracks.map(track => docId && track.eraId ? (
+                              <Link
+                                key={track.id}
+                                href={getTrackPath(docId, track)}
+                                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                {track.title} <span className="text-gray-400 dark:text-gray-500">({track.era})</span>
+                              </Link>
+                            ) : (
+                              <span key={track.id} className="text-sm text-gray-600 dark:text-gray-300">
+                                {track.title} <span className="text-gray-400 dark:text-gray-500">({track.era})</span>
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       {formatted && (
                         <div className={`px-3 py-1.5 rounded-full text-sm font-semibold whitespace-nowrap ${dateColor}`}>
@@ -154,7 +250,7 @@ export default function UpdatesPage() {
 
         <div className="mt-8 text-center">
           <Link
-            href="/"
+            href={docId ? `/${docId}` : '/'}
             className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 text-white rounded-lg transition-colors duration-200 font-medium shadow-sm hover:shadow-md"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
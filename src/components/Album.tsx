@@ -4,6 +4,7 @@ import { useState, useEffect, useMemo, useCallback, memo, lazy, Suspense } from
 import Image from 'next/image';
 import { Album as AlbumType, Track as TrackType } from '@/types';
 import { groupTracksByName, sortTracksInGroup } from '@/utils/trackCollapsing';
+import { getTrackAvailability } from '@/utils/qualityTaxonomy';
 
 // Lazy load heavy components for better performance
 const TrackGroup = lazy(() => import('./TrackGroup'));
@@ -33,31 +34,8 @@ const Album = memo(function Album({ album, onPlay, onScrollToTrack, isSearchActi
   const matchesQualityFilter = useCallback((track: TrackType): boolean => {
     if (selectedQualities.length === 0) return true; // Show all if no filter
     
-    const quality = track.quality?.toLowerCase() || '';
-    const availableLength = track.availableLength?.toLowerCase() || '';
-    const rawName = track.rawName?.toLowerCase() || '';
-    
-    return selectedQualities.some(qualityKey => {
-      switch (qualityKey) {
-        case 'og':
-          return quality.includes('og') || quality.includes('original') || rawName.includes('og file');
-        case 'full':
-          return quality.includes('full') || availableLength.includes('full') || quality.includes('lossless') || quality.includes('cd quality');
-        case 'tagged':
-          return quality.includes('tagged') || quality.includes('tag') || rawName.includes('tagged');
-        case 'partial':
-          return quality.includes('partial') || availableLength.includes('partial') || track.trackLength?.toLowerCase().includes('partial');
-        case 'snippet':
-          return quality.includes('snippet') || availableLength.includes('snippet') || track.trackLength?.toLowerCase().includes('snippet');
-        case 'stem':
-          return quality.includes('stem') || quality.includes('bounce') || rawName.includes('stem') || rawName.includes('bounce');
-        case 'unavailable':
-          return quality.includes('unavailable') || quality.includes('not available') || 
-                 availableLength.includes('unavailable') || availableLength.includes('not available');
-        default:
-          return false;
-      }
-    });
+    // Filter keys are availability types, the same buckets the era statistics count
+    return selectedQualities.includes(getTrackAvailability(track));
   }, [selectedQualities]);
   
   // Group tracks by their base name, with quality filtering
@@ -144,6 +122,9 @@ const Album = memo(function Album({ album, onPlay, onScrollToTrack, isSearchActi
                     {' '}({album.alternateNames.join(', ')})
                   </span>
                 )}
+                {album.year && (
+                  <span className="text-sm opacity-60 font-normal"> · {album.year}</span>
+                )}
               </h2>
               
               {/* Era Description */}
@@ -228,6 +209,8 @@ const Album = memo(function Album({ album, onPlay, onScrollToTrack, isSearchActi
                 onClose={() => setShowStats(false)}
                 selectedQualities={selectedQualities}
                 onQualityFilter={handleQualityFilter}
+                mismatches={album.metadataMismatches}
+                runtime={album.runtime}
               />
             </Suspense>
           </div>
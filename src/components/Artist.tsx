@@ -1,13 +1,16 @@
 'use client';
 
 import { useState, useMemo, useEffect, useRef, useCallback, memo, startTransition } from 'react';
-import { Artist as ArtistType, Track } from '@/types';
+import Link from 'next/link';
+import { Artist as ArtistType, Album as AlbumType, Track } from '@/types';
 import Album from './Album';
 import LazyEra from './LazyEra';
 import TrackList from './TrackList';
 import VirtualizedTrackList from './VirtualizedTrackList';
 import ExportButton from './ExportButton';
 import { SheetType } from './SheetNavigation';
+import { resolveTrackerDate, compareTrackerDates, isTrackerDateWithin } from '@/utils/trackerDate';
+import { isBestTrack } from '@/utils/qualityTaxonomy';
 
 interface ArtistProps {
   artist: ArtistType;
@@ -18,6 +21,15 @@ interface ArtistProps {
   sheetType: SheetType;
 }
 
+// Search matches an era by its name or any of its alternate names
+const matchesEra = (album: AlbumType, query: string): boolean =>
+  album.name.toLowerCase().includes(query) ||
+  (album.alternateNames?.some(name => name.toLowerCase().includes(query)) ?? false);
+
+// Leak date first, file date as fallback
+const getTrackDate = (track: Track) =>
+  resolveTrackerDate(track.parsedLeakDate, track.leakDate) || resolveTrackerDate(track.parsedFileDate, track.fileDate);
+
 const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, sourceUrl, sheetType }: ArtistProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
@@ -93,14 +105,7 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
       if (sheetType === 'best') {
         albumsToFilter = artist.albums.map(album => ({
           ...album,
-          tracks: album.tracks.filter(track => {
-            // Filter for best tracks - tracks marked as special or high quality
-            return track.isSpecial || 
-                   track.quality?.toLowerCase().includes('og') ||
-                   track.quality?.toLowerCase().includes('full') ||
-                   track.quality?.toLowerCase().includes('lossless') ||
-                   track.quality?.toLowerCase().includes('cd quality');
-          })
+          tracks: album.tracks.filter(isBestTrack)
         })).filter(album => album.tracks.length > 0);
       } else if (sheetType === 'recent') {
         return []; // Use allTracks instead for recent view
@@ -112,6 +117,11 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
     const query = debouncedSearchQuery.toLowerCase();
     
     return artist.albums.map(album => {
+      // Era name or alias match keeps the whole era
+      if (matchesEra(album, query)) {
+        return album;
+      }
+
       const filteredTracks = album.tracks.filter(track => {
         // Skip tracks without proper data
         if (!track || (!track.title?.main && !track.rawName)) {
@@ -154,6 +164,7 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
     // Search through albums efficiently and stop early if we hit the limit
     for (const album of artist.albums) {
       if (resultCount >= MAX_SEARCH_RESULTS) break;
+      const eraMatch = matchesEra(album, query);
       
       for (const track of album.tracks) {
         if (resultCount >= MAX_SEARCH_RESULTS) break;
@@ -171,7 +182,7 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
           name?.toLowerCase().includes(query)
         ) || false;
 
-        if (titleMatch || alternateNamesMatch) {
+        if (eraMatch || titleMatch || alternateNamesMatch) {
           allTracks.push({
             ...track,
             albumName: album.name
@@ -195,6 +206,9 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
     
     const allTracks: (Track & { albumName: string })[] = [];
     let trackCount = 0;
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - 6);
+    const sixMonthsAgo = cutoff.toISOString().split('T')[0];
     
     for (const album of artist.albums) {
       if (trackCount >= MAX_ALL_TRACKS) break;
@@ -208,29 +222,19 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
         }
 
         // Filter for recent tracks (tracks with dates in the last 6 months)
-        const hasRecentDate = track.leakDate || track.fileDate;
-        if (hasRecentDate) {
-          const trackDate = new Date(hasRecentDate);
-          const sixMonthsAgo = new Date();
-          sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-          
-          if (trackDate >= sixMonthsAgo) {
-            allTracks.push({
-              ...track,
-              albumName: album.name
-            });
-            trackCount++;
-          }
+        const trackDate = getTrackDate(track);
+        if (isTrackerDateWithin(trackDate, sixMonthsAgo, null)) {
+          allTracks.push({
+            ...track,
+            albumName: album.name
+          });
+          trackCount++;
         }
       }
     }
 
     // Sort by date (newest first)
-    return allTracks.sort((a, b) => {
-      const dateA = new Date(a.leakDate || a.fileDate || 0);
-      const dateB = new Date(b.leakDate || b.fileDate || 0);
-      return dateB.getTime() - dateA.getTime();
-    });
+    return allTracks.sort((a, b) => compareTrackerDates(getTrackDate(b), getTrackDate(a)));
   }, [artist.albums, sheetType]);
 
   const totalFilteredTracks = filteredAlbums.reduce((total, album) => total + album.tracks.length, 0);
@@ -264,7 +268,7 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
         
         {/* Export Button */}
         {docId && sourceUrl && (
-          <div className="mt-3 sm:mt-4">
+          <div className="mt-3 sm:mt-4 flex justify-center gap-2">
             <ExportButton 
               artist={artist}
               docId={docId}
@@ -272,6 +276,12 @@ const Artist = memo(function Artist({ artist, onPlayTrack, onTrackInfo, docId, s
               variant="outline"
               size="md"
             />
+            <Link
+              href={`/updates?docId=${docId}`}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-colors duration-200 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              📝 Updates
+            </Link>
           </div>
         )}
       </div>
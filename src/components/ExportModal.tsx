@@ -1,8 +1,24 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Artist } from '@/types';
-import { DataExporter, ExportOptions } from '@/utils/dataExporter';
+import React, { useMemo, useState } from 'react';
+import { Artist, AvailabilityType } from '@/types';
+import { BinaryFormat, BINARY_FORMATS, DataExporter, ExportFormat, ExportOptions, ExportSelection, PLAYLIST_FORMATS, PlaylistFormat } from '@/utils/dataExporter';
+import { formatRuntime } from '@/utils/duration';
+
+const PLAYLIST_FORMAT_INFO: Record<PlaylistFormat, { label: string; description: string }> = {
+  m3u8: { label: 'M3U8', description: '(VLC, mpv, foobar2000 and most players)' },
+  xspf: { label: 'XSPF', description: '(XML playlist with era and duration)' },
+  pls: { label: 'PLS', description: '(Winamp-style playlist)' },
+};
+
+const BINARY_FORMAT_INFO: Record<BinaryFormat, { label: string; description: string }> = {
+  xlsx: { label: 'XLSX', description: '(Excel workbook, one sheet per era)' },
+  ods: { label: 'ODS', description: '(LibreOffice workbook, one sheet per era)' },
+  sqlite: { label: 'SQLite', description: '(Database of eras, tracks, links and credits)' },
+};
+
+// Availability kept by "Full songs only"
+const FULL_AVAILABILITY: AvailabilityType[] = ['og', 'full', 'tagged'];
 
 interface ExportModalProps {
   artist: Artist;
@@ -19,23 +35,47 @@ const ExportModal: React.FC<ExportModalProps> = ({
   isOpen, 
   onClose 
 }) => {
-  const [exportFormat, setExportFormat] = useState<'json' | 'csv'>('json');
+  const [exportFormat, setExportFormat] = useState<ExportFormat | BinaryFormat>('json');
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
+  const [playlistEraId, setPlaylistEraId] = useState('');
+  const [fullSongsOnly, setFullSongsOnly] = useState(false);
 
   const exportSummary = DataExporter.getExportSummary(artist);
+  const isPlaylist = (PLAYLIST_FORMATS as string[]).includes(exportFormat);
+  const isBinary = (BINARY_FORMATS as string[]).includes(exportFormat);
+  // Tracker pages load track lists per era, so a partly loaded tracker is exported by the server
+  const hasAllTracks = artist.albums.every(album => album.tracks.length >= (album.metadata?.trackCount ?? 0));
+
+  const selection: ExportSelection = useMemo(() => ({
+    eraId: playlistEraId || undefined,
+    availabilities: fullSongsOnly ? FULL_AVAILABILITY : undefined,
+  }), [playlistEraId, fullSongsOnly]);
+
+  const playableCount = useMemo(
+    () => (isPlaylist && hasAllTracks ? DataExporter.getPlaylistEntries(artist, selection).length : null),
+    [artist, selection, isPlaylist, hasAllTracks]
+  );
 
   const handleExport = async () => {
     setIsExporting(true);
     
     try {
-      const options: ExportOptions = {
-        format: exportFormat,
-        includeMetadata,
-        flattenTracks: exportFormat === 'csv'
-      };
-
-      DataExporter.exportAndDownload(artist, docId, sourceUrl, options);
+      // Workbooks and databases are only built by the server
+      if (hasAllTracks && !isBinary) {
+        const options: ExportOptions = {
+          format: exportFormat as ExportFormat,
+          includeMetadata,
+          flattenTracks: exportFormat === 'csv',
+          selection: isPlaylist ? selection : undefined
+        };
+        DataExporter.exportAndDownload(artist, docId, sourceUrl, options);
+      } else {
+        const params = new URLSearchParams({ docId, format: exportFormat, includeMetadata: String(includeMetadata) });
+        if (isPlaylist && selection.eraId) params.set('era', selection.eraId);
+        if (isPlaylist && selection.availabilities) params.set('availability', selection.availabilities.join(','));
+        window.location.href = `/api/export?${params.toString()}`;
+      }
       
       // Close modal after successful export
       setTimeout(() => {
@@ -90,6 +130,16 @@ const ExportModal: React.FC<ExportModalProps> = ({
             <div className="text-gray-600 dark:text-gray-300">
               Without Links: <span className="font-medium text-gray-900 dark:text-white">{exportSummary.tracksWithoutLinks}</span>
             </div>
+            {exportSummary.totalRuntimeSeconds > 0 && (
+              <>
+                <div className="text-gray-600 dark:text-gray-300">
+                  Runtime: <span className="font-medium text-gray-900 dark:text-white">{formatRuntime(exportSummary.totalRuntimeSeconds)}</span>
+                </div>
+                <div className="text-gray-600 dark:text-gray-300">
+                  Available: <span className="font-medium text-gray-900 dark:text-white">{formatRuntime(exportSummary.availableRuntimeSeconds)}</span>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -125,6 +175,36 @@ const ExportModal: React.FC<ExportModalProps> = ({
                 (Flattened data, spreadsheet compatible)
               </span>
             </label>
+            {PLAYLIST_FORMATS.map(format => (
+              <label key={format} className="flex items-center">
+                <input
+                  type="radio"
+                  value={format}
+                  checked={exportFormat === format}
+                  onChange={(e) => setExportFormat(e.target.value as PlaylistFormat)}
+                  className="mr-2"
+                />
+                <span className="text-gray-900 dark:text-white">{PLAYLIST_FORMAT_INFO[format].label}</span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {PLAYLIST_FORMAT_INFO[format].description}
+                </span>
+              </label>
+            ))}
+            {BINARY_FORMATS.map(format => (
+              <label key={format} className="flex items-center">
+                <input
+                  type="radio"
+                  value={format}
+                  checked={exportFormat === format}
+                  onChange={(e) => setExportFormat(e.target.value as BinaryFormat)}
+                  className="mr-2"
+                />
+                <span className="text-gray-900 dark:text-white">{BINARY_FORMAT_INFO[format].label}</span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {BINARY_FORMAT_INFO[format].description}
+                </span>
+              </label>
+            ))}
           </div>
         </div>
 
@@ -146,7 +226,45 @@ const ExportModal: React.FC<ExportModalProps> = ({
           </div>
         )}
 
-        {/* Export Actions */}
+        {/* Playlist Options */}
+        {isPlaylist && (
+          <div className="mb-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Tracks
+              </label>
+              <select
+                value={playlistEraId}
+                onChange={(e) => setPlaylistEraId(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">Whole tracker</option>
+                {artist.albums.map(album => (
+                  <option key={album.id} value={album.id}>{album.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={fullSongsOnly}
+                onChange={(e) => setFullSongsOnly(e.target.checked)}
+                className="mr-2"
+              />
+              <span className="text-gray-900 dark:text-white text-sm">Full songs only</span>
+              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                (Skip snippets and partials)
+              </span>
+            </label>
+            {playableCount !== null && (
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {playableCount} playable track{playableCount !== 1 ? 's' : ''}
+              </div>
+            )}
+          </div>
+        )}
+
+                {/* Export Actions */}
         <div className="flex space-x-3">
           <button
             onClick={onClose}
@@ -173,7 +291,22 @@ const ExportModal: React.FC<ExportModalProps> = ({
         {/* Format Info */}
         <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
           <div className="text-xs text-blue-700 dark:text-blue-300">
-            {exportFormat === 'json' ? (
+            {isPlaylist ? (
+              <>
+                <strong>Playlist Export:</strong> Every selected track with a directly playable link, titled with its
+                features and timed from its track length. Tracks only on streaming or download pages are left out.
+              </>
+            ) : exportFormat === 'sqlite' ? (
+              <>
+                <strong>SQLite Export:</strong> Eras, version groups, tracks, links and credits in linked tables.
+                The tracks table keeps the CSV column names, so existing queries and scripts keep working.
+              </>
+            ) : isBinary ? (
+              <>
+                <strong>Workbook Export:</strong> A summary sheet with per-era counts and runtimes, then one sheet per era
+                with clickable links, real date and duration cells, quality colors and frozen headers.
+              </>
+            ) : exportFormat === 'json' ? (
               <>
                 <strong>JSON Export:</strong> Complete data structure including nested objects, arrays, and metadata. 
                 Perfect for programmatic use, backup, or importing into other applications.
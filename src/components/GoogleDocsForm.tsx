@@ -1,15 +1,37 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { SheetType } from './SheetNavigation';
 
 interface GoogleDocsFormProps {
   onSubmit: (url: string, sheetType?: SheetType) => void;
+  onFileSubmit?: (file: File) => void; // CSV, XLSX or JSON export dropped or picked by the user
   loading: boolean;
 }
 
-export default function GoogleDocsForm({ onSubmit, loading }: GoogleDocsFormProps) {
+const ACCEPTED_FILE_TYPES = ['.csv', '.xlsx', '.json'];
+
+export default function GoogleDocsForm({ onSubmit, onFileSubmit, loading }: GoogleDocsFormProps) {
   const [url, setUrl] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file || !onFileSubmit || loading) return;
+    if (!ACCEPTED_FILE_TYPES.some(type => file.name.toLowerCase().endsWith(type))) {
+      setFileError('Drop a .csv, .xlsx or .json tracker file');
+      return;
+    }
+    setFileError(null);
+    onFileSubmit(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -94,6 +116,51 @@ export default function GoogleDocsForm({ onSubmit, loading }: GoogleDocsFormProp
           </button>
         </form>
 
+        {onFileSubmit && (
+          <div className="mt-6">
+            <div
+              role="button"
+              tabIndex={0}
+              onClick={() => fileInputRef.current?.click()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  fileInputRef.current?.click();
+                }
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`w-full px-4 py-6 border-2 border-dashed rounded-xl text-center cursor-pointer transition-colors ${
+                isDragging
+                  ? 'border-blue-400 bg-blue-500/10 text-blue-200'
+                  : 'border-slate-600 text-slate-400 hover:border-slate-500 hover:text-slate-300'
+              }`}
+            >
+              <p className="font-medium">Or drop a tracker file here</p>
+              <p className="text-xs mt-1">
+                CSV or XLSX downloaded from Google Sheets, or a TrackerParse JSON export
+              </p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {fileError && (
+              <p className="text-red-600 dark:text-red-400 text-sm mt-1">{fileError}</p>
+            )}
+          </div>
+        )}
+
         <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
           <h3 className="font-medium text-blue-800 dark:text-blue-200 mb-2">Try an Example:</h3>
           <p className="text-sm text-blue-700 dark:text-blue-300 mb-2">
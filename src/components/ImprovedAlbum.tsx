@@ -124,7 +124,17 @@ export default function ImprovedAlbum({
               <div className="flex items-center space-x-2">
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
                   {album.name}
+                  {album.alternateNames && album.alternateNames.length > 0 && (
+                    <span className="text-sm opacity-60 font-normal">
+                      {' '}({album.alternateNames.join(', ')})
+                    </span>
+                  )}
                 </h3>
+                {album.year && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 flex-shrink-0">
+                    {album.year}
+                  </span>
+                )}
                 {(album.notes || album.description) && (
                   <button
                     onClick={handleEraInfoClick}
@@ -263,9 +273,16 @@ export default function ImprovedAlbum({
           <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-y-auto">
             <div className="p-6">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white">
-                  {album.name}
-                </h3>
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+                    {album.name}
+                  </h3>
+                  {album.alternateNames && album.alternateNames.length > 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Also known as {album.alternateNames.join(', ')}
+                    </p>
+                  )}
+                </div>
                 <button
                   onClick={closeEraInfo}
                   className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
@@ -315,6 +332,13 @@ export default function ImprovedAlbum({
                       <div className="text-gray-600 dark:text-gray-400">Unavailable</div>
                     </div>
                   </div>
+                  {album.metadataMismatches && album.metadataMismatches.length > 0 && (
+                    <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                      ⚠️ Tracker counts differ from parsed tracks: {album.metadataMismatches
+                        .map(mismatch => `${mismatch.field} ${mismatch.reported} vs ${mismatch.computed}`)
+                        .join(', ')}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
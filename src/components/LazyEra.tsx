@@ -1,8 +1,10 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Album as AlbumType, Track as TrackType } from '@/types';
 import ImprovedAlbum from './ImprovedAlbum';
+import { useLinkHealth } from '@/hooks/useLinkHealth';
+import { applyLinkHealthToAlbum } from '@/utils/linkHealth';
 
 interface LazyEraProps {
   era: AlbumType;
@@ -17,6 +19,13 @@ export default function LazyEra({ era, docId, onPlay, onScrollToTrack, isSearchA
   const [isLoading, setIsLoading] = useState(false);
   const [isExpanded, setIsExpanded] = useState(isSearchActive);
   const [hasLoadedTracks, setHasLoadedTracks] = useState(era.tracks.length > 0);
+  // The tracker changed since the page loaded and this era is gone
+  const [isMissing, setIsMissing] = useState(false);
+
+  // Check this era's links once its tracks are loaded
+  const loadedEras = useMemo(() => (hasLoadedTracks ? [eraData] : null), [hasLoadedTracks, eraData]);
+  const { results: linkHealth } = useLinkHealth(docId, loadedEras);
+  const displayEra = useMemo(() => applyLinkHealthToAlbum(eraData, linkHealth), [eraData, linkHealth]);
 
   // Auto-expand when search is active
   useEffect(() => {
@@ -32,35 +41,24 @@ export default function LazyEra({ era, docId, onPlay, onScrollToTrack, isSearchA
     if (expanded && !hasLoadedTracks && !isLoading) {
       setIsLoading(true);
       try {
-        console.log(`🎵 Loading tracks for era: ${era.name}`);
-        
-        // Fetch full data from parse endpoint
-        const response = await fetch(`/api/parse`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            googleDocsUrl: `https://docs.google.com/spreadsheets/d/${docId}/edit`
-          })
-        });
+        // Fetch only this era from the cached parse; IDs stay unique when two eras share a name,
+        // and the name finds the era again if an edit to the tracker changed its ID
+        const response = await fetch(
+          `/api/era?docId=${encodeURIComponent(docId)}&era=${encodeURIComponent(era.id)}&name=${encodeURIComponent(era.name)}`
+        );
         
+        if (response.status === 404) {
+          setIsMissing(true);
+          return;
+        }
         if (!response.ok) {
           throw new Error(`Failed to load era details: ${response.statusText}`);
         }
         
-        const result = await response.json();
-        
-        // Find the specific album/era from the full data
-        const fullEra = result.artist.albums.find((album: AlbumType) => album.name === era.name);
+        const result: { era: AlbumType } = await response.json();
         
-        if (fullEra) {
-          setEraData(fullEra);
-          setHasLoadedTracks(true);
-          console.log(`✅ Loaded ${fullEra.tracks.length} tracks for era: ${era.name}`);
-        } else {
-          console.warn(`❌ Era "${era.name}" not found in full data`);
-        }
+        setEraData(result.era);
+        setHasLoadedTracks(true);
         
       } catch (error) {
         console.error(`❌ Error loading era ${era.name}:`, error);
@@ -86,8 +84,20 @@ export default function LazyEra({ era, docId, onPlay, onScrollToTrack, isSearchA
         </div>
       )}
       
+      {isMissing && (
+        <div className="mb-2 flex items-center justify-between gap-3 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/30 px-4 py-2 text-sm text-yellow-800 dark:text-yellow-200">
+          <span>This era changed since the page loaded.</span>
+          <button
+            onClick={() => window.location.reload()}
+            className="font-medium underline hover:no-underline"
+          >
+            Reload
+          </button>
+        </div>
+      )}
+
       <ImprovedAlbum 
-        album={eraData}
+        album={displayEra}
         onPlay={onPlay}
         onScrollToTrack={onScrollToTrack}
         isSearchActive={isSearchActive}
@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { Track } from '@/types';
+import { PlayableSourceRegistry } from '@/utils/playableSource';
+import { getStreamUrl } from '@/utils/streamHosts';
 import AudioPlayer from 'react-h5-audio-player';
 import 'react-h5-audio-player/lib/styles.css';
 import '@/styles/modern-player.css';
@@ -15,81 +17,10 @@ interface ModernMusicPlayerProps {
 export default function ModernMusicPlayer({ track, isVisible, onClose }: ModernMusicPlayerProps) {
   const [audioOnlyMode, setAudioOnlyMode] = useState(false);
 
-  // Enhanced: Find playable link and type
-  const getPlayableSource = (track: Track): { type: string, url: string, id?: string, isVideo?: boolean } | null => {
-    if (!track.links || track.links.length === 0) return null;
-    
-    for (const link of track.links) {
-      const url = typeof link === 'string' ? link : link.url;
-      
-      // Pillowcase API (pillows.su, pillowcase.su, pillowcases.su, pillowcases.top)
-      if (url.match(/pillow(case)?s?\.(su|top)/i)) {
-        let match = url.match(/\/f\/([a-f0-9]{32})/i);
-        if (!match) {
-          match = url.match(/([a-f0-9]{32})/i);
-        }
-        if (match) {
-          const id = match[1];
-          return { type: 'pillowcase', url: `https://api.pillows.su/api/download/${id}.mp3`, id };
-        }
-      }
-      
-      // Music.froste.lol support
-      if (url.match(/music\.froste\.lol/i)) {
-        const downloadUrl = url.endsWith('/') ? `${url}download` : `${url}/download`;
-        return { type: 'froste', url: downloadUrl };
-      }
-      
-      // YouTube (supports audio-only mode)
-      if (url.match(/(youtube\.com|youtu\.be)/i)) {
-        return { type: 'youtube', url, isVideo: true };
-      }
-      
-      // SoundCloud
-      if (url.includes('soundcloud.com')) {
-        return { type: 'soundcloud', url };
-      }
-      
-      // Vimeo
-      if (url.includes('vimeo.com')) {
-        return { type: 'vimeo', url, isVideo: true };
-      }
-      
-      // Direct video files
-      if (url.match(/\.(mp4|webm|ogg|avi|mov|wmv|flv|mkv)$/i)) {
-        return { type: 'video', url, isVideo: true };
-      }
-      
-      // Direct audio files
-      if (url.match(/\.(mp3|wav|m4a|aac|ogg|flac|wma)$/i)) {
-        return { type: 'audio', url };
-      }
-      
-      // Twitch
-      if (url.includes('twitch.tv')) {
-        return { type: 'twitch', url, isVideo: true };
-      }
-      
-      // Facebook Video
-      if (url.includes('facebook.com') && url.includes('video')) {
-        return { type: 'facebook', url, isVideo: true };
-      }
-      
-      // DailyMotion
-      if (url.includes('dailymotion.com')) {
-        return { type: 'dailymotion', url, isVideo: true };
-      }
-    }
-    
-    // Fallback: first link
-    return { type: 'other', url: track.links[0].url };
-  };
-
-  const playable = track ? getPlayableSource(track) : null;
-  const isPillowcase = playable?.type === 'pillowcase';
+  const playable = track ? PlayableSourceRegistry.resolve(track) : null;
   const isVideo = playable?.isVideo || false;
-  const canUseReactPlayer = playable && ['youtube', 'soundcloud', 'vimeo', 'twitch', 'facebook', 'dailymotion', 'video'].includes(playable.type);
-  const canUseAudioPlayer = playable && ['audio', 'pillowcase', 'froste'].includes(playable.type);
+  const canUseReactPlayer = playable?.kind === 'video' || playable?.kind === 'embed';
+  const canUseAudioPlayer = playable?.kind === 'audio';
 
   // Auto-enable audio-only mode for video content by default
   useEffect(() => {
@@ -149,7 +80,7 @@ export default function ModernMusicPlayer({ track, isVisible, onClose }: ModernM
       return (
         <div className="space-y-4">
           <AudioPlayer
-            src={playable.url}
+            src={getStreamUrl(playable.url)}
             autoPlay={false}
             showJumpControls={true}
             showSkipControls={false}
@@ -2,6 +2,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Track } from '@/types';
+import { PlayableSourceRegistry } from '@/utils/playableSource';
+import { getStreamUrl } from '@/utils/streamHosts';
 
 interface MusicPlayerProps {
   track: Track | null;
@@ -19,86 +21,12 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
   const [error, setError] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
 
-
-  // Enhanced: Find playable link and type
-  const getPlayableSource = (track: Track): { type: string, url: string, id?: string } | null => {
-    if (!track.links || track.links.length === 0) return null;
-    for (const link of track.links) {
-      // Pillowcase API (pillows.su, pillowcase.su, pillowcases.su, pillowcases.top) including /f/<id> alternate links
-      if (link.url.match(/pillow(case)?s?\.(su|top)/i)) {
-        // Try to extract id from /f/<id> or anywhere in the URL
-        // Match /f/<32hex> or any 32 hex chars
-        let match = link.url.match(/\/f\/([a-f0-9]{32})/i);
-        if (!match) {
-          match = link.url.match(/([a-f0-9]{32})/i);
-        }
-        if (match) {
-          const id = match[1];
-          // Use .mp3 extension for download
-          return { type: 'pillowcase', url: `https://api.pillows.su/api/download/${id}.mp3`, id };
-        }
-      }
-      // Music.froste.lol support - add /download to the end
-      if (link.url.match(/music\.froste\.lol/i)) {
-        const downloadUrl = link.url.endsWith('/') ? `${link.url}download` : `${link.url}/download`;
-        return { type: 'froste', url: downloadUrl };
-      }
-      // YouTube
-      if (link.url.match(/(youtube\.com|youtu\.be)/i)) {
-        return { type: 'youtube', url: link.url };
-      }
-      // SoundCloud
-      if (link.url.includes('soundcloud.com')) {
-        return { type: 'soundcloud', url: link.url };
-      }
-      // Direct audio
-      if (link.url.match(/\.(mp3|wav|m4a|aac|ogg|flac)$/i)) {
-        return { type: 'audio', url: link.url };
-      }
-    }
-    // Fallback: first link
-    return { type: 'other', url: track.links[0].url };
-  };
-
-  const playable = track ? getPlayableSource(track) : null;
-  const audioUrl = playable && (playable.type === 'audio' || playable.type === 'pillowcase' || playable.type === 'froste') ? playable.url : null;
+  const playable = track ? PlayableSourceRegistry.resolve(track) : null;
+  // Allowlisted hosts go through /api/stream to avoid CORS and mixed-content failures
+  const audioUrl = playable?.kind === 'audio' ? getStreamUrl(playable.url) : null;
   const isSoundCloudLink = playable?.type === 'soundcloud';
   const isYouTubeLink = playable?.type === 'youtube';
 
-  // For YouTube: convert to audio stream via API
-  const [youtubeAudioUrl, setYoutubeAudioUrl] = useState<string | null>(null);
-  const [youtubeError, setYoutubeError] = useState<string | null>(null);
-  
-  useEffect(() => {
-    if (isYouTubeLink && playable?.url) {
-      setLoading(true);
-      setError(null);
-      setYoutubeError(null);
-      fetch(`/api/youtube-audio?url=${encodeURIComponent(playable.url)}`)
-        .then(async (res) => {
-          if (!res.ok) {
-            const errorData = await res.json();
-            throw new Error(errorData.message || 'Failed to fetch YouTube audio');
-          }
-          const data = await res.json();
-          if (data.url) {
-            setYoutubeAudioUrl(data.url);
-          } else {
-            throw new Error(data.message || 'No audio URL returned');
-          }
-        })
-        .catch((err) => {
-          setYoutubeError(err.message);
-          setError(null); // Don't show as general error
-        })
-        .finally(() => setLoading(false));
-    } else {
-      setYoutubeAudioUrl(null);
-      setYoutubeError(null);
-    }
-  }, [isYouTubeLink, playable?.url]);
-
-
   useEffect(() => {
     if (audioRef.current && audioUrl && !isSoundCloudLink) {
       const audio = audioRef.current;
@@ -236,7 +164,7 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
 
             {/* Player Controls - Center */}
             <div className="flex items-center justify-center space-x-2 sm:space-x-4 justify-self-center">
-              {(audioUrl && !isSoundCloudLink && !isYouTubeLink) || (youtubeAudioUrl) ? (
+              {audioUrl && !isSoundCloudLink && !isYouTubeLink ? (
                 <button
                   onClick={togglePlayPause}
                   disabled={loading}
@@ -267,10 +195,10 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
                     title="SoundCloud Player"
                   ></iframe>
                 </div>
-              ) : isYouTubeLink && playable?.url && youtubeError ? (
+              ) : isYouTubeLink && playable?.url ? (
                 <div className="flex items-center space-x-3">
                   <div className="text-sm text-yellow-600 dark:text-yellow-400">
-                    Audio conversion not available
+                    Plays on YouTube
                   </div>
                   <button
                     onClick={(e) => {
@@ -283,11 +211,6 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
                     Open YouTube
                   </button>
                 </div>
-              ) : isYouTubeLink && playable?.url && !youtubeAudioUrl ? (
-                <div className="flex items-center space-x-3">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                  <span className="text-sm text-gray-500 dark:text-gray-400">Converting YouTube audio...</span>
-                </div>
               ) : !audioUrl && !isSoundCloudLink && !isYouTubeLink && playable?.url ? (
                 <button
                   onClick={(e) => {
@@ -304,7 +227,7 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
 
             {/* Volume Control - Right (Hidden on mobile) */}
             <div className="flex justify-end justify-self-end">
-              {((audioUrl && !isSoundCloudLink && !isYouTubeLink) || youtubeAudioUrl) && (
+              {audioUrl && !isSoundCloudLink && !isYouTubeLink && (
                 <div className="hidden sm:flex items-center space-x-2 w-32">
                   <svg className="w-4 h-4 text-gray-600 dark:text-gray-300 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.617.78L4.676 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.676l3.707-3.78a1 1 0 011.617.78z" clipRule="evenodd" />
@@ -337,7 +260,7 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
           </div>
 
           {/* Progress Bar Row */}
-          {((audioUrl && !isSoundCloudLink && !isYouTubeLink) || youtubeAudioUrl) && (
+          {audioUrl && !isSoundCloudLink && !isYouTubeLink && (
             <div className="flex items-center space-x-3 px-4">
               <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap min-w-[3rem]">
                 {formatTime(currentTime)}
@@ -381,18 +304,6 @@ export default function MusicPlayer({ track, isVisible, onClose, onInfo }: Music
             onEnded={() => setIsPlaying(false)}
           />
         )}
-        {youtubeAudioUrl && (
-          <audio
-            ref={audioRef}
-            src={youtubeAudioUrl}
-            onPlay={() => {
-              setIsPlaying(true);
-              setError(null);
-            }}
-            onPause={() => setIsPlaying(false)}
-            onEnded={() => setIsPlaying(false)}
-          />
-        )}
       </div>
     </div>
   );
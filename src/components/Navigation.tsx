@@ -38,6 +38,13 @@ const Navigation = memo(() => {
                   <span>🕐</span>
                   <span className="hidden sm:inline">Recent</span>
                 </Link>
+                <Link
+                  href={`/updates?docId=${docId}`}
+                  className="px-3 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-500 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-all duration-200 flex items-center gap-1"
+                >
+                  <span>📝</span>
+                  <span className="hidden sm:inline">Updates</span>
+                </Link>
               </>
             )}
           </div>
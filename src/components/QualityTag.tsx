@@ -1,75 +1,59 @@
 'use client';
 
 import React from 'react';
+import { QualityTier, AvailabilityType, TrackLinkStatus } from '@/types';
+import { getQualityBadge, QualityBadge, QUALITY_TIER_LABELS } from '@/utils/qualityTaxonomy';
 
 interface QualityTagProps {
   quality: string;
+  tier?: QualityTier; // normalized tier from the parser; derived from the text when missing
+  availability?: AvailabilityType;
+  linkStatus?: TrackLinkStatus | null; // result of the background link check
 }
 
-const QualityTag: React.FC<QualityTagProps> = ({ quality }) => {
+const QUALITY_STYLES: Record<QualityBadge, { classes: string; icon: string }> = {
+  not_available: {
+    classes: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 border border-gray-300 dark:border-gray-600',
+    icon: '❌'
+  },
+  low: {
+    classes: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300 border border-red-200 dark:border-red-700',
+    icon: '📱'
+  },
+  recording: {
+    classes: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300 border border-red-200 dark:border-red-700',
+    icon: '🎙️'
+  },
+  medium: {
+    classes: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-700',
+    icon: '🎵'
+  },
+  high: {
+    classes: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300 border border-green-200 dark:border-green-700',
+    icon: '🎧'
+  },
+  cd: {
+    classes: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300 border border-green-200 dark:border-green-700',
+    icon: '🎧'
+  },
+  lossless: {
+    classes: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300 border border-blue-200 dark:border-blue-700',
+    icon: '💎'
+  },
+  unknown: {
+    classes: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600',
+    icon: '🎶'
+  },
+  og: {
+    classes: 'bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300 border border-purple-200 dark:border-purple-700',
+    icon: '👑'
+  },
+};
+
+const QualityTag: React.FC<QualityTagProps> = ({ quality, tier, availability, linkStatus }) => {
   const getQualityInfo = (quality: string) => {
-    const lowerQuality = quality.toLowerCase();
-    
-    // Not available/unavailable tracks
-    if (lowerQuality.includes('not available') || lowerQuality.includes('unavailable')) {
-      return {
-        classes: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 border border-gray-300 dark:border-gray-600',
-        icon: '❌',
-        label: 'Unavailable'
-      };
-    }
-    
-    // Snippet/Low Quality
-    if (lowerQuality.includes('lq') || lowerQuality.includes('snippet')) {
-      return {
-        classes: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300 border border-red-200 dark:border-red-700',
-        icon: '📱',
-        label: quality
-      };
-    }
-    
-    // Medium Quality
-    if (lowerQuality.includes('mq') || lowerQuality.includes('medium')) {
-      return {
-        classes: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-700',
-        icon: '🎵',
-        label: quality
-      };
-    }
-    
-    // High Quality/CDQ
-    if (lowerQuality.includes('hq') || lowerQuality.includes('cdq') || lowerQuality.includes('320')) {
-      return {
-        classes: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300 border border-green-200 dark:border-green-700',
-        icon: '🎧',
-        label: quality
-      };
-    }
-    
-    // Lossless/FLAC
-    if (lowerQuality.includes('lossless') || lowerQuality.includes('flac')) {
-      return {
-        classes: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300 border border-blue-200 dark:border-blue-700',
-        icon: '💎',
-        label: quality
-      };
-    }
-    
-    // Original/OG
-    if (lowerQuality.includes('og') || lowerQuality.includes('original')) {
-      return {
-        classes: 'bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300 border border-purple-200 dark:border-purple-700',
-        icon: '👑',
-        label: quality
-      };
-    }
-    
-    // Default
-    return {
-      classes: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600',
-      icon: '🎶',
-      label: quality
-    };
+    const badge = getQualityBadge(quality, tier, availability);
+    return { ...QUALITY_STYLES[badge], label: badge === 'not_available' ? QUALITY_TIER_LABELS.not_available : quality };
   };
 
   const qualityInfo = getQualityInfo(quality);
@@ -78,6 +62,14 @@ const QualityTag: React.FC<QualityTagProps> = ({ quality }) => {
     <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium transition-all duration-200 hover:scale-105 ${qualityInfo.classes}`}>
       <span className="mr-1 text-xs">{qualityInfo.icon}</span>
       {qualityInfo.label}
+      {linkStatus && linkStatus !== 'alive' && (
+        <span
+          className="ml-1 text-red-600 dark:text-red-400"
+          title={linkStatus === 'all_dead' ? 'All links are dead' : 'Some links are dead'}
+        >
+          {linkStatus === 'all_dead' ? '· dead link' : '· link issue'}
+        </span>
+      )}
     </span>
   );
 };
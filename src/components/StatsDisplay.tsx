@@ -1,7 +1,8 @@
 'use client';
 
 import React from 'react';
-import { EraMetadata } from '@/types';
+import { EraMetadata, EraMetadataMismatch, EraRuntime } from '@/types';
+import { formatRuntime } from '@/utils/duration';
 
 interface StatsDisplayProps {
   eraName: string;
@@ -91,13 +92,17 @@ export function ExpandedStatsDisplay({
   metadata, 
   onClose, 
   selectedQualities = [], 
-  onQualityFilter 
+  onQualityFilter,
+  mismatches = [],
+  runtime
 }: { 
   eraName: string; 
   metadata: EraMetadata; 
   onClose: () => void;
   selectedQualities?: string[];
   onQualityFilter?: (qualities: string[]) => void;
+  mismatches?: EraMetadataMismatch[];
+  runtime?: EraRuntime;
 }) {
   const statsItems = [
     { label: 'OG Files', value: metadata.ogFiles, color: 'text-green-600 dark:text-green-400', bgColor: 'bg-green-100 dark:bg-green-900', icon: '🟢', key: 'og' },
@@ -112,6 +117,16 @@ export function ExpandedStatsDisplay({
   const totalFiles = statsItems.reduce((sum, item) => sum + item.value, 0);
   const nonZeroStats = statsItems.filter(item => item.value > 0);
 
+  const statFields: Record<string, keyof EraMetadata> = {
+    og: 'ogFiles',
+    full: 'fullFiles',
+    tagged: 'taggedFiles',
+    partial: 'partialFiles',
+    snippet: 'snippetFiles',
+    stem: 'stemBounceFiles',
+    unavailable: 'unavailableFiles',
+  };
+
   const handleQualityClick = (qualityKey: string) => {
     if (!onQualityFilter) return;
     
@@ -197,6 +212,39 @@ export function ExpandedStatsDisplay({
         })}
       </div>
 
+      {/* Runtime totals */}
+      {runtime && runtime.tracksWithLength > 0 && (
+        <div className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+          <span>
+            ⏱️ Runtime: <span className="font-semibold text-gray-900 dark:text-white">{formatRuntime(runtime.totalSeconds)}</span>
+          </span>
+          <span>
+            🎧 Available: <span className="font-semibold text-gray-900 dark:text-white">{formatRuntime(runtime.availableSeconds)}</span>
+            {runtime.totalSeconds > 0 && ` (${Math.round((runtime.availableSeconds / runtime.totalSeconds) * 100)}%)`}
+          </span>
+          {runtime.averagePercentAvailable !== undefined && (
+            <span>
+              🧩 Partials/snippets avg: <span className="font-semibold text-gray-900 dark:text-white">{runtime.averagePercentAvailable}%</span> of song
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Tracker counts vs parsed tracks */}
+      {mismatches.length > 0 && (
+        <div className="mb-3 p-2 rounded-md bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 text-xs text-amber-800 dark:text-amber-200">
+          <div className="font-medium mb-1">⚠️ Tracker counts differ from parsed tracks</div>
+          {mismatches.map(mismatch => {
+            const item = statsItems.find(stat => statFields[stat.key] === mismatch.field);
+            return (
+              <div key={mismatch.field}>
+                {item ? item.label : mismatch.field}: sheet says {mismatch.reported}, parsed {mismatch.computed}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Total Summary */}
       {totalFiles > 0 && (
         <div className="pt-2 border-t border-gray-200 dark:border-gray-600 text-center">
@@ -4,6 +4,9 @@ import React, { useState, useMemo, memo } from 'react';
 import { Track as TrackType } from '@/types';
 import TrackDetailPage from './TrackDetailPage';
 import QualityTag from './QualityTag';
+import { getTrackAvailability } from '@/utils/qualityTaxonomy';
+import { PlayableSourceRegistry } from '@/utils/playableSource';
+import { getTrackLinkStatus } from '@/utils/linkHealth';
 
 interface TrackProps {
   track: TrackType;
@@ -15,35 +18,10 @@ interface TrackProps {
 const Track = memo(({ track, onPlay, onScrollToTrack, isCompact = false }: TrackProps) => {
   const [showDetailPage, setShowDetailPage] = useState(false);
   
-  const getPlayableSource = (track: TrackType): { type: string, url: string, id?: string } | null => {
-    if (!track.links || track.links.length === 0) return null;
-    for (const link of track.links) {
-      const url = typeof link === 'string' ? link : link.url;
-      if (url.match(/pillow(case)?s?\.(su|top)/i)) {
-        let match = url.match(/\/f\/([a-f0-9]{32})/i);
-        if (!match) {
-          match = url.match(/([a-f0-9]{32})/i);
-        }
-        if (match) {
-          const id = match[1];
-          return { type: 'pillowcase', url, id };
-        }
-      }
-      if (url.match(/music\.froste\.lol/i)) {
-        const downloadUrl = url.endsWith('/') ? `${url}download` : `${url}/download`;
-        return { type: 'froste', url: downloadUrl };
-      }
-    }
-    return null;
-  };
-
-  const playable = getPlayableSource(track);
+  const playable = PlayableSourceRegistry.resolveAudio(track);
   
   const { isNotAvailable, hasPlayableLink } = useMemo(() => {
-    const notAvailable = track.quality?.toLowerCase().includes('not available') || 
-                         track.availableLength?.toLowerCase().includes('not available') ||
-                         track.quality?.toLowerCase().includes('unavailable') ||
-                         track.availableLength?.toLowerCase().includes('unavailable');
+    const notAvailable = getTrackAvailability(track) === 'unavailable';
     
     const hasPlayable = playable !== null && !notAvailable;
 
@@ -51,7 +29,7 @@ const Track = memo(({ track, onPlay, onScrollToTrack, isCompact = false }: Track
       isNotAvailable: notAvailable,
       hasPlayableLink: hasPlayable
     };
-  }, [track.quality, track.availableLength, playable]);
+  }, [track, playable]);
   
   const handleTrackClick = () => {
     setShowDetailPage(true);
@@ -150,7 +128,7 @@ const Track = memo(({ track, onPlay, onScrollToTrack, isCompact = false }: Track
             </span>
           )}
           {track.quality && (
-            <QualityTag quality={track.quality} />
+            <QualityTag quality={track.quality} tier={track.qualityTier} availability={track.availability} linkStatus={getTrackLinkStatus(track)} />
           )}
           {!isCompact && track.availableLength && (
             <span className={`text-xs px-2 py-1 rounded-full border flex items-center ${
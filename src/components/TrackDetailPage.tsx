@@ -1,10 +1,14 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Track as TrackType } from '@/types';
+import { Track as TrackType, TrackerDate } from '@/types';
 import MusicPlayer from './MusicPlayer';
 import InfoCard from './InfoCard';
 import QualityTag from './QualityTag';
+import { resolveTrackerDate, formatTrackerDate } from '@/utils/trackerDate';
+import { getTrackAvailability } from '@/utils/qualityTaxonomy';
+import { PlayableSourceRegistry } from '@/utils/playableSource';
+import { isDeadLink, getTrackLinkStatus } from '@/utils/linkHealth';
 import {
   ClockIcon,
   CalendarIcon,
@@ -28,40 +32,11 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
   const [currentTrack, setCurrentTrack] = useState<TrackType | null>(null);
   const [showMusicPlayer, setShowMusicPlayer] = useState(false);
 
-  // Enhanced: Find playable link and type
-  const getPlayableSource = (track: TrackType): { type: string, url: string, id?: string } | null => {
-    if (!track.links || track.links.length === 0) return null;
-    for (const link of track.links) {
-      const url = typeof link === 'string' ? link : link.url;
-      // Pillowcase API
-      if (url.match(/pillow(case)?s?\.(su|top)/i)) {
-        let match = url.match(/\/f\/([a-f0-9]{32})/i);
-        if (!match) {
-          match = url.match(/([a-f0-9]{32})/i);
-        }
-        if (match) {
-          const id = match[1];
-          return { type: 'pillowcase', url, id };
-        }
-      }
-      
-      // Music.froste.lol support
-      if (url.match(/music\.froste\.lol/i)) {
-        const downloadUrl = url.endsWith('/') ? `${url}download` : `${url}/download`;
-        return { type: 'froste', url: downloadUrl };
-      }
-    }
-    return null;
-  };
-
-  const playable = getPlayableSource(track);
+  const playable = PlayableSourceRegistry.resolveAudio(track);
   const isPillowcase = playable?.type === 'pillowcase';
   
   // Check if track is not available
-  const isNotAvailable = track.quality?.toLowerCase().includes('not available') || 
-                         track.availableLength?.toLowerCase().includes('not available') ||
-                         track.quality?.toLowerCase().includes('unavailable') ||
-                         track.availableLength?.toLowerCase().includes('unavailable');
+  const isNotAvailable = getTrackAvailability(track) === 'unavailable';
   
   const hasPlayableLink = playable !== null && !isNotAvailable;
 
@@ -111,11 +86,9 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
     return names;
   };
 
-  const formatDate = (dateStr: string) => {
-    if (!dateStr || dateStr === '0' || dateStr === 'Unknown 0') return 'Unknown';
-    if (dateStr.includes('?')) return 'Unknown';
-    if (dateStr.toLowerCase() === 'unknown') return 'Unknown';
-    return dateStr;
+  const formatDate = (dateStr: string, parsed?: TrackerDate) => {
+    const date = resolveTrackerDate(parsed, dateStr);
+    return date ? formatTrackerDate(date) : 'Unknown';
   };
 
   return (
@@ -178,18 +151,18 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
                 </span>
               </InfoCard>
               <InfoCard icon={<TagIcon className="w-6 h-6" />} title="Quality">
-                <QualityTag quality={track.quality || 'Unknown'} />
+                <QualityTag quality={track.quality || 'Unknown'} tier={track.qualityTier} availability={track.availability} linkStatus={getTrackLinkStatus(track)} />
               </InfoCard>
               <InfoCard icon={<CalendarIcon className="w-6 h-6" />} title="File Date">
                 <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200 border border-yellow-200 dark:border-yellow-700">
                   <span className="mr-2">📁</span>
-                  {formatDate(track.fileDate)}
+                  {formatDate(track.fileDate, track.parsedFileDate)}
                 </span>
               </InfoCard>
               <InfoCard icon={<CalendarIcon className="w-6 h-6" />} title="Leak Date">
                 <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200 border border-red-200 dark:border-red-700">
                   <span className="mr-2">🔓</span>
-                  {formatDate(track.leakDate)}
+                  {formatDate(track.leakDate, track.parsedLeakDate)}
                 </span>
               </InfoCard>
               
@@ -213,7 +186,8 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
             </div>
 
             {/* Credits */}
-            {(track.title?.features?.length || track.title?.collaborators?.length || track.title?.producers?.length) && (
+            {(track.title?.features?.length || track.title?.collaborators?.length || track.title?.producers?.length ||
+              track.title?.references?.length || track.title?.interpolations?.length) && (
               <InfoCard icon={<UserGroupIcon className="w-6 h-6" />} title="Credits" className="mb-8">
                 <div className="space-y-3">
                   {track.title?.features?.length > 0 && (
@@ -261,6 +235,36 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
                       </div>
                     </div>
                   )}
+                  {track.title?.references?.length > 0 && (
+                    <div>
+                      <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center">
+                        <span className="mr-2">🎙️</span>
+                        Reference Tracks
+                      </h5>
+                      <div className="flex flex-wrap gap-2">
+                        {track.title.references.map((reference, index) => (
+                          <span key={index} className="text-sm px-3 py-1 bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300 rounded-full border border-amber-200 dark:border-amber-700">
+                            {reference}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {track.title?.interpolations?.length > 0 && (
+                    <div>
+                      <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center">
+                        <span className="mr-2">🔁</span>
+                        Interpolates
+                      </h5>
+                      <div className="flex flex-wrap gap-2">
+                        {track.title.interpolations.map((interpolation, index) => (
+                          <span key={index} className="text-sm px-3 py-1 bg-pink-100 dark:bg-pink-900/50 text-pink-700 dark:text-pink-300 rounded-full border border-pink-200 dark:border-pink-700">
+                            {interpolation}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </InfoCard>
             )}
@@ -296,6 +300,7 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
                   {track.links.map((link, index) => {
                     const originalUrl = typeof link === 'string' ? link : link.url;
                     const label = typeof link === 'string' ? `Link ${index + 1}` : (link.label || `Link ${index + 1}`);
+                    const health = typeof link === 'string' ? undefined : link.health;
                     
                     let displayUrl = originalUrl;
                     if (originalUrl.match(/music\.froste\.lol/i)) {
@@ -331,7 +336,15 @@ export default function TrackDetailPage({ track, onClose, onPlay }: TrackDetailP
                           <span className="truncate">{label}</span>
                         </button>
                         
-                        <div className="flex-shrink-0">
+                        <div className="flex-shrink-0 flex items-center gap-1">
+                          {health && typeof link !== 'string' && isDeadLink(link) && (
+                            <span
+                              className="text-xs px-2 py-1 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded-full"
+                              title={`Checked ${new Date(health.checkedAt).toLocaleString()}${health.httpStatus ? ` · HTTP ${health.httpStatus}` : ''}`}
+                            >
+                              Dead
+                            </span>
+                          )}
                           {originalUrl.match(/pillow(case)?s?\.(su|top)/i) && (
                             <span className="text-xs px-2 py-1 bg-purple-100 dark:bg-purple-800 text-purple-700 dark:text-purple-300 rounded-full">
                               Pillowcase
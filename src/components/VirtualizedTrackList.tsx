@@ -4,6 +4,7 @@ import React, { useMemo, useRef, useEffect, useState, useCallback } from 'react'
 import { Track } from '@/types';
 import { ColorExtractor } from '@/utils/colorExtractor';
 import { useVirtualList } from '@/hooks/usePerformance';
+import { PlayableSourceRegistry } from '@/utils/playableSource';
 
 interface VirtualizedTrackListProps {
   tracks: (Track & { albumName: string })[];
@@ -21,29 +22,7 @@ const TrackRow = React.memo<{
   onTrackInfo?: (track: Track) => void;
   colorPalette: any;
 }>(({ track, index, onPlay, onTrackInfo, colorPalette }) => {
-  const getPlayableSource = (track: Track): { type: string, url: string, id?: string } | null => {
-    if (!track.links || track.links.length === 0) return null;
-    for (const link of track.links) {
-      const url = typeof link === 'string' ? link : link.url;
-      if (url.match(/pillow(case)?s?\.(su|top)/i)) {
-        let match = url.match(/\/f\/([a-f0-9]{32})/i);
-        if (!match) {
-          match = url.match(/([a-f0-9]{32})/i);
-        }
-        if (match) {
-          const id = match[1];
-          return { type: 'pillowcase', url, id };
-        }
-      }
-      if (url.match(/music\.froste\.lol/i)) {
-        const downloadUrl = url.endsWith('/') ? `${url}download` : `${url}/download`;
-        return { type: 'froste', url: downloadUrl };
-      }
-    }
-    return null;
-  };
-
-  const playable = getPlayableSource(track);
+  const playable = PlayableSourceRegistry.resolveAudio(track);
   const isNotAvailable = track.quality?.toLowerCase().includes('not available') || 
                         track.availableLength?.toLowerCase().includes('not available') ||
                         track.quality?.toLowerCase().includes('unavailable') ||
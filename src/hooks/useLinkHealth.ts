@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Era, LinkHealth } from '@/types';
+import { collectLinkUrls, isFreshLinkHealth } from '@/utils/linkHealth';
+
+const READ_BATCH_SIZE = 200;
+const CHECK_BATCH_SIZE = 50;
+
+// Links already sent for checking on this page; later views and era expansions only read stored results
+const requestedUrls = new Set<string>();
+
+async function postLinkHealth(body: object): Promise<Record<string, LinkHealth> | null> {
+  const response = await fetch('/api/link-health', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) return null;
+  const data: { results: Record<string, LinkHealth> } = await response.json();
+  return data.results;
+}
+
+/**
+ * Show stored link results for some eras of a tracker, then check the links without a recent result
+ * in the background, one batch at a time
+ */
+export function useLinkHealth(docId: string | undefined, albums: Era[] | null | undefined): {
+  results: Record<string, LinkHealth>;
+  checking: boolean;
+} {
+  const [results, setResults] = useState<Record<string, LinkHealth>>({});
+  const [checking, setChecking] = useState(false);
+
+  const urls = useMemo(() => (albums ? collectLinkUrls(albums) : []), [albums]);
+
+  useEffect(() => {
+    if (!docId || urls.length === 0) return;
+    let cancelled = false;
+
+    const run = async () => {
+      setChecking(true);
+      try {
+        const stored: Record<string, LinkHealth> = {};
+        for (let i = 0; i < urls.length && !cancelled; i += READ_BATCH_SIZE) {
+          const batch = await postLinkHealth({ urls: urls.slice(i, i + READ_BATCH_SIZE), check: false });
+          if (!batch) break;
+          Object.assign(stored, batch);
+        }
+        if (!cancelled) setResults(previous => ({ ...previous, ...stored }));
+
+        const pending = urls.filter(url => !requestedUrls.has(url) && !isFreshLinkHealth(stored[url]));
+        for (let i = 0; i < pending.length && !cancelled; i += CHECK_BATCH_SIZE) {
+          const batch = pending.slice(i, i + CHECK_BATCH_SIZE);
+          batch.forEach(url => requestedUrls.add(url));
+          const checked = await postLinkHealth({ docId, urls: batch });
+          // Stops on rate limits and errors too
+          if (!checked) break;
+          if (!cancelled) setResults(previous => ({ ...previous, ...checked }));
+        }
+      } catch {
+        // Link checks are best effort
+      }
+      if (!cancelled) setChecking(false);
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [docId, urls]);
+
+  return { results, checking };
+}
@@ -5,6 +5,7 @@ export interface TrackTitle {
   collaborators: string[]; // "with" artists
   producers: string[]; // production credits
   references: string[]; // "ref." references
+  interpolations: string[]; // "interpolates" credits
   alternateNames: string[]; // alternate track names
 }
 
@@ -17,8 +18,15 @@ export interface Track {
   trackLength: string;
   fileDate: string;
   leakDate: string;
+  parsedFileDate?: TrackerDate; // structured fileDate, absent when the cell holds no usable date
+  parsedLeakDate?: TrackerDate;
   availableLength: string;
+  trackLengthSeconds?: number; // parsed trackLength
+  availableSeconds?: number; // playable seconds: full length for complete files, available length otherwise
+  percentAvailable?: number; // share of the song available (0-100), partials and snippets only
   quality: string;
+  qualityTier?: QualityTier; // normalized quality
+  availability?: AvailabilityType; // normalized availability
   links: TrackLink[];
   isSpecial: boolean; // has 🏆 or ✨ emoji
   specialType?: '🏆' | '✨' | '⭐';
@@ -26,12 +34,106 @@ export interface Track {
   wantedType?: '🥇' | '🥈' | '🥉';
 }
 
+export type QualityTier = 'lossless' | 'cd' | 'high' | 'medium' | 'low' | 'recording' | 'not_available' | 'unknown';
+
+// Same keys as the era statistics filter; each maps to one EraMetadata counter
+export type AvailabilityType = 'og' | 'full' | 'tagged' | 'partial' | 'snippet' | 'stem' | 'unavailable' | 'unknown';
+
+export type DatePrecision = 'day' | 'month' | 'season' | 'year';
+
+export interface TrackerDate {
+  raw: string; // original cell text
+  earliest: string; // ISO date (YYYY-MM-DD), first day the date could refer to
+  latest: string; // ISO date, last day the date could refer to
+  precision: DatePrecision;
+  isUncertain: boolean; // "??" parts, "~", "c.", trailing "?"
+  isRange: boolean; // "2015 - 2016", "Summer 2014 to Fall 2014"
+}
+
+export type LinkType = 'audio' | 'video' | 'download' | 'stream' | 'social' | 'web' | 'unknown';
+
 export interface TrackLink {
   url: string;
   label?: string;
-  type?: 'audio' | 'video' | 'download' | 'stream' | 'social' | 'web' | 'unknown';
+  type?: LinkType;
   platform?: string;
   isValid?: boolean;
+  playable?: boolean; // a direct media URL can be derived for in-browser playback
+  source?: 'links' | 'notes'; // cell the link was found in
+  health?: LinkHealth; // latest link check, merged in on the client
+}
+
+// alive: the host served the file; dead: gone (404/410); error: could not tell (timeouts, 5xx, blocked)
+export type LinkHealthState = 'alive' | 'dead' | 'error';
+
+export interface LinkHealth {
+  url: string;
+  state: LinkHealthState;
+  httpStatus?: number;
+  contentType?: string;
+  method?: 'HEAD' | 'GET';
+  error?: string;
+  checkedAt: string; // ISO timestamp
+}
+
+export type TrackLinkStatus = 'alive' | 'some_dead' | 'all_dead';
+
+export interface EraDeadLinkRate {
+  era: string;
+  checked: number;
+  dead: number;
+  rate: number; // 0-100, one decimal
+}
+
+export interface LinkHealthStore {
+  get(url: string): Promise<LinkHealth | undefined>;
+  set(health: LinkHealth): Promise<void>;
+}
+
+export interface LinkCheckOptions {
+  fetcher?: (url: string, init: RequestInit, address: string) => Promise<Response>; // connects to the checked address
+  store?: LinkHealthStore;
+  lookup?: (hostname: string) => Promise<string[]>; // resolves a hostname to IP addresses
+  concurrency?: number;
+  timeoutMs?: number;
+  maxAgeMs?: number; // stored results newer than this are reused
+  force?: boolean; // re-check even when a fresh result is stored
+}
+
+export interface LinkPlatform {
+  id: string; // stored as TrackLink.platform
+  name: string;
+  type: LinkType;
+  match: RegExp; // tested against the full URL
+  playable: boolean;
+  getMediaUrl?: (url: string) => string | null; // direct media URL, null when this link has none
+}
+
+// audio: plays in an <audio> element; video/embed: needs a video or embed player; external: open in a new tab
+export type PlayableSourceKind = 'audio' | 'video' | 'embed' | 'external';
+
+export interface PlayableSource {
+  type: string; // provider ID (pillowcase, froste, youtube, soundcloud, ...)
+  kind: PlayableSourceKind;
+  url: string; // URL to play
+  originalUrl: string; // link as listed in the tracker
+  id?: string; // host file ID, when the provider knows it
+  isVideo?: boolean;
+  link: TrackLink;
+}
+
+export interface PlayableProvider {
+  id: string;
+  kind: PlayableSourceKind;
+  priority: number; // higher plays first
+  resolve: (link: TrackLink) => { url: string; id?: string; type?: string } | null;
+}
+
+export interface StreamProxyOptions {
+  allowedHosts?: string[]; // defaults to STREAM_PROXY_HOSTS
+  fetcher?: (url: string, init: RequestInit, address: string) => Promise<Response>; // connects to the checked address
+  lookup?: (hostname: string) => Promise<string[]>; // resolves a hostname to IP addresses
+  maxRedirects?: number;
 }
 
 export interface EraMetadata {
@@ -45,11 +147,27 @@ export interface EraMetadata {
   trackCount?: number; // Total number of tracks in this era (for metadata-only mode)
 }
 
+export interface EraRuntime {
+  totalSeconds: number; // sum of parsed track lengths
+  availableSeconds: number; // sum of playable seconds
+  tracksWithLength: number; // tracks with a parseable length
+  averagePercentAvailable?: number; // mean percent-of-song-available over partials and snippets
+}
+
+export interface EraMetadataMismatch {
+  field: keyof EraMetadata;
+  reported: number; // count from the tracker's own era statistics cell
+  computed: number; // count from the parsed tracks
+}
+
 export interface Era {
   id: string;
   name: string;
   alternateNames?: string[]; // alternate era names in parentheses
-  metadata: EraMetadata;
+  metadata: EraMetadata; // tracker's own era statistics when present, otherwise computed
+  computedMetadata?: EraMetadata; // counts from parsed tracks, set when the tracker reports its own
+  metadataMismatches?: EraMetadataMismatch[];
+  runtime?: EraRuntime;
   notes: string; // timeline information and sub-era notes
   image?: string;
   description: string; // main era description
@@ -74,6 +192,64 @@ export interface UpdateEntry {
   date: string;
   description: string;
   type: 'leak' | 'update' | 'addition' | 'removal';
+  source?: 'tab' | 'snapshot'; // tracker's Updates tab, or a change found by comparing snapshots
+  tracks?: UpdateTrackRef[]; // tracks the entry is about
+}
+
+// Where a tracker's changelog came from
+export type UpdateSource = 'tab' | 'snapshots' | 'none';
+
+export interface UpdateTrackRef {
+  id: string;
+  title: string;
+  era: string;
+  eraId?: string;
+}
+
+export interface UpdateFilter {
+  types?: UpdateEntry['type'][]; // all types when empty
+  from?: string | null; // ISO date, inclusive
+  to?: string | null;
+}
+
+// Update types plus quality upgrades, which feeds report separately
+export type FeedEntryType = UpdateEntry['type'] | 'quality_upgrade';
+
+export interface TrackerFeedEntry {
+  id: string; // stable across refreshes so readers don't repeat entries
+  type: FeedEntryType;
+  title: string;
+  summary: string;
+  url: string; // track permalink, or the Updates page when no track is mentioned
+  date: string; // ISO timestamp
+  era?: string;
+  quality?: string;
+  availability?: string;
+  source: 'tab' | 'snapshot';
+}
+
+export interface TrackerFeed {
+  docId: string;
+  title: string;
+  homeUrl: string;
+  feedUrl: string;
+  updated: string; // ISO timestamp
+  entries: TrackerFeedEntry[]; // newest first
+}
+
+export type SheetTabType = 'unreleased' | 'released' | 'updates' | 'statistics' | 'best' | 'stems' | 'misc';
+
+export interface SheetTab {
+  gid: string;
+  name: string;
+  type: SheetTabType;
+}
+
+export interface CellFormat {
+  hyperlink?: string; // link target when the cell text is a display label
+  background?: string; // fill color as ARGB hex, e.g. "FFFFF2CC"
+  bold?: boolean;
+  strike?: boolean;
 }
 
 export interface StatEntry {
@@ -93,6 +269,7 @@ export interface TrackerStatistics {
     lossless: number;
     cdQuality: number;
     highQuality: number;
+    mediumQuality: number;
     lowQuality: number;
     recordings: number;
     notAvailable: number;
@@ -137,6 +314,8 @@ export interface Artist {
   picture?: string;
   description?: string;
   albums: Album[];
+  sections?: Partial<Record<SheetTabType, Album[]>>; // track lists from other tabs (released, best, stems)
+  tabs?: SheetTab[]; // all tabs found in the workbook
   updates?: UpdateEntry[];
   statistics?: StatEntry[] | TrackerStatistics;
   lastUpdated: string;
@@ -146,14 +325,154 @@ export interface TrackerConfig {
   name: string;
   hasUpdatesPage: boolean;
   hasStatisticsPage: boolean;
-  columnMappings: Record<string, string[]>;
-  eraPatterns: string[];
-  footerPatterns: string[];
+  columnMappings: Record<string, string[]>; // column key -> header alias patterns (regex, case-insensitive)
+  eraPatterns: string[]; // era column patterns marking an era header/summary row
+  footerPatterns: string[]; // first-cell patterns marking the end of track data
+}
+
+export interface TrackerProfile extends TrackerConfig {
+  docIds?: string[]; // trackers that always use this profile
+  headerFingerprint?: string[]; // header cells that must all be present to auto-select this profile
+}
+
+export type TrackChangeType =
+  | 'added'
+  | 'removed'
+  | 'renamed'
+  | 'moved' // same track listed under another era
+  | 'quality_upgrade'
+  | 'quality_downgrade'
+  | 'availability_upgrade' // e.g. snippet -> full
+  | 'availability_downgrade'
+  | 'new_links';
+
+export interface TrackChange {
+  type: TrackChangeType;
+  trackId: string; // ID in the newer snapshot (older one for removals)
+  title: string;
+  era: string;
+  eraId?: string;
+  previousTitle?: string; // renamed
+  previousEra?: string; // moved
+  from?: string; // previous quality tier or availability
+  to?: string;
+  links?: TrackLink[]; // new_links
+}
+
+export interface TrackerDiff {
+  from: string; // ISO timestamp of the older snapshot
+  to: string;
+  changes: TrackChange[];
+  summary: Record<TrackChangeType, number>;
+}
+
+export interface TrackerSnapshotInfo {
+  id: string; // timestamp-based, sorts chronologically
+  docId: string;
+  takenAt: string; // ISO timestamp
+  trackerName: string;
+  totalTracks: number;
+  hash: string; // content hash; identical parses are not stored twice
+}
+
+export interface TrackerSnapshot extends TrackerSnapshotInfo {
+  artist: Artist;
+}
+
+export type WebhookFormat = 'json' | 'discord'; // signed TrackerParse payload, or a Discord embed
+
+export interface WebhookSubscription {
+  id: string;
+  docId: string;
+  url: string;
+  secret: string; // HMAC-SHA256 key for the X-TrackerParse-Signature header
+  managementKeyHash?: string; // SHA-256 of the key that deletes and tests this webhook
+  format: WebhookFormat;
+  events: TrackChangeType[]; // change types that trigger a delivery
+  createdAt: string;
+}
+
+export interface WebhookAttempt {
+  at: string;
+  status?: number; // HTTP status, missing when the request failed
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  docId: string;
+  url: string;
+  event: 'tracker.changed' | 'ping';
+  changeCount: number;
+  status: 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  createdAt: string;
+}
+
+// Sends webhook requests; swapped out to deliver to a local receiver in tests
+export interface WebhookHttpClient {
+  post(url: string, body: string, headers: Record<string, string>): Promise<{ status: number; retryAfterMs?: number }>;
+}
+
+export interface TrackerCacheEntry {
+  artist: Artist;
+  report: ParseReport;
+  cachedAt: number; // epoch milliseconds
+}
+
+export interface TrackerCacheStore {
+  get(key: string): Promise<TrackerCacheEntry | undefined>;
+  set(key: string, entry: TrackerCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// hit: fresh entry; stale: served while a refresh runs; miss: fetched now; refresh: cache bypassed on request
+export type TrackerCacheStatus = 'hit' | 'stale' | 'miss' | 'refresh';
+
+export type ParseRowClassification = 'track' | 'era_header' | 'stats' | 'announcement' | 'skipped';
+
+export interface ParseReportEntry {
+  rowIndex: number; // 0-based row in the sheet
+  classification: ParseRowClassification;
+  reason: string;
+  era?: string; // era the row was assigned to or started
+  warnings: string[];
+}
+
+export interface ParseReportSummary {
+  totalRows: number;
+  tracks: number;
+  eraHeaders: number;
+  stats: number;
+  announcements: number;
+  skipped: number;
+  warnings: number;
+}
+
+export interface ParseReport {
+  tab?: string; // name of the parsed tab
+  profile: string; // tracker profile used
+  headerRowIndex: number;
+  columnMap: Record<string, number>;
+  entries: ParseReportEntry[];
 }
 
 export interface ParsedSpreadsheetData {
   artist: Artist;
   hasUpdatesPage?: boolean;
   hasStatisticsPage?: boolean;
+  tabs?: SheetTab[];
+  parseReport?: ParseReportSummary; // only when requested
+  importInfo?: TrackerImportInfo; // set when the data came from an imported JSON export
   error?: string;
 }
+
+export interface TrackerImportInfo {
+  docId: string;
+  sourceUrl: string;
+  exportedAt: string; // lastUpdated of the export
+  exportVersion: string; // version the export was written with
+  migratedFrom?: string; // set when the export was upgraded on import
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Artist } from '@/types';
+import { GET } from '@/app/api/era/route';
+import { TrackerCache } from '@/utils/trackerCache';
+
+const artist = {
+  name: 'Artist',
+  albums: [
+    { id: 'new-era', name: 'New Era', tracks: [] },
+    { id: 'era-one', name: 'Era One', tracks: [{ id: 'track-1' }] },
+  ],
+} as unknown as Artist;
+
+function eraRequest(query: string): NextRequest {
+  return new NextRequest(`http://localhost/api/era?docId=doc&${query}`);
+}
+
+beforeEach(() => {
+  vi.spyOn(TrackerCache, 'parse').mockResolvedValue({
+    artist,
+    report: {} as never,
+    cacheStatus: 'hit',
+    cachedAt: Date.now(),
+  });
+});
+
+describe('GET /api/era', () => {
+  it('finds an era by ID', async () => {
+    const response = await GET(eraRequest('era=era-one'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).era.name).toBe('Era One');
+  });
+
+  it('falls back to the era name when the ID changed after an edit', async () => {
+    const response = await GET(eraRequest('era=era-one-2&name=Era%20One'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).era.id).toBe('era-one');
+  });
+
+  it('returns 404 when neither the ID nor the name match', async () => {
+    expect((await GET(eraRequest('era=gone'))).status).toBe(404);
+    expect((await GET(eraRequest('era=gone&name=Renamed'))).status).toBe(404);
+  });
+});
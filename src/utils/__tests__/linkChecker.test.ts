@@ -0,0 +1,199 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { LinkCheckOptions } from '@/types';
+import { checkLink, checkLinks, getStoredLinkHealth, MemoryLinkHealthStore } from '@/utils/linkChecker';
+import { fetchPinned } from '@/utils/streamProxy';
+
+// Stub file host: a live file, a deleted one, a host that rejects HEAD, and redirects
+let server: http.Server;
+let port: number;
+const hits: string[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    hits.push(`${req.method} ${req.url}${req.headers.range ? ` ${req.headers.range}` : ''}`);
+    if (req.url === '/song.mp3') {
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg; charset=binary', 'Content-Length': 1000 });
+      res.end(req.method === 'HEAD' ? undefined : Buffer.alloc(1000));
+    } else if (req.url === '/no-head.mp3') {
+      if (req.method === 'HEAD') {
+        res.writeHead(405);
+        res.end();
+        return;
+      }
+      res.writeHead(206, { 'Content-Type': 'audio/mpeg', 'Content-Range': 'bytes 0-0/1000' });
+      res.end(Buffer.alloc(1));
+    } else if (req.url === '/moved') {
+      res.writeHead(302, { Location: '/song.mp3' });
+      res.end();
+    } else if (req.url === '/to-private') {
+      res.writeHead(302, { Location: `http://internal.test:${port}/secret` });
+      res.end();
+    } else if (req.url === '/loop') {
+      res.writeHead(302, { Location: '/loop' });
+      res.end();
+    } else if (req.url === '/down') {
+      res.writeHead(503);
+      res.end();
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  hits.length = 0;
+});
+
+const PUBLIC_ADDRESS = '203.0.113.20'; // stands in for the file host; requests to it go to the stub server
+
+const DNS: Record<string, string[]> = {
+  'files.test': [PUBLIC_ADDRESS],
+  'internal.test': ['10.0.0.5'],
+};
+
+function options(overrides: Partial<LinkCheckOptions> = {}): LinkCheckOptions {
+  return {
+    lookup: async hostname => DNS[hostname] || [],
+    // Only the checked public address is routed to the stub server
+    fetcher: (url, init, address) => {
+      if (address !== PUBLIC_ADDRESS) throw new Error(`Connected to unchecked address ${address}`);
+      return fetchPinned(url, init, '127.0.0.1');
+    },
+    store: new MemoryLinkHealthStore(),
+    ...overrides,
+  };
+}
+
+const link = (path: string, host = 'files.test') => `http://${host}:${port}${path}`;
+
+describe('checkLink', () => {
+  it('marks a reachable file alive with its status and content type', async () => {
+    const health = await checkLink(link('/song.mp3'), options());
+    expect(health).toMatchObject({ state: 'alive', httpStatus: 200, contentType: 'audio/mpeg', method: 'HEAD' });
+    expect(hits).toEqual(['HEAD /song.mp3']);
+  });
+
+  it('marks 404 dead and other failures as errors', async () => {
+    expect(await checkLink(link('/deleted.mp3'), options())).toMatchObject({ state: 'dead', httpStatus: 404 });
+    expect(await checkLink(link('/down'), options())).toMatchObject({ state: 'error', httpStatus: 503 });
+  });
+
+  it('retries with a one-byte GET when HEAD is rejected', async () => {
+    const health = await checkLink(link('/no-head.mp3'), options());
+    expect(health).toMatchObject({ state: 'alive', httpStatus: 206, method: 'GET' });
+    expect(hits).toEqual(['HEAD /no-head.mp3', 'GET /no-head.mp3 bytes=0-0']);
+  });
+
+  it('follows redirects', async () => {
+    const health = await checkLink(link('/moved'), options());
+    expect(health).toMatchObject({ state: 'alive', httpStatus: 200 });
+    expect(hits).toEqual(['HEAD /moved', 'HEAD /song.mp3']);
+  });
+
+  it('refuses private addresses, including after a redirect', async () => {
+    const direct = await checkLink(link('/secret', 'internal.test'), options());
+    expect(direct.state).toBe('error');
+    expect(direct.error).toMatch(/private/i);
+
+    const redirected = await checkLink(link('/to-private'), options());
+    expect(redirected.state).toBe('error');
+    expect(hits).toEqual(['HEAD /to-private']);
+  });
+
+  it('gives up on redirect loops', async () => {
+    const health = await checkLink(link('/loop'), options());
+    expect(health).toMatchObject({ state: 'error', error: 'Too many redirects' });
+    expect(hits).toHaveLength(6);
+  });
+
+  it('connects to the checked address when DNS changes its answer (rebinding)', async () => {
+    const answers = [[PUBLIC_ADDRESS], ['127.0.0.1']];
+    const lookups: string[] = [];
+    const health = await checkLink(link('/song.mp3', 'rebind.test'), options({
+      lookup: async hostname => {
+        lookups.push(hostname);
+        return answers.shift() || [];
+      },
+    }));
+    expect(health).toMatchObject({ state: 'alive', httpStatus: 200 });
+    expect(lookups).toEqual(['rebind.test']);
+  });
+
+  it('reports hosts that cannot be resolved', async () => {
+    const health = await checkLink(link('/song.mp3', 'unknown.test'), options());
+    expect(health.state).toBe('error');
+    expect(hits).toHaveLength(0);
+  });
+});
+
+describe('checkLinks', () => {
+  it('checks each link once and stores the results', async () => {
+    const store = new MemoryLinkHealthStore();
+    const urls = [link('/song.mp3'), link('/deleted.mp3'), link('/song.mp3'), 'not a link'];
+
+    const results = await checkLinks(urls, options({ store }));
+
+    expect(Object.keys(results).sort()).toEqual([link('/deleted.mp3'), link('/song.mp3')]);
+    expect(hits.sort()).toEqual(['HEAD /deleted.mp3', 'HEAD /song.mp3']);
+    expect((await store.get(link('/deleted.mp3')))?.state).toBe('dead');
+  });
+
+  it('reuses fresh results and re-checks old or forced ones', async () => {
+    const store = new MemoryLinkHealthStore();
+    await checkLinks([link('/song.mp3')], options({ store }));
+    hits.length = 0;
+
+    await checkLinks([link('/song.mp3')], options({ store }));
+    expect(hits).toEqual([]);
+
+    await checkLinks([link('/song.mp3')], options({ store, force: true }));
+    expect(hits).toEqual(['HEAD /song.mp3']);
+
+    await store.set({ url: link('/song.mp3'), state: 'alive', checkedAt: new Date(Date.now() - 7 * 60 * 60 * 1000).toISOString() });
+    await checkLinks([link('/song.mp3')], options({ store }));
+    expect(hits).toEqual(['HEAD /song.mp3', 'HEAD /song.mp3']);
+  });
+
+  it('runs no more than the configured number of checks at once', async () => {
+    let active = 0;
+    let peak = 0;
+    const base = options();
+    const fetcher: LinkCheckOptions['fetcher'] = async (url, init, address) => {
+      active++;
+      peak = Math.max(peak, active);
+      try {
+        return await base.fetcher!(url, init, address);
+      } finally {
+        active--;
+      }
+    };
+    const urls = Array.from({ length: 6 }, (_, i) => link(`/song.mp3?copy=${i}`));
+
+    const results = await checkLinks(urls, options({ fetcher, concurrency: 2 }));
+
+    expect(Object.keys(results)).toHaveLength(6);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('getStoredLinkHealth', () => {
+  it('returns stored results without checking anything', async () => {
+    const store = new MemoryLinkHealthStore();
+    await checkLinks([link('/song.mp3')], options({ store }));
+    hits.length = 0;
+
+    const results = await getStoredLinkHealth([link('/song.mp3'), link('/other.mp3')], store);
+
+    expect(Object.keys(results)).toEqual([link('/song.mp3')]);
+    expect(hits).toEqual([]);
+  });
+});
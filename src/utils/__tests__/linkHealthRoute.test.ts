@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Artist } from '@/types';
+import { POST } from '@/app/api/link-health/route';
+import { checkLinks } from '@/utils/linkChecker';
+import { TrackerCache } from '@/utils/trackerCache';
+
+// Nothing leaves the machine: the checker only records what it was asked to check
+vi.mock('@/utils/linkChecker', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/utils/linkChecker')>()),
+  checkLinks: vi.fn(async () => ({})),
+}));
+
+const TRACKER_URLS = Array.from({ length: 1200 }, (_, i) => `https://pillows.su/f/${i}`);
+
+const artist = {
+  name: 'Artist',
+  albums: [{
+    id: 'era-1',
+    name: 'Era',
+    tracks: [{ id: 'track-1', links: TRACKER_URLS.map(url => ({ url })) }],
+  }],
+} as unknown as Artist;
+
+function linkHealthRequest(body: object, client = '198.51.100.1'): NextRequest {
+  return new NextRequest('http://localhost/api/link-health', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': client },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(checkLinks).mockClear();
+  vi.spyOn(TrackerCache, 'parse').mockResolvedValue({
+    artist,
+    report: {} as never,
+    cacheStatus: 'hit',
+    cachedAt: Date.now(),
+  });
+});
+
+describe('POST /api/link-health', () => {
+  it('requires a tracker to check links', async () => {
+    const response = await POST(linkHealthRequest({ urls: [TRACKER_URLS[0]] }));
+    expect(response.status).toBe(400);
+    expect(checkLinks).not.toHaveBeenCalled();
+  });
+
+  it('only checks links the tracker lists', async () => {
+    const response = await POST(linkHealthRequest({
+      docId: 'doc',
+      urls: [TRACKER_URLS[0], 'http://169.254.169.254/latest/meta-data', TRACKER_URLS[1]],
+      force: true,
+    }, '198.51.100.2'));
+
+    expect(response.status).toBe(200);
+    expect(checkLinks).toHaveBeenCalledWith([TRACKER_URLS[0], TRACKER_URLS[1]]);
+  });
+
+  it('limits each tracker, whatever forwarding headers clients send', async () => {
+    for (let i = 0; i < 1000; i += 200) {
+      const response = await POST(linkHealthRequest({ docId: 'limited', urls: TRACKER_URLS.slice(i, i + 200) }, `198.51.100.${i / 200 + 10}`));
+      expect(response.status).toBe(200);
+    }
+
+    const spoofed = await POST(linkHealthRequest({ docId: 'limited', urls: TRACKER_URLS.slice(1000, 1001) }, '198.51.100.99'));
+    expect(spoofed.status).toBe(429);
+    const otherTab = await POST(linkHealthRequest({ docId: 'limited_gid_5', urls: TRACKER_URLS.slice(1000, 1001) }));
+    expect(otherTab.status).toBe(429);
+
+    const otherTracker = await POST(linkHealthRequest({ docId: 'other', urls: TRACKER_URLS.slice(1000, 1001) }));
+    expect(otherTracker.status).toBe(200);
+  });
+
+  it('limits each client address set by a trusted proxy', async () => {
+    vi.stubEnv('TRUST_PROXY_HEADERS', 'true');
+    try {
+      // The proxy appends the real address; the first entry is whatever the client sent
+      for (let i = 0; i < 1000; i += 200) {
+        const response = await POST(linkHealthRequest({ docId: 'proxied', urls: TRACKER_URLS.slice(i, i + 200) }, `10.9.9.${i / 200}, 198.51.100.3`));
+        expect(response.status).toBe(200);
+      }
+
+      const limited = await POST(linkHealthRequest({ docId: 'proxied', urls: TRACKER_URLS.slice(1000, 1001) }, '10.9.9.99, 198.51.100.3'));
+      expect(limited.status).toBe(429);
+
+      const otherClient = await POST(linkHealthRequest({ docId: 'proxied', urls: TRACKER_URLS.slice(1000, 1001) }, '198.51.100.4'));
+      expect(otherClient.status).toBe(200);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
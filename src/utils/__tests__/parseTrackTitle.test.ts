@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { SheetParser } from '@/utils/sheetParser';
+import { TrackTitle } from '@/types';
+
+type Credits = Partial<Omit<TrackTitle, 'isUnknown'>>;
+
+// Real-world tracker titles and the credits they should yield; fields left out must be empty
+const TITLES: [string, Credits][] = [
+  ['Ghost Town', { main: 'Ghost Town' }],
+  ['Ultralight Beam (feat. Chance the Rapper, Kelly Price & The-Dream)', {
+    main: 'Ultralight Beam',
+    features: ['Chance the Rapper', 'Kelly Price', 'The-Dream'],
+  }],
+  ['Song (feat. X) [prod. Y & Z]', { main: 'Song', features: ['X'], producers: ['Y', 'Z'] }],
+  ['Song [prod. Y] (feat. X)', { main: 'Song', features: ['X'], producers: ['Y'] }],
+  ['Wolves (with Sia & Vic Mensa)', { main: 'Wolves', collaborators: ['Sia', 'Vic Mensa'] }],
+  ['Skeletons (with Tyler, The Creator) (Alt Title)', {
+    main: 'Skeletons',
+    collaborators: ['Tyler, The Creator'],
+    alternateNames: ['Alt Title'],
+  }],
+  ['Earfquake (feat. Tyler, The Creator, Playboi Carti & Charlie Wilson)', {
+    main: 'Earfquake',
+    features: ['Tyler, The Creator', 'Playboi Carti', 'Charlie Wilson'],
+  }],
+  ['Mid (with Guest A) Title [prod. Producer B]', {
+    main: 'Mid Title',
+    collaborators: ['Guest A'],
+    producers: ['Producer B'],
+  }],
+  ['Hurricane (feat. The Weeknd x Lil Baby)', { main: 'Hurricane', features: ['The Weeknd', 'Lil Baby'] }],
+  ['Panini (feat. Lil Nas X)', { main: 'Panini', features: ['Lil Nas X'] }],
+  ['Boogie Wonderland (ref. Earth, Wind & Fire)', { main: 'Boogie Wonderland', references: ['Earth, Wind & Fire'] }],
+  ['Sample Song (interpolates Old Song)', { main: 'Sample Song', interpolations: ['Old Song'] }],
+  ['Track feat. A & B prod. C', { main: 'Track', features: ['A', 'B'], producers: ['C'] }],
+  ['Track (prod. by Mike Dean, Kanye West and Plain Pat)', {
+    main: 'Track',
+    producers: ['Mike Dean', 'Kanye West', 'Plain Pat'],
+  }],
+  ['Never Stop (V2) [Demo]', { main: 'Never Stop', alternateNames: ['V2', 'Demo'] }],
+  ['Big Brother (feat. A [prod. B])', { main: 'Big Brother', features: ['A'], producers: ['B'] }],
+  ['Outer (Alt Name [Take 2])', { main: 'Outer', alternateNames: ['Take 2', 'Alt Name'] }],
+  ['With You', { main: 'With You' }],
+  ['Walk With Me (feat. Guest)', { main: 'Walk With Me', features: ['Guest'] }],
+  ['🏆 Awesome Song (feat. Star) ✨', { main: 'Awesome Song', features: ['Star'] }],
+  ['Bad Blood (feat. Kendrick Lamar) [ref. Someone]', {
+    main: 'Bad Blood',
+    features: ['Kendrick Lamar'],
+    references: ['Someone'],
+  }],
+  ['Track 2 (1)', { main: 'Track 2' }],
+];
+
+const EMPTY: Credits = {
+  features: [],
+  collaborators: [],
+  producers: [],
+  references: [],
+  interpolations: [],
+  alternateNames: [],
+};
+
+describe('SheetParser.parseTrackTitle', () => {
+  it.each(TITLES)('parses %s', (raw, expected) => {
+    expect(SheetParser.parseTrackTitle(raw)).toMatchObject({ ...EMPTY, ...expected });
+  });
+
+  it('flags unknown titles', () => {
+    expect(SheetParser.parseTrackTitle('??? (feat. Someone)')).toMatchObject({ isUnknown: true, features: ['Someone'] });
+  });
+
+  it('returns an empty title for empty input', () => {
+    expect(SheetParser.parseTrackTitle('')).toEqual({ main: '', isUnknown: false, ...EMPTY });
+  });
+});
+
+describe('SheetParser.splitArtists', () => {
+  it.each([
+    ['A, B & C', ['A', 'B', 'C']],
+    ['A, B and C', ['A', 'B', 'C']],
+    ['A x B', ['A', 'B']],
+    ['Tyler, The Creator & A$AP Rocky', ['Tyler, The Creator', 'A$AP Rocky']],
+    ['Simon & Garfunkel', ['Simon & Garfunkel']],
+    ['Florence + The Machine, Malcolm X', ['Florence + The Machine', 'Malcolm X']],
+    ['Axel', ['Axel']],
+    ['Rock and Roll Band', ['Rock and Roll Band']],
+  ])('splits %s', (text, names) => {
+    expect(SheetParser.splitArtists(text)).toEqual(names);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Artist, LinkHealth, TrackLink } from '@/types';
+import { DataExporter } from '@/utils/dataExporter';
+
+const PILLOWCASE_ID = 'a'.repeat(32);
+const DROPBOX_URL = 'https://www.dropbox.com/s/abc/song.mp3?dl=0';
+
+function health(url: string, state: LinkHealth['state']): LinkHealth {
+  return { url, state, checkedAt: new Date().toISOString() };
+}
+
+function artistWithLinks(links: TrackLink[]): Artist {
+  return {
+    name: 'Artist',
+    albums: [{
+      id: 'era',
+      name: 'Era',
+      tracks: [{ id: 'song', title: { main: 'Song' }, links, trackLength: '3:00' }],
+    }],
+  } as unknown as Artist;
+}
+
+describe('DataExporter.getPlaylistEntries', () => {
+  const pillowcase = `https://pillows.su/f/${PILLOWCASE_ID}`;
+
+  it('plays the best audio link', () => {
+    const [entry] = DataExporter.getPlaylistEntries(artistWithLinks([{ url: DROPBOX_URL }, { url: pillowcase }]));
+    expect(entry.url).toBe(`https://api.pillows.su/api/download/${PILLOWCASE_ID}.mp3`);
+  });
+
+  it('passes over links found dead for the next playable one', () => {
+    const entries = DataExporter.getPlaylistEntries(artistWithLinks([
+      { url: pillowcase, health: health(pillowcase, 'dead') },
+      { url: DROPBOX_URL, health: health(DROPBOX_URL, 'alive') },
+    ]));
+    expect(entries.map(entry => new URL(entry.url).hostname)).toEqual(['www.dropbox.com']);
+  });
+
+  it('passes over struck-through links', () => {
+    const entries = DataExporter.getPlaylistEntries(artistWithLinks([{ url: pillowcase, isValid: false }, { url: DROPBOX_URL }]));
+    expect(entries.map(entry => new URL(entry.url).hostname)).toEqual(['www.dropbox.com']);
+  });
+
+  it('leaves out tracks with no working audio link', () => {
+    expect(DataExporter.getPlaylistEntries(artistWithLinks([{ url: pillowcase, health: health(pillowcase, 'dead') }]))).toEqual([]);
+    // Links that failed for other reasons may only be down for now
+    expect(DataExporter.getPlaylistEntries(artistWithLinks([{ url: pillowcase, health: health(pillowcase, 'error') }]))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { SheetParser } from '@/utils/sheetParser';
+import { SpreadsheetExporter } from '@/utils/spreadsheetExporter';
+import { XlsxReader } from '@/utils/xlsxReader';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'formatted-tracker.xlsx');
+const SOURCE_URL = 'https://docs.google.com/spreadsheets/d/doc123/edit';
+
+let workbook: ExcelJS.Workbook;
+
+beforeAll(async () => {
+  const buffer = fs.readFileSync(FIXTURE);
+  const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  const { artist } = await SheetParser.parseSheets(await XlsxReader.readWorkbook(data), 'Artist Tracker');
+
+  // Read the export back as Excel would see it
+  const exported = await SpreadsheetExporter.exportToXLSX(artist, SOURCE_URL);
+  workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(exported.buffer.slice(exported.byteOffset, exported.byteOffset + exported.byteLength) as ArrayBuffer);
+});
+
+describe('SpreadsheetExporter.exportToXLSX', () => {
+  it('writes a summary sheet and one sheet per era', () => {
+    expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Summary', 'Era One', 'Era Two']);
+  });
+
+  it('freezes the rows up to each header', () => {
+    const frozen = workbook.worksheets.map(worksheet => worksheet.views[0] as ExcelJS.WorksheetViewFrozen);
+    expect(frozen.map(view => [view.state, view.ySplit])).toEqual([['frozen', 5], ['frozen', 1], ['frozen', 1]]);
+    expect(workbook.getWorksheet('Era One')!.getCell('A1').font?.bold).toBe(true);
+  });
+
+  it('writes links as hyperlink cells', () => {
+    expect(workbook.getWorksheet('Summary')!.getCell('B2').value).toEqual({ text: SOURCE_URL, hyperlink: SOURCE_URL });
+    expect(workbook.getWorksheet('Era One')!.getCell('K2').value).toEqual({
+      text: 'Pillowcase',
+      hyperlink: 'https://pillows.su/f/0123456789abcdef0123456789abcdef',
+    });
+  });
+
+  it('writes lengths as durations and known dates as dates', () => {
+    const era = workbook.getWorksheet('Era One')!;
+
+    const length = era.getCell('E2');
+    expect(length.numFmt).toBe('[m]:ss');
+    // Time-formatted cells read back as dates on Excel's 1899-12-30 epoch
+    expect(((length.value as Date).getTime() - Date.UTC(1899, 11, 30)) / 1000).toBeCloseTo(185);
+
+    const fileDate = era.getCell('I2');
+    expect(fileDate.numFmt).toBe('yyyy-mm-dd');
+    expect((fileDate.value as Date).toISOString()).toBe('2016-03-14T00:00:00.000Z');
+  });
+});
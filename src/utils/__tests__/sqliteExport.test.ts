@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Artist } from '@/types';
+import { DataExporter } from '@/utils/dataExporter';
+import { SheetParser } from '@/utils/sheetParser';
+import { SQLiteExporter } from '@/utils/sqliteExporter';
+import { XlsxReader } from '@/utils/xlsxReader';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'formatted-tracker.xlsx');
+
+let artist: Artist;
+let db: Database;
+
+beforeAll(async () => {
+  const buffer = fs.readFileSync(FIXTURE);
+  const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  ({ artist } = await SheetParser.parseSheets(await XlsxReader.readWorkbook(data), 'Artist Tracker'));
+
+  const SQL = await initSqlJs();
+  db = new SQL.Database(await SQLiteExporter.export(artist));
+});
+
+afterAll(() => {
+  db.close();
+});
+
+const query = (sql: string) => db.exec(sql)[0] || { columns: [], values: [] };
+
+describe('SQLiteExporter.export', () => {
+  it('names the track columns after the CSV export', () => {
+    const [era] = artist.albums;
+    const csvColumns = Object.keys(DataExporter.toCSVRow(artist.name, era, era.tracks[0]));
+
+    const columns = query('PRAGMA table_info(tracks)').values.map(row => row[1]);
+
+    expect(columns).toEqual(['id', 'eraId', 'versionGroupId', 'position', ...csvColumns]);
+  });
+
+  it('writes every era, track and link with no broken references', () => {
+    expect(query('PRAGMA foreign_key_check').values).toEqual([]);
+    expect(query('SELECT name FROM eras ORDER BY position').values.flat()).toEqual(['Era One', 'Era Two']);
+    expect(query('SELECT COUNT(*) FROM tracks').values[0][0]).toBe(artist.albums.reduce((sum, era) => sum + era.tracks.length, 0));
+    expect(query("SELECT platform FROM links WHERE label = 'Download'").values.flat()).toEqual(['dropbox']);
+  });
+});
@@ -0,0 +1,149 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { StreamProxyOptions } from '@/types';
+import { fetchPinned, isPrivateAddress, proxyStream } from '@/utils/streamProxy';
+
+const AUDIO = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 256));
+const PUBLIC_ADDRESS = '203.0.113.10'; // stands in for the audio host; requests to it go to the stub server
+
+// Stub audio host: a file with Range support, a web page, and a redirect to an internal host
+let server: http.Server;
+let port: number;
+const hits: string[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    hits.push(req.url || '');
+    if (req.url === '/song.mp3') {
+      const range = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Accept-Ranges', 'bytes');
+      if (!range) {
+        res.setHeader('Content-Length', AUDIO.length);
+        res.end(AUDIO);
+        return;
+      }
+      const start = Number(range[1]);
+      const end = range[2] ? Math.min(Number(range[2]), AUDIO.length - 1) : AUDIO.length - 1;
+      if (start >= AUDIO.length) {
+        res.writeHead(416, { 'Content-Range': `bytes */${AUDIO.length}` });
+        res.end();
+        return;
+      }
+      res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${AUDIO.length}`, 'Content-Length': end - start + 1 });
+      res.end(AUDIO.subarray(start, end + 1));
+    } else if (req.url === '/deleted') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end('<html><body>This file was deleted</body></html>');
+    } else if (req.url === '/redirect-private') {
+      res.writeHead(302, { Location: `http://internal.test:${port}/secret` });
+      res.end();
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const DNS: Record<string, string[]> = {
+  'audio.test': [PUBLIC_ADDRESS],
+  'internal.test': ['10.0.0.5'],
+};
+
+function options(overrides: Partial<StreamProxyOptions> = {}): StreamProxyOptions {
+  return {
+    allowedHosts: ['audio.test', 'internal.test', 'rebind.test'],
+    lookup: async hostname => DNS[hostname] || [],
+    // Only the checked public address is routed to the stub server
+    fetcher: (url, init, address) => {
+      if (address !== PUBLIC_ADDRESS) throw new Error(`Connected to unchecked address ${address}`);
+      return fetchPinned(url, init, '127.0.0.1');
+    },
+    ...overrides,
+  };
+}
+
+function streamRequest(path: string, headers: Record<string, string> = {}, host = 'audio.test'): Request {
+  const target = encodeURIComponent(`http://${host}:${port}${path}`);
+  return new Request(`http://localhost/api/stream?url=${target}`, { headers });
+}
+
+describe('proxyStream', () => {
+  it('streams the whole file with an audio content type', async () => {
+    const response = await proxyStream(streamRequest('/song.mp3'), options());
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('audio/mpeg');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(AUDIO);
+  });
+
+  it('passes Range requests through as 206 responses', async () => {
+    const response = await proxyStream(streamRequest('/song.mp3', { Range: 'bytes=100-199' }), options());
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe(`bytes 100-199/${AUDIO.length}`);
+    expect(response.headers.get('accept-ranges')).toBe('bytes');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(AUDIO.subarray(100, 200));
+  });
+
+  it('passes unsatisfiable ranges through as 416', async () => {
+    const response = await proxyStream(streamRequest('/song.mp3', { Range: 'bytes=5000-' }), options());
+    expect(response.status).toBe(416);
+    expect(response.headers.get('content-range')).toBe(`bytes */${AUDIO.length}`);
+  });
+
+  it('rejects web pages served instead of audio', async () => {
+    const response = await proxyStream(streamRequest('/deleted'), options());
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toMatch(/web page/);
+  });
+
+  it('refuses redirects to private addresses without fetching them', async () => {
+    hits.length = 0;
+    const response = await proxyStream(streamRequest('/redirect-private'), options());
+    expect(response.status).toBe(403);
+    expect(hits).toEqual(['/redirect-private']);
+  });
+
+  it('refuses hosts outside the allowlist', async () => {
+    const response = await proxyStream(streamRequest('/song.mp3', {}, 'other.test'), options());
+    expect(response.status).toBe(403);
+  });
+
+  it('connects to the checked address when DNS changes its answer (rebinding)', async () => {
+    const answers = [[PUBLIC_ADDRESS], ['127.0.0.1']];
+    const lookups: string[] = [];
+    const response = await proxyStream(streamRequest('/song.mp3', {}, 'rebind.test'), options({
+      lookup: async hostname => {
+        lookups.push(hostname);
+        return answers.shift() || [];
+      },
+    }));
+    expect(response.status).toBe(200);
+    expect(lookups).toEqual(['rebind.test']);
+  });
+});
+
+describe('fetchPinned', () => {
+  it('connects to the given address without resolving the hostname', async () => {
+    const response = await fetchPinned(`http://does-not-resolve.invalid:${port}/song.mp3`, {}, '127.0.0.1');
+    expect(response.status).toBe(200);
+    expect(Buffer.from(await response.arrayBuffer()).length).toBe(AUDIO.length);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each(['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1'])(
+    'treats %s as private',
+    address => expect(isPrivateAddress(address)).toBe(true)
+  );
+
+  it.each(['1.1.1.1', '8.8.8.8', '2606:4700::1111'])('treats %s as public', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { TrackerCacheEntry } from '@/types';
+import { MemoryTrackerCacheStore } from '@/utils/trackerCache';
+
+function entry(cachedAt = Date.now()): TrackerCacheEntry {
+  return { artist: {} as TrackerCacheEntry['artist'], report: {} as TrackerCacheEntry['report'], cachedAt };
+}
+
+describe('MemoryTrackerCacheStore', () => {
+  it('drops the least recently used tracker past its limit', async () => {
+    const store = new MemoryTrackerCacheStore({ maxEntries: 2 });
+    await store.set('a', entry());
+    await store.set('b', entry());
+    await store.get('a');
+    await store.set('c', entry());
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+
+  it('forgets entries older than its maximum age', async () => {
+    const store = new MemoryTrackerCacheStore({ maxAgeMs: 1000 });
+    await store.set('old', entry(Date.now() - 2000));
+    await store.set('other-old', entry(Date.now() - 2000));
+    expect(await store.get('old')).toBeUndefined();
+
+    // Writing sweeps out expired entries nobody asks for again
+    await store.set('new', entry());
+    expect(store.size).toBe(1);
+  });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Artist } from '@/types';
+import { DataExporter, TrackerExport } from '@/utils/dataExporter';
+import { computeRuntime } from '@/utils/duration';
+import { SheetParser } from '@/utils/sheetParser';
+import { CURRENT_EXPORT_VERSION, TrackerImporter } from '@/utils/trackerImport';
+import { XlsxReader } from '@/utils/xlsxReader';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'formatted-tracker.xlsx');
+
+let live: Artist;
+
+beforeAll(async () => {
+  const buffer = fs.readFileSync(FIXTURE);
+  const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  ({ artist: live } = await SheetParser.parseSheets(await XlsxReader.readWorkbook(data), 'Artist Tracker'));
+});
+
+// A fresh export of the live parse, as a plain object
+function exportLive(): TrackerExport {
+  return JSON.parse(DataExporter.exportToJSON(live, 'doc123', 'https://docs.google.com/spreadsheets/d/doc123/edit'));
+}
+
+describe('TrackerImporter.import', () => {
+  it('rejects an invalid export and reports where the problem is', () => {
+    const data = exportLive() as unknown as { artist: { albums: { tracks: { title: { main: unknown } }[] }[] }; docId?: string };
+    data.artist.albums[0].tracks[1].title.main = 42;
+    delete data.docId;
+
+    const result = TrackerImporter.import(data);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      'export.docId: is required',
+      'export.artist.albums[0].tracks[1].title.main: expected string, got number',
+    ]);
+  });
+
+  it('rejects JSON that does not parse', () => {
+    const result = TrackerImporter.import('{"docId":');
+    expect(!result.ok && result.errors[0]).toMatch(/^Invalid JSON/);
+  });
+
+  it('rejects unsupported export versions', () => {
+    const data = exportLive();
+    data.metadata.exportVersion = '1.0';
+
+    const result = TrackerImporter.import(data);
+
+    expect(!result.ok && result.errors).toEqual(['Unsupported export version 1.0 (supported: 2.0, 2.1)']);
+  });
+
+  it('migrates a 2.0 export to the current version', () => {
+    const data = exportLive();
+    data.metadata = { totalTracks: data.metadata.totalTracks, totalAlbums: data.metadata.totalAlbums, exportVersion: '2.0' };
+
+    const result = TrackerImporter.import(data);
+    if (!result.ok) throw new Error(result.errors.join('\n'));
+
+    const runtime = computeRuntime(live.albums.flatMap(album => album.tracks));
+    expect(result.exportVersion).toBe('2.0');
+    expect(result.migratedFrom).toBe('2.0');
+    expect(result.data.metadata).toMatchObject({
+      exportVersion: CURRENT_EXPORT_VERSION,
+      totalRuntimeSeconds: runtime.totalSeconds,
+      availableRuntimeSeconds: runtime.availableSeconds,
+    });
+  });
+
+  it('renders an imported export like a live parse of the same rows', () => {
+    // Drop what is derived from cell text; parsed dates stay, as they hold the original date text
+    const data = exportLive();
+    for (const album of data.artist.albums as unknown as Record<string, unknown>[]) {
+      delete album.id;
+      delete album.runtime;
+      for (const track of album.tracks as Record<string, unknown>[]) {
+        for (const field of ['qualityTier', 'availability', 'trackLengthSeconds', 'availableSeconds']) {
+          delete track[field];
+        }
+        for (const link of track.links as Record<string, unknown>[]) {
+          delete link.type;
+          delete link.platform;
+          delete link.playable;
+        }
+      }
+    }
+
+    const result = TrackerImporter.import(JSON.stringify(data));
+    if (!result.ok) throw new Error(result.errors.join('\n'));
+
+    expect(result.migratedFrom).toBeUndefined();
+    expect(JSON.parse(JSON.stringify(result.artist.albums))).toEqual(JSON.parse(JSON.stringify(live.albums)));
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Artist, ParseReport } from '@/types';
+import { POST } from '@/app/api/snapshots/route';
+import { MemoryTrackerCacheStore, TrackerCache } from '@/utils/trackerCache';
+import { TrackerSnapshots } from '@/utils/trackerSnapshots';
+import { TrackerWebhooks } from '@/utils/trackerWebhooks';
+import { loadSnapshotDiffs } from '@/utils/updateSource';
+import { UnifiedParser } from '@/utils/unifiedParser';
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'trackerparse-snapshots-'));
+  TrackerSnapshots.configure({ directory: path.join(directory, 'snapshots') });
+  TrackerWebhooks.configure({ directory: path.join(directory, 'webhooks') });
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  TrackerCache.configure({ store: new MemoryTrackerCacheStore() });
+});
+
+function makeArtist(trackCount: number): Artist {
+  return {
+    name: 'Artist',
+    albums: [{
+      id: 'era',
+      name: 'Era',
+      tracks: Array.from({ length: trackCount }, (_, i) => ({ id: `track-${i}`, title: { main: `Song ${i}` } })),
+    }],
+    lastUpdated: new Date().toISOString(),
+  } as unknown as Artist;
+}
+
+describe('TrackerSnapshots.save', () => {
+  it('keeps every snapshot when saves for one tracker overlap', async () => {
+    const saves = Array.from({ length: 8 }, (_, i) =>
+      TrackerSnapshots.save('concurrent', makeArtist(i + 1), new Date(Date.UTC(2025, 0, 1, 0, 0, i)))
+    );
+    await Promise.all(saves);
+
+    const snapshots = await TrackerSnapshots.list('concurrent');
+    expect(snapshots.map(snapshot => snapshot.totalTracks)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    const files = await fs.readdir(path.join(directory, 'snapshots', 'concurrent'));
+    expect(files.filter(file => file.endsWith('.tmp'))).toEqual([]);
+    expect(files).toHaveLength(9);
+  });
+
+  it('returns the latest snapshot when nothing changed', async () => {
+    const first = await TrackerSnapshots.save('unchanged', makeArtist(2), new Date(Date.UTC(2025, 0, 1)));
+    const second = await TrackerSnapshots.save('unchanged', makeArtist(2), new Date(Date.UTC(2025, 0, 2)));
+
+    expect(first.previous).toBeNull();
+    expect(second.snapshot).toEqual(first.snapshot);
+    expect(second.previous).toEqual(first.snapshot);
+    expect(await TrackerSnapshots.list('unchanged')).toHaveLength(1);
+  });
+
+  it('keeps saving after a failed save', async () => {
+    const broken = { ...makeArtist(1), albums: null } as unknown as Artist;
+    await expect(TrackerSnapshots.save('recovers', broken)).rejects.toThrow();
+
+    const { snapshot } = await TrackerSnapshots.save('recovers', makeArtist(3));
+    expect(snapshot.totalTracks).toBe(3);
+  });
+});
+
+describe('loadSnapshotDiffs', () => {
+  it('reuses the diffs until a newer snapshot is taken', async () => {
+    await TrackerSnapshots.save('memoized', makeArtist(1), new Date(Date.UTC(2025, 0, 1)));
+    await TrackerSnapshots.save('memoized', makeArtist(2), new Date(Date.UTC(2025, 0, 2)));
+    const loadSpy = vi.spyOn(TrackerSnapshots, 'load');
+
+    const first = await loadSnapshotDiffs('memoized');
+    expect(await loadSnapshotDiffs('memoized')).toBe(first);
+    expect(loadSpy).toHaveBeenCalledTimes(2);
+
+    await TrackerSnapshots.save('memoized', makeArtist(3), new Date(Date.UTC(2025, 0, 3)));
+    const updated = await loadSnapshotDiffs('memoized');
+    expect(updated.map(({ diff }) => diff.changes.length)).toEqual([1, 1]);
+    loadSpy.mockRestore();
+  });
+});
+
+describe('POST /api/snapshots', () => {
+  it('returns the snapshot the refresh took instead of saving a second time', async () => {
+    let trackCount = 1;
+    vi.spyOn(UnifiedParser, 'parseGoogleDocWithReport').mockImplementation(async () => ({
+      artist: makeArtist(trackCount),
+      report: {} as ParseReport,
+    }));
+    const saveSpy = vi.spyOn(TrackerSnapshots, 'save');
+    const snapshotRequest = () => new NextRequest('http://localhost/api/snapshots', {
+      method: 'POST',
+      body: JSON.stringify({ docId: 'route-doc' }),
+    });
+
+    const first = await (await POST(snapshotRequest())).json();
+    trackCount = 4;
+    const second = await (await POST(snapshotRequest())).json();
+
+    expect(first.snapshot.totalTracks).toBe(1);
+    expect(second.snapshot.totalTracks).toBe(4);
+    expect(saveSpy).toHaveBeenCalledTimes(2);
+    expect((await TrackerSnapshots.list('route-doc')).map(snapshot => snapshot.id)).toEqual([first.snapshot.id, second.snapshot.id]);
+  });
+});
@@ -0,0 +1,273 @@
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TrackerDiff } from '@/types';
+import { DELETE, GET, POST } from '@/app/api/webhooks/route';
+import { GET as getDeliveries } from '@/app/api/webhooks/deliveries/route';
+import { POST as sendTest } from '@/app/api/webhooks/test/route';
+import { fetchPinned } from '@/utils/streamProxy';
+import { createFetchWebhookClient, redactWebhookUrl, TrackerWebhooks } from '@/utils/trackerWebhooks';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local receiver: answers each path with its queued statuses in turn, then 204
+let server: http.Server;
+let port: number;
+let received: ReceivedRequest[] = [];
+let responses: Record<string, number[]> = {};
+let directory: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const requestPath = req.url || '';
+      received.push({ path: requestPath, headers: req.headers, body });
+      res.writeHead(responses[requestPath]?.shift() ?? 204);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'trackerparse-webhooks-'));
+  TrackerWebhooks.configure({
+    directory,
+    httpClient: createFetchWebhookClient({ allowPrivate: true }),
+    retryDelaysMs: [5, 5],
+  });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  received = [];
+  responses = {};
+});
+
+const receiver = (hookPath: string) => `http://127.0.0.1:${port}${hookPath}`;
+
+async function register(docId: string, options: Parameters<typeof TrackerWebhooks.register>[1]) {
+  const registered = await TrackerWebhooks.register(docId, options);
+  if ('problem' in registered) throw new Error(registered.problem.message);
+  return registered;
+}
+
+const diff: TrackerDiff = {
+  from: '2025-01-01T00:00:00.000Z',
+  to: '2025-01-02T00:00:00.000Z',
+  changes: [
+    { type: 'added', trackId: 'song-a', title: 'Song A', era: 'Era' },
+    { type: 'renamed', trackId: 'song-b', title: 'Song B', previousTitle: 'Old B', era: 'Era' },
+  ],
+  summary: { added: 1, renamed: 1 } as TrackerDiff['summary'],
+};
+
+describe('TrackerWebhooks delivery', () => {
+  it('signs each payload with the subscription secret', async () => {
+    const { subscription } = await register('signing', { url: receiver('/signed'), secret: 'a-secret-of-16-chars' });
+
+    const [delivery] = await TrackerWebhooks.dispatch('signing', 'Artist', diff);
+
+    expect(delivery.status).toBe('delivered');
+    const [request] = received;
+    const timestamp = request.headers['x-trackerparse-timestamp'] as string;
+    const signature = request.headers['x-trackerparse-signature'] as string;
+    expect(request.headers['x-trackerparse-event']).toBe('tracker.changed');
+    expect(request.headers['x-trackerparse-delivery']).toBe(delivery.id);
+    expect(TrackerWebhooks.verifySignature(subscription.secret, signature, timestamp, request.body)).toBe(true);
+    expect(TrackerWebhooks.verifySignature('another-secret-16ch', signature, timestamp, request.body)).toBe(false);
+    expect(TrackerWebhooks.verifySignature(subscription.secret, signature, timestamp, request.body.replace('Song A', 'Song Z'))).toBe(false);
+
+    // Only subscribed change types are sent
+    const payload = JSON.parse(request.body);
+    expect(payload.changes.map((change: { trackId: string }) => change.trackId)).toEqual(['song-a']);
+  });
+
+  it('retries server errors until the receiver accepts', async () => {
+    await register('retries', { url: receiver('/flaky') });
+    responses['/flaky'] = [503, 500];
+
+    const [delivery] = await TrackerWebhooks.dispatch('retries', 'Artist', diff);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map(attempt => attempt.status)).toEqual([503, 500, 204]);
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map(request => request.headers['x-trackerparse-delivery'])).size).toBe(1);
+  });
+
+  it('gives up after the last retry and does not retry client errors', async () => {
+    const { subscription: down } = await register('giving-up', { url: receiver('/down') });
+    const { subscription: gone } = await register('giving-up', { url: receiver('/gone') });
+    responses['/down'] = [503, 503, 503];
+    responses['/gone'] = [410];
+
+    const deliveries = await TrackerWebhooks.dispatch('giving-up', 'Artist', diff);
+    const byWebhook = Object.fromEntries(deliveries.map(delivery => [delivery.webhookId, delivery]));
+
+    expect(byWebhook[down.id]).toMatchObject({ status: 'failed' });
+    expect(byWebhook[down.id].attempts).toHaveLength(3);
+    expect(byWebhook[gone.id]).toMatchObject({ status: 'failed' });
+    expect(byWebhook[gone.id].attempts.map(attempt => attempt.status)).toEqual([410]);
+  });
+
+  it('logs every delivery, newest first', async () => {
+    const { subscription: first } = await register('log', { url: receiver('/first') });
+    const { subscription: second } = await register('log', { url: receiver('/second') });
+
+    await TrackerWebhooks.dispatch('log', 'Artist', diff);
+    await TrackerWebhooks.sendTest('log', first.id);
+
+    const deliveries = await TrackerWebhooks.getDeliveries('log');
+    expect(deliveries).toHaveLength(3);
+    expect(deliveries[0]).toMatchObject({ webhookId: first.id, event: 'ping' });
+    expect((await TrackerWebhooks.getDeliveries('log', second.id)).map(delivery => delivery.event)).toEqual(['tracker.changed']);
+  });
+
+  it('reaches webhooks of the document from a parse of one of its tabs', async () => {
+    await register('tabs', { url: receiver('/tabs') });
+
+    const deliveries = await TrackerWebhooks.dispatch('tabs_gid_123', 'Artist', diff);
+
+    expect(deliveries).toHaveLength(1);
+    expect(received.map(request => request.path)).toEqual(['/tabs']);
+  });
+
+  it('keeps every subscription when registrations overlap', async () => {
+    const registered = await Promise.all(
+      Array.from({ length: 8 }, (_, i) => register('overlap', { url: receiver(`/hook-${i}`) }))
+    );
+    await Promise.all(registered.slice(0, 3).map(({ subscription }) => TrackerWebhooks.remove('overlap', subscription.id)));
+
+    const ids = (await TrackerWebhooks.list('overlap')).map(subscription => subscription.id);
+    expect(ids.sort()).toEqual(registered.slice(3).map(({ subscription }) => subscription.id).sort());
+    const files = await fs.readdir(path.join(directory, 'overlap'));
+    expect(files.filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+});
+
+describe('TrackerWebhooks storage', () => {
+  it('keeps a subscriptions file it cannot parse instead of overwriting it', async () => {
+    await fs.mkdir(path.join(directory, 'corrupt'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'corrupt', 'subscriptions.json'), '[{"id":');
+
+    await expect(TrackerWebhooks.list('corrupt')).rejects.toThrow(SyntaxError);
+    await expect(register('corrupt', { url: receiver('/corrupt') })).rejects.toThrow(SyntaxError);
+    expect(await fs.readFile(path.join(directory, 'corrupt', 'subscriptions.json'), 'utf-8')).toBe('[{"id":');
+  });
+
+  it('lists no webhooks for a tracker that has none', async () => {
+    expect(await TrackerWebhooks.list('never-registered')).toEqual([]);
+  });
+});
+
+describe('createFetchWebhookClient', () => {
+  const PUBLIC_ADDRESS = '203.0.113.30'; // stands in for the receiver; requests to it go to the local one
+
+  it('posts to the address it checked, even when DNS changes its answer', async () => {
+    const answers = [[PUBLIC_ADDRESS], ['127.0.0.1']];
+    const lookups: string[] = [];
+    const client = createFetchWebhookClient({
+      lookup: async hostname => {
+        lookups.push(hostname);
+        return answers.shift() || [];
+      },
+      fetcher: (url, init, address) => {
+        if (address !== PUBLIC_ADDRESS) throw new Error(`Connected to unchecked address ${address}`);
+        return fetchPinned(url, init, '127.0.0.1');
+      },
+    });
+
+    const result = await client.post(`http://hooks.test:${port}/pinned`, '{}', { 'Content-Type': 'application/json' });
+
+    expect(result.status).toBe(204);
+    expect(lookups).toEqual(['hooks.test']);
+    expect(received.map(request => request.path)).toEqual(['/pinned']);
+  });
+
+  it('refuses receivers that resolve to private addresses', async () => {
+    const client = createFetchWebhookClient({ lookup: async () => ['10.0.0.5'] });
+
+    await expect(client.post(`http://internal.test:${port}/private`, '{}', {})).rejects.toThrow(/private/i);
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('webhook routes', () => {
+  const discordUrl = 'https://discord.com/api/webhooks/123/secret-token';
+
+  it('never shows receiver URLs, secrets or key hashes after registration', async () => {
+    await register('redacted', { url: discordUrl, format: 'discord' });
+
+    const listed = await (await GET(new NextRequest('http://localhost/api/webhooks?docId=redacted'))).json();
+    expect(JSON.stringify(listed)).not.toContain('secret-token');
+    expect(listed.webhooks[0].url).toBe('https://discord.com/…');
+    expect(listed.webhooks[0].secret).toBeUndefined();
+    expect(listed.webhooks[0].managementKeyHash).toBeUndefined();
+    expect(redactWebhookUrl('https://example.com')).toBe('https://example.com');
+  });
+
+  it('refuses a URL already registered for the tracker, and more than 20 webhooks', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+    try {
+      const registerRequest = (url: string, docId = 'capped') => new NextRequest('http://localhost/api/webhooks', {
+        method: 'POST',
+        body: JSON.stringify({ docId, url }),
+      });
+
+      expect((await POST(registerRequest(receiver('/capped-0')))).status).toBe(201);
+      const duplicate = await POST(registerRequest(receiver('/capped-0'), 'capped_gid_7'));
+      expect(duplicate.status).toBe(409);
+      expect((await duplicate.json()).error).toMatch(/already registered/);
+
+      await Promise.all(Array.from({ length: 19 }, (_, i) => register('capped', { url: receiver(`/capped-${i + 1}`) })));
+      expect((await POST(registerRequest(receiver('/capped-20')))).status).toBe(409);
+      expect(await TrackerWebhooks.list('capped')).toHaveLength(20);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('requires the management key to delete or test a webhook', async () => {
+    const { subscription, managementKey } = await register('managed', { url: receiver('/managed') });
+    const deleteRequest = (key?: string) => new NextRequest(
+      `http://localhost/api/webhooks?docId=managed&id=${subscription.id}`,
+      { method: 'DELETE', headers: key ? { Authorization: `Bearer ${key}` } : {} }
+    );
+    const testRequest = (key?: string) => new NextRequest('http://localhost/api/webhooks/test', {
+      method: 'POST',
+      headers: key ? { Authorization: `Bearer ${key}` } : {},
+      body: JSON.stringify({ docId: 'managed', id: subscription.id }),
+    });
+
+    expect((await sendTest(testRequest())).status).toBe(401);
+    expect((await sendTest(testRequest('whmk_wrong'))).status).toBe(403);
+    expect(received).toHaveLength(0);
+
+    const tested = await sendTest(testRequest(managementKey));
+    expect(tested.status).toBe(200);
+    expect((await tested.json()).delivery.url).toBe(`http://127.0.0.1:${port}/…`);
+
+    const deliveries = await (await getDeliveries(new NextRequest('http://localhost/api/webhooks/deliveries?docId=managed'))).json();
+    expect(deliveries.deliveries[0].url).toBe(`http://127.0.0.1:${port}/…`);
+
+    expect((await DELETE(deleteRequest())).status).toBe(401);
+    expect((await DELETE(deleteRequest('whmk_wrong'))).status).toBe(403);
+    expect(await TrackerWebhooks.list('managed')).toHaveLength(1);
+
+    expect((await DELETE(deleteRequest(managementKey))).status).toBe(200);
+    expect(await TrackerWebhooks.list('managed')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import JSZip from 'jszip';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST as parseFile } from '@/app/api/parse-file/route';
+import { SheetParser } from '@/utils/sheetParser';
+import { UnifiedParser } from '@/utils/unifiedParser';
+import { WorkbookSheet, XlsxReader } from '@/utils/xlsxReader';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'formatted-tracker.xlsx');
+
+function readFixture(): ArrayBuffer {
+  const buffer = fs.readFileSync(FIXTURE);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+}
+
+describe('XlsxReader', () => {
+  let sheets: WorkbookSheet[];
+
+  beforeAll(async () => {
+    sheets = await XlsxReader.readWorkbook(readFixture());
+  });
+
+  it('reads hyperlink targets, fills, bold and strikethrough', () => {
+    const [sheet] = sheets;
+    expect(sheet.name).toBe('Unreleased');
+    expect(sheet.rows[2][8]).toBe('Pillowcase');
+    expect(sheet.formats[2][8].hyperlink).toBe('https://pillows.su/f/0123456789abcdef0123456789abcdef');
+    expect(sheet.formats[1][1]).toMatchObject({ background: 'FFD9D2E9', bold: true });
+    expect(sheet.formats[4][8].strike).toBe(true);
+  });
+});
+
+describe('XlsxReader limits', () => {
+  it('rejects workbooks that inflate past the size limit, whatever sizes they declare', async () => {
+    const zip = new JSZip();
+    zip.file('xl/worksheets/sheet1.xml', '0'.repeat(2 * 1024 * 1024));
+    const bomb = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+
+    expect(bomb.byteLength).toBeLessThan(64 * 1024);
+    await expect(XlsxReader.readWorkbook(bomb, { maxUncompressedBytes: 1024 * 1024 })).rejects.toThrow(/once unzipped/);
+  });
+
+  it('rejects too many sheets or rows', async () => {
+    await expect(XlsxReader.readWorkbook(readFixture(), { maxSheets: 0 })).rejects.toThrow(/sheets/);
+    await expect(XlsxReader.readWorkbook(readFixture(), { maxRows: 2 })).rejects.toThrow(/rows/);
+  });
+});
+
+describe('POST /api/parse-file', () => {
+  it('refuses uploads over 25 MB before reading them', async () => {
+    const request = new NextRequest('http://localhost/api/parse-file', {
+      method: 'POST',
+      headers: { 'Content-Type': 'multipart/form-data; boundary=x', 'Content-Length': String(26 * 1024 * 1024) },
+      body: '--x--',
+    });
+    const formData = vi.spyOn(request, 'formData');
+
+    expect((await parseFile(request)).status).toBe(413);
+    expect(formData).not.toHaveBeenCalled();
+  });
+
+  it('parses an uploaded workbook', async () => {
+    const form = new FormData();
+    form.append('file', new File([readFixture()], 'Artist Tracker.xlsx'));
+    const request = new NextRequest('http://localhost/api/parse-file', { method: 'POST', body: form });
+
+    const response = await parseFile(request);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).artist.albums.map((album: { name: string }) => album.name)).toEqual(['Era One', 'Era Two']);
+  });
+});
+
+describe('SheetParser with XLSX formatting', () => {
+  it('labels links from hyperlink text and marks struck-through links invalid', async () => {
+    const { artist } = await SheetParser.parseSheets(await XlsxReader.readWorkbook(readFixture()), 'Artist Tracker');
+    const [eraOne, eraTwo] = artist.albums;
+
+    expect(eraOne.tracks[0].links[0]).toMatchObject({
+      url: 'https://pillows.su/f/0123456789abcdef0123456789abcdef',
+      label: 'Pillowcase',
+      isValid: true,
+    });
+    expect(eraOne.tracks[2].links[0]).toMatchObject({ url: 'https://example.com/dead.mp3', isValid: false });
+    expect(eraTwo.tracks[0].links[0]).toMatchObject({ label: 'Download', platform: 'dropbox' });
+  });
+
+  it('starts eras at bold or differently filled rows, not at detail-less tracks sharing the era fill', async () => {
+    const { artist, report } = await SheetParser.parseSheets(await XlsxReader.readWorkbook(readFixture()), 'Artist Tracker');
+
+    expect(artist.albums.map(album => album.name)).toEqual(['Era One', 'Era Two']);
+    expect(artist.albums[0].alternateNames).toEqual(['Alt Era']);
+    expect(artist.albums[0].tracks.map(track => track.title.main)).toEqual(['Song A', 'Lost Song', 'Song B']);
+    expect(artist.albums[1].tracks.map(track => track.title.main)).toEqual(['Song C', 'Lost Two']);
+    expect(report.entries.filter(entry => entry.classification === 'era_header').map(entry => entry.rowIndex)).toEqual([1, 5]);
+  });
+});
+
+describe('UnifiedParser xlsx mode', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads a gid missing from the tab list as CSV instead of failing', async () => {
+    const csv = 'Era,Name,Notes,Track Length,File Date,Leak Date,Available Length,Quality,Link(s)\n' +
+      'Hidden Era,Hidden Song,,3:00,,,Full,CD Quality,https://example.com/hidden.mp3\n';
+    const get = vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.endsWith('/htmlview')) return { data: '<li id="sheet-button-0"><a href="#">Unreleased</a></li>' };
+      if (url.endsWith('/edit')) return { data: '<title>Artist Tracker - Google Sheets</title>' };
+      if (url.includes('format=xlsx')) return { data: readFixture() };
+      if (url.includes('format=csv')) return { data: csv };
+      throw new Error(`Unexpected request: ${url}`);
+    });
+
+    const artist = await UnifiedParser.parseGoogleDoc('https://docs.google.com/spreadsheets/d/doc123/edit#gid=555', { format: 'xlsx' });
+
+    expect(get).toHaveBeenCalledWith(expect.stringContaining('export?format=csv&gid=555'), expect.anything());
+    expect(artist.albums.flatMap(album => album.tracks.map(track => track.title.main))).toContain('Hidden Song');
+  });
+});
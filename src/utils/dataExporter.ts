@@ -1,4 +1,9 @@
-import { Artist, Track, Era } from '@/types';
+import { Artist, Track, Era, QualityTier, AvailabilityType } from '@/types';
+import { parseDuration, computeRuntime } from './duration';
+import { getTrackQuality, getTrackAvailability } from './qualityTaxonomy';
+import { PlayableSourceRegistry } from './playableSource';
+import { isDeadLink } from './linkHealth';
+import { escapeXml } from './xml';
 
 export interface TrackerExport {
   trackerName: string;
@@ -12,14 +17,57 @@ export interface TrackerExport {
     totalTracks: number;
     totalAlbums: number;
     exportVersion: string;
+    totalRuntimeSeconds?: number;
+    availableRuntimeSeconds?: number;
   };
 }
 
+export type PlaylistFormat = 'm3u8' | 'xspf' | 'pls';
+export type ExportFormat = 'json' | 'csv' | PlaylistFormat;
+
+// Binary workbooks, written on the server by SpreadsheetExporter
+export type SpreadsheetFormat = 'xlsx' | 'ods';
+// SQLite database, written on the server by SQLiteExporter
+export type DatabaseFormat = 'sqlite';
+export type BinaryFormat = SpreadsheetFormat | DatabaseFormat;
+
+export const PLAYLIST_FORMATS: PlaylistFormat[] = ['m3u8', 'xspf', 'pls'];
+export const SPREADSHEET_FORMATS: SpreadsheetFormat[] = ['xlsx', 'ods'];
+export const BINARY_FORMATS: BinaryFormat[] = [...SPREADSHEET_FORMATS, 'sqlite'];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat | BinaryFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  m3u8: 'audio/x-mpegurl',
+  xspf: 'application/xspf+xml',
+  pls: 'audio/x-scpls',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  sqlite: 'application/vnd.sqlite3',
+};
+
+// Which tracks go into a playlist; every filter left out matches everything
+export interface ExportSelection {
+  eraId?: string;
+  trackIds?: string[];
+  qualities?: QualityTier[];
+  availabilities?: AvailabilityType[];
+}
+
 export interface ExportOptions {
-  format: 'json' | 'csv';
+  format: ExportFormat;
   includeMetadata?: boolean;
   flattenTracks?: boolean; // For CSV export
   selectedFields?: string[]; // For custom field selection
+  selection?: ExportSelection; // For playlist export
+}
+
+export interface PlaylistEntry {
+  title: string; // TrackTitle.main plus features
+  url: string; // direct media URL
+  durationSeconds: number | null;
+  era: string;
+  trackId: string;
 }
 
 export interface CSVTrackRow {
@@ -33,7 +81,12 @@ export interface CSVTrackRow {
   fileDate: string;
   leakDate: string;
   availableLength: string;
+  trackLengthSeconds: number | null;
+  availableSeconds: number | null;
+  percentAvailable: number | null; // partials and snippets only
   quality: string;
+  qualityTier: QualityTier;
+  availability: AvailabilityType;
   links: string; // JSON string of links
   isSpecial: boolean;
   specialType: string;
@@ -41,6 +94,7 @@ export interface CSVTrackRow {
   collaborators: string; // Comma-separated
   producers: string; // Comma-separated
   references: string; // Comma-separated
+  interpolations: string; // Comma-separated
   alternateNames: string; // Comma-separated
 }
 
@@ -53,6 +107,7 @@ export class DataExporter {
     sourceUrl: string,
     options: ExportOptions = { format: 'json' }
   ): string {
+    const runtime = computeRuntime(artist.albums.flatMap(album => album.tracks));
     const exportData: TrackerExport = {
       trackerName: artist.name,
       docId,
@@ -64,7 +119,9 @@ export class DataExporter {
       metadata: {
         totalTracks: artist.albums.reduce((sum, album) => sum + album.tracks.length, 0),
         totalAlbums: artist.albums.length,
-        exportVersion: '2.1'
+        exportVersion: '2.1',
+        totalRuntimeSeconds: runtime.totalSeconds,
+        availableRuntimeSeconds: runtime.availableSeconds
       }
     };
 
@@ -78,6 +135,37 @@ export class DataExporter {
     return JSON.stringify(exportData, null, 2);
   }
 
+  // One flattened track, as written to CSV and the SQLite tracks table
+  static toCSVRow(trackerName: string, era: Era, track: Track): CSVTrackRow {
+    return {
+      trackerName,
+      era: era.name,
+      trackId: track.id,
+      trackName: track.title.main,
+      rawName: track.rawName,
+      notes: track.notes || '',
+      trackLength: track.trackLength || '',
+      fileDate: track.fileDate || '',
+      leakDate: track.leakDate || '',
+      availableLength: track.availableLength || '',
+      trackLengthSeconds: track.trackLengthSeconds ?? parseDuration(track.trackLength),
+      availableSeconds: track.availableSeconds ?? null,
+      percentAvailable: track.percentAvailable ?? null,
+      quality: track.quality || '',
+      qualityTier: getTrackQuality(track),
+      availability: getTrackAvailability(track),
+      links: JSON.stringify(track.links || []),
+      isSpecial: track.isSpecial || false,
+      specialType: track.specialType || '',
+      features: track.title.features?.join(', ') || '',
+      collaborators: track.title.collaborators?.join(', ') || '',
+      producers: track.title.producers?.join(', ') || '',
+      references: track.title.references?.join(', ') || '',
+      interpolations: track.title.interpolations?.join(', ') || '',
+      alternateNames: track.title.alternateNames?.join(', ') || ''
+    };
+  }
+
   // Export artist data to CSV
   static exportToCSV(
     artist: Artist,
@@ -89,28 +177,7 @@ export class DataExporter {
     // Flatten all tracks across eras
     artist.albums.forEach((era: Era) => {
       era.tracks.forEach((track: Track) => {
-        const csvRow: CSVTrackRow = {
-          trackerName: artist.name,
-          era: era.name,
-          trackId: track.id,
-          trackName: track.title.main,
-          rawName: track.rawName,
-          notes: track.notes || '',
-          trackLength: track.trackLength || '',
-          fileDate: track.fileDate || '',
-          leakDate: track.leakDate || '',
-          availableLength: track.availableLength || '',
-          quality: track.quality || '',
-          links: JSON.stringify(track.links || []),
-          isSpecial: track.isSpecial || false,
-          specialType: track.specialType || '',
-          features: track.title.features?.join(', ') || '',
-          collaborators: track.title.collaborators?.join(', ') || '',
-          producers: track.title.producers?.join(', ') || '',
-          references: track.title.references?.join(', ') || '',
-          alternateNames: track.title.alternateNames?.join(', ') || ''
-        };
-        tracks.push(csvRow);
+        tracks.push(this.toCSVRow(artist.name, era, track));
       });
     });
 
@@ -122,7 +189,7 @@ export class DataExporter {
         headers.map(header => {
           const value = track[header as keyof CSVTrackRow];
           // Escape quotes and wrap in quotes if contains comma or quotes
-          const stringValue = String(value || '');
+          const stringValue = typeof value === 'number' ? String(value) : String(value || '');
           if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
             return `"${stringValue.replace(/"/g, '""')}"`;
           }
@@ -134,21 +201,132 @@ export class DataExporter {
     return csvContent;
   }
 
+  // Playlist title: main title plus features, as players show it
+  static getPlaylistTitle(track: Track): string {
+    const features = track.title.features || [];
+    const title = features.length > 0 ? `${track.title.main} (feat. ${features.join(', ')})` : track.title.main;
+    // Playlist formats are line based
+    return title.replace(/[\r\n]+/g, ' ').trim();
+  }
+
+  // Selected tracks that resolve to a directly playable audio URL, in tracker order
+  static getPlaylistEntries(artist: Artist, selection: ExportSelection = {}): PlaylistEntry[] {
+    const trackIds = selection.trackIds && selection.trackIds.length > 0 ? new Set(selection.trackIds) : null;
+    const entries: PlaylistEntry[] = [];
+
+    artist.albums.forEach((era: Era) => {
+      if (selection.eraId && era.id !== selection.eraId) return;
+      era.tracks.forEach((track: Track) => {
+        if (trackIds && !trackIds.has(track.id)) return;
+        if (selection.qualities?.length && !selection.qualities.includes(getTrackQuality(track))) return;
+        if (selection.availabilities?.length && !selection.availabilities.includes(getTrackAvailability(track))) return;
+
+        // Struck-through links and links the health check found dead would only stall the player,
+        // so the next playable link is used instead
+        const source = PlayableSourceRegistry.resolveAll(track).find(
+          candidate => candidate.kind === 'audio' && candidate.link.isValid !== false && !isDeadLink(candidate.link)
+        );
+        if (!source) return;
+
+        entries.push({
+          title: this.getPlaylistTitle(track),
+          url: source.url,
+          durationSeconds: track.trackLengthSeconds ?? parseDuration(track.trackLength),
+          era: era.name,
+          trackId: track.id,
+        });
+      });
+    });
+
+    return entries;
+  }
+
+  // Export playable tracks as an extended M3U playlist (UTF-8)
+  static exportToM3U8(artist: Artist, selection: ExportSelection = {}): string {
+    const lines = ['#EXTM3U', `#PLAYLIST:${artist.name}`];
+    this.getPlaylistEntries(artist, selection).forEach(entry => {
+      lines.push(`#EXTINF:${entry.durationSeconds ?? -1},${artist.name} - ${entry.title}`);
+      lines.push(`#EXTALB:${entry.era}`);
+      lines.push(entry.url);
+    });
+    return lines.join('\n') + '\n';
+  }
+
+  // Export playable tracks as an XSPF playlist
+  static exportToXSPF(artist: Artist, selection: ExportSelection = {}): string {
+    const tracks = this.getPlaylistEntries(artist, selection).map(entry => [
+      '    <track>',
+      `      <location>${escapeXml(entry.url)}</location>`,
+      `      <title>${escapeXml(entry.title)}</title>`,
+      `      <creator>${escapeXml(artist.name)}</creator>`,
+      `      <album>${escapeXml(entry.era)}</album>`,
+      ...(entry.durationSeconds !== null ? [`      <duration>${entry.durationSeconds * 1000}</duration>`] : []),
+      '    </track>',
+    ].join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+      `  <title>${escapeXml(artist.name)}</title>`,
+      `  <creator>${escapeXml(artist.name)}</creator>`,
+      `  <date>${new Date().toISOString()}</date>`,
+      '  <trackList>',
+      ...tracks,
+      '  </trackList>',
+      '</playlist>',
+      '',
+    ].join('\n');
+  }
+
+  // Export playable tracks as a PLS playlist
+  static exportToPLS(artist: Artist, selection: ExportSelection = {}): string {
+    const entries = this.getPlaylistEntries(artist, selection);
+    const lines = ['[playlist]'];
+    entries.forEach((entry, index) => {
+      const number = index + 1;
+      lines.push(`File${number}=${entry.url}`);
+      lines.push(`Title${number}=${artist.name} - ${entry.title}`);
+      lines.push(`Length${number}=${entry.durationSeconds ?? -1}`);
+    });
+    lines.push(`NumberOfEntries=${entries.length}`, 'Version=2');
+    return lines.join('\n') + '\n';
+  }
+
+  // Export in any supported format
+  static exportContent(
+    artist: Artist,
+    docId: string,
+    sourceUrl: string,
+    options: ExportOptions
+  ): string {
+    switch (options.format) {
+      case 'json':
+        return this.exportToJSON(artist, docId, sourceUrl, options);
+      case 'csv':
+        return this.exportToCSV(artist, docId, options);
+      case 'm3u8':
+        return this.exportToM3U8(artist, options.selection);
+      case 'xspf':
+        return this.exportToXSPF(artist, options.selection);
+      case 'pls':
+        return this.exportToPLS(artist, options.selection);
+    }
+  }
+
   // Generate filename for export
-  static generateFilename(artistName: string, docId: string, format: 'json' | 'csv'): string {
+  static generateFilename(artistName: string, docId: string, format: ExportFormat | BinaryFormat): string {
     const sanitizedName = artistName.replace(/[^a-zA-Z0-9]/g, '_');
     const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
     return `${sanitizedName}_${docId}_${timestamp}.${format}`;
   }
 
   // Create downloadable blob
-  static createDownloadBlob(content: string, format: 'json' | 'csv'): Blob {
-    const mimeType = format === 'json' ? 'application/json' : 'text/csv';
-    return new Blob([content], { type: mimeType });
+  static createDownloadBlob(content: string, format: ExportFormat): Blob {
+    return new Blob([content], { type: EXPORT_MIME_TYPES[format] });
   }
 
   // Download file in browser
-  static downloadFile(content: string, filename: string, format: 'json' | 'csv'): void {
+  static downloadFile(content: string, filename: string, format: ExportFormat): void {
     const blob = this.createDownloadBlob(content, format);
     const url = URL.createObjectURL(blob);
     
@@ -168,16 +346,8 @@ export class DataExporter {
     sourceUrl: string,
     options: ExportOptions
   ): void {
-    let content: string;
-    let filename: string;
-
-    if (options.format === 'json') {
-      content = this.exportToJSON(artist, docId, sourceUrl, options);
-      filename = this.generateFilename(artist.name, docId, 'json');
-    } else {
-      content = this.exportToCSV(artist, docId, options);
-      filename = this.generateFilename(artist.name, docId, 'csv');
-    }
+    const content = this.exportContent(artist, docId, sourceUrl, options);
+    const filename = this.generateFilename(artist.name, docId, options.format);
 
     this.downloadFile(content, filename, options.format);
   }
@@ -189,6 +359,8 @@ export class DataExporter {
     specialTracks: number;
     tracksWithLinks: number;
     tracksWithoutLinks: number;
+    totalRuntimeSeconds: number;
+    availableRuntimeSeconds: number;
   } {
     const totalTracks = artist.albums.reduce((sum, album) => sum + album.tracks.length, 0);
     const specialTracks = artist.albums.reduce((sum, album) => 
@@ -198,12 +370,16 @@ export class DataExporter {
       sum + album.tracks.filter(track => track.links && track.links.length > 0).length, 0
     );
 
+    const runtime = computeRuntime(artist.albums.flatMap(album => album.tracks));
+
     return {
       totalTracks,
       totalEras: artist.albums.length,
       specialTracks,
       tracksWithLinks,
-      tracksWithoutLinks: totalTracks - tracksWithLinks
+      tracksWithoutLinks: totalTracks - tracksWithLinks,
+      totalRuntimeSeconds: runtime.totalSeconds,
+      availableRuntimeSeconds: runtime.availableSeconds
     };
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * Duration parsing and runtime totals for track length cells ("3:45", "1:02:10", "~2:30", "0:30 (snippet)")
+ */
+
+import { Track, EraRuntime } from '@/types';
+
+/**
+ * Parse a duration cell to seconds
+ * @param text Raw length text from the spreadsheet
+ * @returns Seconds, or null when the text holds no duration ("N/A", "?:??", "Unknown")
+ */
+export function parseDuration(text: string | undefined | null): number | null {
+  if (!text?.trim()) return null;
+
+  // Drop approximation markers and trailing notes: "~2:30", "0:30 (snippet)", "3:45 [edit]"
+  const value = text
+    .replace(/[([][^)\]]*[)\]]/g, ' ')
+    .replace(/^\s*(~|≈|c\.|approx\.?)\s*/i, '')
+    .trim();
+
+  // h:mm:ss or m:ss
+  const clock = value.match(/^(\d+):([0-5]?\d)(?::([0-5]\d))?(?:\.\d+)?\b/);
+  if (clock) {
+    const parts = [clock[1], clock[2], clock[3]].filter(part => part !== undefined).map(Number);
+    return parts.length === 3
+      ? parts[0] * 3600 + parts[1] * 60 + parts[2]
+      : parts[0] * 60 + parts[1];
+  }
+
+  // "3m 45s", "45s", "2 min"
+  const units = value.match(/^(?:(\d+)\s*h(?:ours?|rs?)?\s*)?(?:(\d+)\s*m(?:in(?:ute)?s?)?\s*)?(?:(\d+)\s*s(?:ec(?:ond)?s?)?)?$/i);
+  if (units && (units[1] || units[2] || units[3])) {
+    return Number(units[1] || 0) * 3600 + Number(units[2] || 0) * 60 + Number(units[3] || 0);
+  }
+
+  return null;
+}
+
+/**
+ * Format seconds as m:ss, or h:mm:ss from one hour up
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Format a long runtime for totals ("12h 04m", "41m 20s")
+ */
+export function formatRuntime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, '0')}m`
+    : `${minutes}m ${String(total % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Sum track lengths, playable seconds and percent-available over a list of tracks
+ */
+export function computeRuntime(tracks: Track[]): EraRuntime {
+  let totalSeconds = 0;
+  let availableSeconds = 0;
+  let tracksWithLength = 0;
+  const percentages: number[] = [];
+
+  for (const track of tracks) {
+    if (track.trackLengthSeconds !== undefined) {
+      totalSeconds += track.trackLengthSeconds;
+      tracksWithLength++;
+    }
+    if (track.availableSeconds !== undefined) {
+      availableSeconds += track.availableSeconds;
+    }
+    if (track.percentAvailable !== undefined) {
+      percentages.push(track.percentAvailable);
+    }
+  }
+
+  return {
+    totalSeconds,
+    availableSeconds,
+    tracksWithLength,
+    averagePercentAvailable: percentages.length > 0
+      ? Math.round((percentages.reduce((sum, value) => sum + value, 0) / percentages.length) * 10) / 10
+      : undefined,
+  };
+}
+
@@ -0,0 +1,145 @@
+import { LinkHealth, LinkHealthState, LinkHealthStore, LinkCheckOptions } from '@/types';
+import { fetchPinned, resolvePublicUrl } from './streamProxy';
+import { isFreshLinkHealth } from './linkHealth';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+// Status codes that mean the file is gone rather than temporarily unreachable
+const DEAD_STATUSES = [404, 410, 451];
+// Hosts that reject HEAD with these are retried with a one-byte GET
+const HEAD_FALLBACK_STATUSES = [400, 403, 405, 501];
+
+/**
+ * In-memory link health store, shared by every request handled by this server process
+ */
+export class MemoryLinkHealthStore implements LinkHealthStore {
+  private results = new Map<string, LinkHealth>();
+
+  async get(url: string): Promise<LinkHealth | undefined> {
+    return this.results.get(url);
+  }
+
+  async set(health: LinkHealth): Promise<void> {
+    this.results.set(health.url, health);
+  }
+}
+
+export const linkHealthStore = new MemoryLinkHealthStore();
+
+function classifyStatus(status: number): LinkHealthState {
+  if (status >= 200 && status < 400) return 'alive';
+  return DEAD_STATUSES.includes(status) ? 'dead' : 'error';
+}
+
+/**
+ * Request a link, following redirects by hand so every hop is checked for private addresses
+ */
+async function requestLink(url: string, method: 'HEAD' | 'GET', options: LinkCheckOptions): Promise<Response> {
+  const fetcher = options.fetcher || fetchPinned;
+  const headers: Record<string, string> = method === 'GET' ? { range: 'bytes=0-0' } : {};
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    // Connect to the address that was checked, so a second DNS answer can't point the request inside the network
+    const resolved = await resolvePublicUrl(target, options.lookup);
+    if ('problem' in resolved) throw new Error(resolved.problem.message);
+
+    const response = await fetcher(target.toString(), {
+      method,
+      headers,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    }, resolved.address);
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+      await response.body?.cancel();
+      target = new URL(location, target);
+      continue;
+    }
+    return response;
+  }
+}
+
+/**
+ * Check one link with HEAD, falling back to a one-byte GET for hosts that don't support HEAD
+ */
+export async function checkLink(url: string, options: LinkCheckOptions = {}): Promise<LinkHealth> {
+  const checkedAt = new Date().toISOString();
+
+  try {
+    let method: 'HEAD' | 'GET' = 'HEAD';
+    let response = await requestLink(url, method, options);
+    if (HEAD_FALLBACK_STATUSES.includes(response.status)) {
+      method = 'GET';
+      response = await requestLink(url, method, options);
+    }
+    // Only the headers matter
+    await response.body?.cancel();
+
+    return {
+      url,
+      state: classifyStatus(response.status),
+      httpStatus: response.status,
+      contentType: response.headers.get('content-type')?.split(';')[0].trim() || undefined,
+      method,
+      checkedAt,
+    };
+  } catch (error) {
+    return {
+      url,
+      state: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      checkedAt,
+    };
+  }
+}
+
+/**
+ * Check many links with limited concurrency, reusing fresh stored results
+ * Every result is saved to the store, keyed by URL
+ */
+export async function checkLinks(urls: string[], options: LinkCheckOptions = {}): Promise<Record<string, LinkHealth>> {
+  const store = options.store || linkHealthStore;
+  const results: Record<string, LinkHealth> = {};
+  const pending: string[] = [];
+
+  for (const url of Array.from(new Set(urls.filter(url => /^https?:\/\//i.test(url))))) {
+    const stored = await store.get(url);
+    if (stored && !options.force && isFreshLinkHealth(stored, options.maxAgeMs)) {
+      results[url] = stored;
+    } else {
+      pending.push(url);
+    }
+  }
+
+  console.log(`🔗 Checking ${pending.length} links (${Object.keys(results).length} cached)`);
+
+  const worker = async () => {
+    while (pending.length > 0) {
+      const url = pending.shift() as string;
+      const health = await checkLink(url, options);
+      await store.set(health);
+      results[url] = health;
+    }
+  };
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+  return results;
+}
+
+/**
+ * Stored results for the given links, without checking anything
+ */
+export async function getStoredLinkHealth(urls: string[], store: LinkHealthStore = linkHealthStore): Promise<Record<string, LinkHealth>> {
+  const results: Record<string, LinkHealth> = {};
+  for (const url of Array.from(new Set(urls))) {
+    const stored = await store.get(url);
+    if (stored) results[url] = stored;
+  }
+  return results;
+}
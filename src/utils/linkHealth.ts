@@ -0,0 +1,92 @@
+import { Album, Artist, Era, EraDeadLinkRate, LinkHealth, TrackLink, Track, TrackLinkStatus } from '@/types';
+
+export const LINK_HEALTH_MAX_AGE_MS = 6 * 60 * 60 * 1000; // checks are repeated after 6 hours
+
+/**
+ * Whether a stored check is recent enough to reuse
+ */
+export function isFreshLinkHealth(health: LinkHealth | undefined, maxAgeMs = LINK_HEALTH_MAX_AGE_MS): boolean {
+  return !!health && Date.now() - Date.parse(health.checkedAt) < maxAgeMs;
+}
+
+/**
+ * Whether a link was checked and found dead
+ */
+export function isDeadLink(link: TrackLink): boolean {
+  return link.health?.state === 'dead';
+}
+
+/**
+ * Link status of a track from its checked links, or null before any link was checked
+ */
+export function getTrackLinkStatus(track: Track): TrackLinkStatus | null {
+  const checked = (track.links || []).filter(link => link.health);
+  if (checked.length === 0) return null;
+
+  const dead = checked.filter(isDeadLink).length;
+  if (dead === 0) return 'alive';
+  return dead === track.links.length ? 'all_dead' : 'some_dead';
+}
+
+/**
+ * Copy of an era with link check results attached to every matching link
+ */
+export function applyLinkHealthToAlbum<T extends Era>(album: T, results: Record<string, LinkHealth>): T {
+  return {
+    ...album,
+    tracks: album.tracks.map(track => ({
+      ...track,
+      links: (track.links || []).map(link => (results[link.url] ? { ...link, health: results[link.url] } : link)),
+    })),
+  };
+}
+
+/**
+ * Copy of an artist with link check results attached to every matching link
+ */
+export function applyLinkHealth(artist: Artist, results: Record<string, LinkHealth>): Artist {
+  if (Object.keys(results).length === 0) return artist;
+  const applyToAlbums = (albums: Album[]) => albums.map(album => applyLinkHealthToAlbum(album, results));
+
+  return {
+    ...artist,
+    albums: applyToAlbums(artist.albums),
+    sections: artist.sections && Object.fromEntries(
+      Object.entries(artist.sections).map(([type, albums]) => [type, applyToAlbums(albums || [])])
+    ),
+  };
+}
+
+/**
+ * Every link URL in an artist's eras, deduplicated
+ */
+export function collectLinkUrls(albums: Era[]): string[] {
+  const urls = albums.flatMap(album => album.tracks.flatMap(track => (track.links || []).map(link => link.url)));
+  return Array.from(new Set(urls.filter(url => /^https?:\/\//i.test(url))));
+}
+
+/**
+ * Every link URL in an artist's eras and other tabs, deduplicated
+ */
+export function collectArtistLinkUrls(artist: Artist): string[] {
+  const sections = Object.values(artist.sections || {}).flatMap(albums => albums || []);
+  return collectLinkUrls([...artist.albums, ...sections]);
+}
+
+/**
+ * Share of checked links per era that are dead
+ */
+export function getDeadLinkRates(albums: Era[], results: Record<string, LinkHealth>): EraDeadLinkRate[] {
+  return albums
+    .map(album => {
+      const urls = collectLinkUrls([album]).filter(url => results[url]);
+      const dead = urls.filter(url => results[url].state === 'dead').length;
+      return {
+        era: album.name,
+        checked: urls.length,
+        dead,
+        rate: urls.length > 0 ? Math.round((dead / urls.length) * 1000) / 10 : 0,
+      };
+    })
+    .filter(rate => rate.checked > 0);
+}
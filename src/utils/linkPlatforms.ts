@@ -0,0 +1,146 @@
+import { LinkPlatform, LinkType } from '@/types';
+
+const AUDIO_EXTENSION = /\.(mp3|wav|m4a|aac|ogg|opus|flac)(?:[?#]|$)/i;
+
+/**
+ * Pillowcase links carry a 32 character hex file ID, either as /f/<id> or anywhere in the URL
+ */
+function getPillowcaseMediaUrl(url: string): string | null {
+  const match = url.match(/\/f\/([a-f0-9]{32})/i) || url.match(/([a-f0-9]{32})/i);
+  return match ? `https://api.pillows.su/api/download/${match[1]}.mp3` : null;
+}
+
+function getFrosteMediaUrl(url: string): string | null {
+  const base = url.split(/[?#]/)[0];
+  if (base.endsWith('/download')) return base;
+  return base.endsWith('/') ? `${base}download` : `${base}/download`;
+}
+
+/**
+ * Drive files (not folders) can be fetched through the uc download endpoint
+ */
+function getDriveMediaUrl(url: string): string | null {
+  const match = url.match(/\/file\/d\/([\w-]{10,})/) || url.match(/[?&]id=([\w-]{10,})/);
+  return match ? `https://drive.google.com/uc?export=download&id=${match[1]}` : null;
+}
+
+/**
+ * Dropbox serves the raw file instead of the preview page with raw=1
+ */
+function getDropboxMediaUrl(url: string): string | null {
+  if (/\/(home|folder)\b|\/scl\/fo\//.test(url)) return null;
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('dl');
+    parsed.searchParams.set('raw', '1');
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+function getDirectMediaUrl(url: string): string | null {
+  return AUDIO_EXTENSION.test(url) ? url : null;
+}
+
+/**
+ * Built-in platforms, checked in order; the first match wins
+ */
+export const DEFAULT_LINK_PLATFORMS: LinkPlatform[] = [
+  { id: 'pillowcase', name: 'Pillowcase', type: 'audio', match: /pillow(case)?s?\.(su|top)/i, playable: true, getMediaUrl: getPillowcaseMediaUrl },
+  { id: 'froste', name: 'froste.lol', type: 'audio', match: /music\.froste\.lol/i, playable: true, getMediaUrl: getFrosteMediaUrl },
+  { id: 'youtube', name: 'YouTube', type: 'video', match: /(youtube\.com|youtu\.be)/i, playable: false },
+  { id: 'soundcloud', name: 'SoundCloud', type: 'audio', match: /soundcloud\.com/i, playable: false },
+  { id: 'spotify', name: 'Spotify', type: 'stream', match: /spotify\.com/i, playable: false },
+  { id: 'apple-music', name: 'Apple Music', type: 'stream', match: /(apple\.com\/music|music\.apple\.com)/i, playable: false },
+  { id: 'tidal', name: 'Tidal', type: 'stream', match: /(^|[/.])tidal\.com/i, playable: false },
+  { id: 'bandcamp', name: 'Bandcamp', type: 'stream', match: /bandcamp\.com/i, playable: false },
+  { id: 'google-drive', name: 'Google Drive', type: 'download', match: /(drive|docs)\.google\.com\/(file|open|uc|drive)/i, playable: true, getMediaUrl: getDriveMediaUrl },
+  { id: 'dropbox', name: 'Dropbox', type: 'download', match: /dropbox(usercontent)?\.com/i, playable: true, getMediaUrl: getDropboxMediaUrl },
+  { id: 'mega', name: 'Mega', type: 'download', match: /mega\.(nz|co\.nz|io)/i, playable: false },
+  { id: 'krakenfiles', name: 'Krakenfiles', type: 'download', match: /krakenfiles\.com/i, playable: false },
+  { id: 'discord', name: 'Discord CDN', type: 'download', match: /(cdn\.discordapp\.com|media\.discordapp\.net)\/attachments\//i, playable: true, getMediaUrl: getDirectMediaUrl },
+  { id: 'imgur', name: 'imgur', type: 'web', match: /imgur\.com/i, playable: false },
+  { id: 'direct', name: 'Direct file', type: 'audio', match: AUDIO_EXTENSION, playable: true, getMediaUrl: getDirectMediaUrl },
+];
+
+/**
+ * Link platform registry
+ * New file hosts are supported by registering a platform instead of editing the parser or players
+ */
+export class LinkPlatformRegistry {
+  private static platforms: LinkPlatform[] = [...DEFAULT_LINK_PLATFORMS];
+
+  /**
+   * Register (or replace) a platform; new platforms are checked before the built-in ones
+   */
+  static register(platform: LinkPlatform): void {
+    this.platforms = [platform, ...this.platforms.filter(existing => existing.id !== platform.id)];
+  }
+
+  /**
+   * List all registered platforms in match order
+   */
+  static list(): LinkPlatform[] {
+    return [...this.platforms];
+  }
+
+  /**
+   * Find the platform hosting a URL
+   */
+  static resolve(url: string): LinkPlatform | null {
+    const cleanUrl = url?.trim();
+    if (!cleanUrl) return null;
+    return this.platforms.find(platform => platform.match.test(cleanUrl)) || null;
+  }
+
+  /**
+   * Direct media URL for in-browser playback, or null when the link can't be played directly
+   */
+  static getMediaUrl(url: string): string | null {
+    const platform = this.resolve(url);
+    if (!platform?.playable || !platform.getMediaUrl) return null;
+    return platform.getMediaUrl(url.trim());
+  }
+
+  /**
+   * Platform, link type, validity and playability for a URL
+   */
+  static categorize(url: string): { platform: string; type: LinkType; isValid: boolean; playable: boolean } {
+    const cleanUrl = url?.trim() || '';
+    const platform = this.resolve(cleanUrl);
+
+    return {
+      platform: platform?.id || 'unknown',
+      type: platform?.type || (cleanUrl ? 'web' : 'unknown'),
+      isValid: /^https?:\/\/.+/.test(cleanUrl),
+      playable: this.getMediaUrl(cleanUrl) !== null
+    };
+  }
+
+  /**
+   * Pull URLs out of free text ("Link: https://... (alt https://...)", one per line, comma separated, ...)
+   */
+  static extractUrls(text: string): string[] {
+    if (!text) return [];
+
+    const urls: string[] = [];
+    for (const match of text.matchAll(/(?:https?:\/\/|www\.)[^\s<>"'`,|]+/gi)) {
+      let url = match[0];
+
+      // Trailing punctuation belongs to the sentence, not the URL
+      url = url.replace(/[.,;:!?*]+$/, '');
+      while (/[)\]]$/.test(url)) {
+        const closer = url.slice(-1);
+        const opener = closer === ')' ? '(' : '[';
+        if (url.split(opener).length >= url.split(closer).length) break;
+        url = url.slice(0, -1);
+      }
+
+      if (url.toLowerCase().startsWith('www.')) url = `https://${url}`;
+      if (!urls.includes(url)) urls.push(url);
+    }
+
+    return urls;
+  }
+}
@@ -0,0 +1,140 @@
+import { Track, TrackLink, PlayableProvider, PlayableSource, QualityTier } from '@/types';
+import { LinkPlatformRegistry } from './linkPlatforms';
+import { normalizeQuality, compareQuality } from './qualityTaxonomy';
+
+// Playback order for hosts with a direct media URL; unlisted hosts come after these
+const MEDIA_PLATFORM_PRIORITY: Record<string, number> = {
+  pillowcase: 100,
+  froste: 90,
+  direct: 85,
+  discord: 80,
+  dropbox: 60,
+  'google-drive': 50,
+};
+
+/**
+ * Any link platform with a direct media URL plays in the audio player
+ */
+const mediaProvider: PlayableProvider = {
+  id: 'media',
+  kind: 'audio',
+  priority: 40,
+  resolve: (link) => {
+    const platform = LinkPlatformRegistry.resolve(link.url);
+    const mediaUrl = LinkPlatformRegistry.getMediaUrl(link.url);
+    if (!platform || !mediaUrl) return null;
+
+    const id = platform.id === 'pillowcase' ? mediaUrl.match(/([a-f0-9]{32})\.mp3$/i)?.[1] : undefined;
+    // Direct file links keep the "audio" type the players already know
+    return { url: mediaUrl, id, type: platform.id === 'direct' ? 'audio' : platform.id };
+  },
+};
+
+function urlProvider(id: string, kind: PlayableProvider['kind'], priority: number, pattern: RegExp): PlayableProvider {
+  return { id, kind, priority, resolve: (link) => (pattern.test(link.url) ? { url: link.url } : null) };
+}
+
+/**
+ * Built-in providers; media hosts are ranked by MEDIA_PLATFORM_PRIORITY on top of the provider priority
+ */
+export const DEFAULT_PLAYABLE_PROVIDERS: PlayableProvider[] = [
+  mediaProvider,
+  urlProvider('youtube', 'video', 30, /(youtube\.com|youtu\.be)/i),
+  urlProvider('soundcloud', 'embed', 25, /soundcloud\.com/i),
+  urlProvider('vimeo', 'video', 20, /vimeo\.com/i),
+  urlProvider('video', 'video', 20, /\.(mp4|webm|mov|mkv)(?:[?#]|$)/i),
+  urlProvider('twitch', 'video', 10, /twitch\.tv/i),
+  urlProvider('facebook', 'video', 10, /facebook\.com\/.*video/i),
+  urlProvider('dailymotion', 'video', 10, /dailymotion\.com/i),
+];
+
+/**
+ * Playable source registry shared by every player and track list
+ * New hosts are supported by registering a provider (or a link platform with a media URL), not by editing components
+ */
+export class PlayableSourceRegistry {
+  private static providers: PlayableProvider[] = [...DEFAULT_PLAYABLE_PROVIDERS];
+
+  /**
+   * Register (or replace) a provider
+   */
+  static register(provider: PlayableProvider): void {
+    this.providers = [...this.providers.filter(existing => existing.id !== provider.id), provider];
+  }
+
+  /**
+   * List all registered providers
+   */
+  static list(): PlayableProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Every playable source for a track, best first
+   * Ranked by validity, provider and host priority, then by the quality hinted in the link (FLAC over MP3)
+   */
+  static resolveAll(track: Track): PlayableSource[] {
+    const ranked: Array<{ source: PlayableSource; priority: number; index: number }> = [];
+    const providers = [...this.providers].sort((a, b) => b.priority - a.priority);
+
+    (track.links || []).forEach((rawLink, index) => {
+      const link: TrackLink = typeof rawLink === 'string' ? { url: rawLink } : rawLink;
+      if (!link?.url) return;
+
+      // First provider that resolves the link, highest priority first
+      for (const provider of providers) {
+        const resolved = provider.resolve(link);
+        if (!resolved) continue;
+
+        const type = resolved.type || provider.id;
+        ranked.push({
+          source: {
+            type,
+            kind: provider.kind,
+            url: resolved.url,
+            originalUrl: link.url,
+            id: resolved.id,
+            isVideo: provider.kind === 'video' || undefined,
+            link
+          },
+          priority: provider.priority + (provider === mediaProvider ? MEDIA_PLATFORM_PRIORITY[type] ?? 0 : 0),
+          index
+        });
+        break;
+      }
+    });
+
+    return ranked
+      .sort((a, b) =>
+        Number(b.source.link.isValid !== false) - Number(a.source.link.isValid !== false) ||
+        b.priority - a.priority ||
+        compareQuality(this.getLinkQuality(a.source.link), this.getLinkQuality(b.source.link)) ||
+        a.index - b.index
+      )
+      .map(entry => entry.source);
+  }
+
+  /**
+   * Best source for a player, falling back to opening the first link externally
+   */
+  static resolve(track: Track): PlayableSource | null {
+    const [best] = this.resolveAll(track);
+    if (best) return best;
+
+    const first = track.links?.[0];
+    if (!first) return null;
+    const link: TrackLink = typeof first === 'string' ? { url: first } : first;
+    return { type: 'other', kind: 'external', url: link.url, originalUrl: link.url, link };
+  }
+
+  /**
+   * Best source that plays in the audio player, or null
+   */
+  static resolveAudio(track: Track): PlayableSource | null {
+    return this.resolveAll(track).find(source => source.kind === 'audio') || null;
+  }
+
+  private static getLinkQuality(link: TrackLink): QualityTier {
+    return normalizeQuality(`${link.label || ''} ${link.url}`);
+  }
+}
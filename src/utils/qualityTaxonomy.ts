@@ -0,0 +1,247 @@
+/**
+ * Quality and availability taxonomy shared by the parser, era statistics, badges, filters and exports
+ */
+
+import { Track, EraMetadata, QualityTier, AvailabilityType, TrackerStatistics } from '@/types';
+
+/**
+ * Era statistics counter for each availability type
+ */
+export const AVAILABILITY_METADATA_FIELDS: Record<Exclude<AvailabilityType, 'unknown'>, keyof EraMetadata> = {
+  og: 'ogFiles',
+  full: 'fullFiles',
+  tagged: 'taggedFiles',
+  partial: 'partialFiles',
+  snippet: 'snippetFiles',
+  stem: 'stemBounceFiles',
+  unavailable: 'unavailableFiles',
+};
+
+export const QUALITY_TIER_LABELS: Record<QualityTier, string> = {
+  lossless: 'Lossless',
+  cd: 'CD Quality',
+  high: 'High Quality',
+  medium: 'Medium Quality',
+  low: 'Low Quality',
+  recording: 'Recording',
+  not_available: 'Not Available',
+  unknown: 'Unknown',
+};
+
+export const AVAILABILITY_LABELS: Record<AvailabilityType, string> = {
+  og: 'OG File',
+  full: 'Full',
+  tagged: 'Tagged',
+  partial: 'Partial',
+  snippet: 'Snippet',
+  stem: 'Stem Bounce',
+  unavailable: 'Unavailable',
+  unknown: 'Unknown',
+};
+
+// Quality badge colors: a tier, or the original-file badge for unrated OG files
+export type QualityBadge = QualityTier | 'og';
+
+/**
+ * Badge fill and text colors (Tailwind's 100 and 700 shades, as in QualityTag's light theme), for exports
+ */
+export const QUALITY_BADGE_COLORS: Record<QualityBadge, { fill: string; text: string }> = {
+  not_available: { fill: 'F3F4F6', text: '4B5563' },
+  low: { fill: 'FEE2E2', text: 'B91C1C' },
+  recording: { fill: 'FEE2E2', text: 'B91C1C' },
+  medium: { fill: 'FEF9C3', text: 'A16207' },
+  high: { fill: 'DCFCE7', text: '15803D' },
+  cd: { fill: 'DCFCE7', text: '15803D' },
+  lossless: { fill: 'DBEAFE', text: '1D4ED8' },
+  unknown: { fill: 'F3F4F6', text: '374151' },
+  og: { fill: 'F3E8FF', text: '7E22CE' },
+};
+
+// Best first; used for sorting versions of a song
+const QUALITY_RANK: QualityTier[] = ['lossless', 'cd', 'high', 'medium', 'low', 'recording', 'unknown', 'not_available'];
+
+/**
+ * Normalize a Quality cell ("CD Quality", "HQ", "Lossless", "Not Available", ...)
+ */
+export function normalizeQuality(text: string | undefined | null): QualityTier {
+  const lower = text?.toLowerCase().trim() || '';
+  if (!lower) return 'unknown';
+
+  if (/not available|unavailable|\bn\/a\b/.test(lower)) return 'not_available';
+  if (/lossless|\bflac\b|\bwav\b|\balac\b/.test(lower)) return 'lossless';
+  if (/\bcd\s*q(uality)?\b|\bcdq\b/.test(lower)) return 'cd';
+  if (/high\s*quality|\bhq\b|\b320(\s*kbps|k)?\b/.test(lower)) return 'high';
+  if (/medium\s*quality|\bmq\b/.test(lower)) return 'medium';
+  if (/low\s*quality|\blq\b/.test(lower)) return 'low';
+  if (/recording|\brec\b|\bmic\b/.test(lower)) return 'recording';
+
+  return 'unknown';
+}
+
+/**
+ * Normalize an availability label ("OG File", "Full", "Snippet", "12 Stem Bounces", ...)
+ */
+export function normalizeAvailabilityLabel(text: string | undefined | null): AvailabilityType {
+  const lower = text?.toLowerCase() || '';
+  if (!lower.trim()) return 'unknown';
+
+  if (/\bog\b/.test(lower)) return 'og';
+  if (lower.includes('stem') || lower.includes('bounce')) return 'stem';
+  if (lower.includes('tagged')) return 'tagged';
+  if (lower.includes('partial')) return 'partial';
+  if (lower.includes('snippet')) return 'snippet';
+  if (lower.includes('unavailable') || lower.includes('not available')) return 'unavailable';
+  if (lower.includes('full')) return 'full';
+
+  return 'unknown';
+}
+
+/**
+ * Availability of a track row
+ * Available Length decides; a "(snippet)" note on the length and the Quality cell are fallbacks
+ */
+export function normalizeAvailability(
+  availableLength: string | undefined | null,
+  quality?: string | null,
+  trackLength?: string | null
+): AvailabilityType {
+  const fromLength = normalizeAvailabilityLabel(availableLength);
+  if (fromLength !== 'unknown') return fromLength;
+
+  const lengthNote = trackLength?.match(/\(([^)]*)\)/)?.[1];
+  const fromNote = normalizeAvailabilityLabel(lengthNote);
+  if (fromNote === 'snippet' || fromNote === 'partial') return fromNote;
+
+  const fromQuality = normalizeAvailabilityLabel(quality);
+  if (fromQuality !== 'unknown') return fromQuality;
+
+  return normalizeQuality(quality) === 'not_available' ? 'unavailable' : 'unknown';
+}
+
+/**
+ * Normalized quality of a track, classifying on the fly for data parsed before tiers existed
+ */
+export function getTrackQuality(track: Track): QualityTier {
+  return track.qualityTier || normalizeQuality(track.quality);
+}
+
+/**
+ * Normalized availability of a track, classifying on the fly for data parsed before it existed
+ */
+export function getTrackAvailability(track: Track): AvailabilityType {
+  return track.availability || normalizeAvailability(track.availableLength, track.quality, track.trackLength);
+}
+
+/**
+ * Badge a quality cell is shown with: unavailable files are greyed out, unrated OG files get the OG badge
+ */
+export function getQualityBadge(quality: string, tier?: QualityTier, availability?: AvailabilityType): QualityBadge {
+  const qualityTier = tier || normalizeQuality(quality);
+  if (qualityTier === 'not_available' || availability === 'unavailable') return 'not_available';
+  if (qualityTier === 'unknown' && (availability === 'og' || normalizeAvailabilityLabel(quality) === 'og')) return 'og';
+  return qualityTier;
+}
+
+/**
+ * Whether a track belongs in the best-tracks view: marked special, complete, or lossless/CD quality
+ */
+export function isBestTrack(track: Track): boolean {
+  const availability = getTrackAvailability(track);
+  const quality = getTrackQuality(track);
+  return track.isSpecial ||
+    availability === 'og' ||
+    availability === 'full' ||
+    quality === 'lossless' ||
+    quality === 'cd';
+}
+
+/**
+ * Compare two quality tiers, better quality first
+ */
+export function compareQuality(a: QualityTier, b: QualityTier): number {
+  return QUALITY_RANK.indexOf(a) - QUALITY_RANK.indexOf(b);
+}
+
+// Most complete first; 'unknown' has no rank
+const AVAILABILITY_RANK: AvailabilityType[] = ['og', 'full', 'tagged', 'stem', 'partial', 'snippet', 'unavailable'];
+
+/**
+ * Compare two availabilities, most complete first; null when either is unknown
+ */
+export function compareAvailability(a: AvailabilityType, b: AvailabilityType): number | null {
+  if (a === 'unknown' || b === 'unknown') return null;
+  return AVAILABILITY_RANK.indexOf(a) - AVAILABILITY_RANK.indexOf(b);
+}
+
+/**
+ * Count tracks into era statistics buckets
+ */
+export function countAvailability(tracks: Track[]): EraMetadata {
+  const metadata: EraMetadata = {
+    ogFiles: 0,
+    fullFiles: 0,
+    taggedFiles: 0,
+    partialFiles: 0,
+    snippetFiles: 0,
+    stemBounceFiles: 0,
+    unavailableFiles: 0,
+  };
+
+  for (const track of tracks) {
+    const availability = getTrackAvailability(track);
+    if (availability !== 'unknown') {
+      metadata[AVAILABILITY_METADATA_FIELDS[availability]]++;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Tracker-wide statistics from normalized quality and availability
+ */
+export function summarizeTracks(tracks: Track[]): TrackerStatistics {
+  const availability = countAvailability(tracks);
+  const qualityCounts: Record<QualityTier, number> = {
+    lossless: 0, cd: 0, high: 0, medium: 0, low: 0, recording: 0, not_available: 0, unknown: 0,
+  };
+  let missingLinks = 0;
+
+  for (const track of tracks) {
+    qualityCounts[getTrackQuality(track)]++;
+    if (!track.links || track.links.length === 0) missingLinks++;
+  }
+
+  return {
+    links: {
+      total: tracks.reduce((sum, track) => sum + (track.links?.length || 0), 0),
+      missing: missingLinks,
+      sourcesNeeded: tracks.filter(track => /source\s*needed/i.test(track.notes || '')).length,
+      notAvailable: qualityCounts.not_available,
+    },
+    quality: {
+      lossless: qualityCounts.lossless,
+      cdQuality: qualityCounts.cd,
+      highQuality: qualityCounts.high,
+      mediumQuality: qualityCounts.medium,
+      lowQuality: qualityCounts.low,
+      recordings: qualityCounts.recording,
+      notAvailable: qualityCounts.not_available,
+    },
+    availability: {
+      totalFull: availability.ogFiles + availability.fullFiles + availability.taggedFiles + availability.stemBounceFiles,
+      ogFiles: availability.ogFiles,
+      stemBounces: availability.stemBounceFiles,
+      full: availability.fullFiles,
+      tagged: availability.taggedFiles,
+      partial: availability.partialFiles,
+      snippets: availability.snippetFiles,
+      unavailable: availability.unavailableFiles,
+    },
+    highlighted: {
+      bestOf: tracks.filter(track => track.specialType === '🏆').length,
+      special: tracks.filter(track => track.isSpecial).length,
+      wanted: tracks.filter(track => track.isWanted).length,
+    },
+  };
+}
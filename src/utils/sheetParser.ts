@@ -0,0 +1,1105 @@
+import Papa from 'papaparse';
+import { Artist, Album, Track, TrackTitle, TrackLink, TrackerProfile, SheetTab, SheetTabType, UpdateEntry, StatEntry, CellFormat, EraMetadata, EraMetadataMismatch, TrackerDate, AvailabilityType, LinkType, ParseReport, ParseReportSummary, ParseRowClassification } from '@/types';
+import { DEFAULT_PROFILE, TrackerProfileRegistry } from './trackerProfiles';
+import { parseTrackerDate } from './trackerDate';
+import { parseDuration, computeRuntime } from './duration';
+import { normalizeQuality, normalizeAvailability, normalizeAvailabilityLabel, AVAILABILITY_METADATA_FIELDS } from './qualityTaxonomy';
+import { LinkPlatformRegistry } from './linkPlatforms';
+
+export type EraHeaderInfo = Pick<Album, 'name' | 'alternateNames' | 'notes' | 'description' | 'year'>;
+
+export interface SheetData {
+  rows: string[][];
+  formats?: CellFormat[][]; // per-cell formatting, xlsx only
+}
+
+/**
+ * Tracker sheet parser: turns rows already in memory into an Artist
+ * Knows nothing about where rows come from; UnifiedParser fetches them from Google, uploads read them from files
+ */
+export class SheetParser {
+  /**
+   * Classify a tab by its name
+   */
+  static classifySheetTab(name: string): SheetTabType {
+    const lower = name.toLowerCase();
+
+    if (lower.includes('unreleased')) return 'unreleased';
+    if (/update|changelog|change log/.test(lower)) return 'updates';
+    if (lower.includes('stat')) return 'statistics';
+    if (lower.includes('best') || name.includes('🏆')) return 'best';
+    if (lower.includes('stem') || lower.includes('session')) return 'stems';
+    if (lower.includes('released') || lower.includes('discography')) return 'released';
+
+    return 'misc';
+  }
+
+  /**
+   * Summarize which tabs a parsed artist came with, for API responses
+   */
+  static getTabSummary(artist: Artist): { hasUpdatesPage: boolean; hasStatisticsPage: boolean; tabs: SheetTab[] } {
+    const tabs = artist.tabs || [];
+    return {
+      hasUpdatesPage: tabs.some(tab => tab.type === 'updates'),
+      hasStatisticsPage: tabs.some(tab => tab.type === 'statistics'),
+      tabs
+    };
+  }
+
+  // Artist names that contain a separator and must not be split
+  private static readonly UNSPLITTABLE_ARTISTS = [
+    'Tyler, The Creator',
+    'Earth, Wind & Fire',
+    'Crosby, Stills, Nash & Young',
+    'Simon & Garfunkel',
+    'Hall & Oates',
+    'Mumford & Sons',
+    'Florence + The Machine',
+    'Lil Nas X',
+    'Malcolm X',
+  ];
+
+  // Era statistics cell such as "1 OG File(s)\n42 Full\n1 Tagged..."
+  private static readonly ERA_STATS_PATTERN = /^\d+\s*(og|full|tagged|partial|snippet|stem|bounce|unavailable)/i;
+
+  // Rows searched on each side for a track row to compare an era header's fill with
+  private static readonly ERA_ROW_NEIGHBOUR_RANGE = 5;
+
+  // Credit keyword -> TrackTitle field; "with" only counts inside brackets
+  private static readonly CREDIT_PATTERN = /(?:^|\s|,)(feat\.?|ft\.?|featuring|prod\.?(?:\s+by)?|produced\s+by|ref\.?(?:\s+by)?|reference(?:\s+by)?|interpolates|interpolating|interp\.|with)\s+/gi;
+
+  /**
+   * Parse track title to extract credits, alternate names and metadata
+   * Credits may sit anywhere in the title: "Song (feat. X) [prod. Y & Z]", "Song (with X) (Alt Name)"
+   */
+  static parseTrackTitle(rawTitle: string): TrackTitle {
+    if (!rawTitle) {
+      return {
+        main: '',
+        isUnknown: false,
+        features: [],
+        collaborators: [],
+        producers: [],
+        references: [],
+        interpolations: [],
+        alternateNames: []
+      };
+    }
+
+    const title: TrackTitle = {
+      main: '',
+      isUnknown: rawTitle.includes('???'),
+      features: [],
+      collaborators: [],
+      producers: [],
+      references: [],
+      interpolations: [],
+      alternateNames: []
+    };
+
+    // Bracketed groups are either credits or alternate names; nested groups are read innermost first
+    const groupPattern = /\(([^()[\]]*)\)|\[([^()[\]]*)\]/g;
+    let cleanTitle = rawTitle.trim();
+    let previous: string;
+    do {
+      previous = cleanTitle;
+      cleanTitle = cleanTitle.replace(groupPattern, (group: string, paren?: string, bracket?: string) => {
+        const content = (paren ?? bracket ?? '').trim();
+        if (!content) return ' ';
+
+        if (!this.extractCredits(content, title, true)) {
+          if (!/^\d+$/.test(content)) {
+            title.alternateNames.push(content);
+          }
+        }
+        return ' ';
+      });
+    } while (cleanTitle !== previous);
+
+    // Unbracketed trailing credits: "Song feat. X prod. Y"
+    const trailing = cleanTitle.match(/\s(?:feat\.?|ft\.?|featuring|prod\.?|produced\s+by|ref\.)\s+.*$/i);
+    if (trailing && this.extractCredits(trailing[0], title, false)) {
+      cleanTitle = cleanTitle.slice(0, trailing.index);
+    }
+
+    title.main = cleanTitle
+      .replace(/[🎵🎶🎤🎧🔥💎⭐✨🏆]/g, '') // Remove emojis
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return title;
+  }
+
+  /**
+   * Add credits found in a title fragment to the title
+   * @param text Fragment like "feat. X & Y" or "feat. X, prod. Y"
+   * @param allowWith Whether "with X" counts as a credit (only inside brackets)
+   * @returns Whether the fragment was a credit
+   */
+  private static extractCredits(text: string, title: TrackTitle, allowWith: boolean): boolean {
+    const matches = Array.from(text.matchAll(this.CREDIT_PATTERN))
+      .filter(match => allowWith || !/^with$/i.test(match[1]));
+
+    // The fragment must start with a credit keyword
+    if (matches.length === 0 || text.slice(0, matches[0].index).trim() !== '') {
+      return false;
+    }
+
+    matches.forEach((match, i) => {
+      const start = (match.index ?? 0) + match[0].length;
+      const end = i + 1 < matches.length ? matches[i + 1].index : text.length;
+      const names = this.splitArtists(text.slice(start, end).replace(/\s*(?:[,;&+]|\band)\s*$/i, ''));
+      const keyword = match[1].toLowerCase();
+
+      if (/^(feat|ft)/.test(keyword)) {
+        title.features.push(...names);
+      } else if (/^(prod|produced)/.test(keyword)) {
+        title.producers.push(...names);
+      } else if (/^ref/.test(keyword)) {
+        title.references.push(...names);
+      } else if (/^interp/.test(keyword)) {
+        title.interpolations.push(...names);
+      } else {
+        title.collaborators.push(...names);
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Split an artist list on commas, "&", "and" lists and " x ", keeping known names like "Tyler, The Creator" whole
+   */
+  static splitArtists(text: string): string[] {
+    const protectedNames: string[] = [];
+    let value = text;
+
+    for (const name of this.UNSPLITTABLE_ARTISTS) {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      value = value.replace(new RegExp(escaped, 'gi'), found => {
+        protectedNames.push(found);
+        return `\u0000${protectedNames.length - 1}\u0000`;
+      });
+    }
+
+    // "and" only separates names in a comma list: "A, B and C"
+    const separator = value.includes(',')
+      ? /\s*,\s*(?:and\s+|&\s+)?|\s+&\s+|\s+and\s+|\s+x\s+|\s+×\s+/
+      : /\s+&\s+|\s+x\s+|\s+×\s+/;
+
+    return value
+      .split(separator)
+      .map(part => part.replace(/\u0000(\d+)\u0000/g, (_, index: string) => protectedNames[Number(index)]).trim())
+      .filter(part => part);
+  }
+
+  /**
+   * Parse track date from various formats, keeping precision and uncertainty
+   */
+  static parseTrackDate(dateString: string): TrackerDate | null {
+    return parseTrackerDate(dateString);
+  }
+
+  /**
+   * Normalized display value for a date cell: ISO for exact dates, original text otherwise
+   */
+  private static normalizeDateText(raw: string, parsed: TrackerDate | null): string {
+    return parsed && parsed.precision === 'day' && !parsed.isUncertain && !parsed.isRange
+      ? parsed.earliest
+      : raw;
+  }
+
+  /**
+   * Categorize links by platform
+   */
+  static categorizeLink(url: string): { platform: string; type: LinkType; isValid: boolean; playable: boolean } {
+    return LinkPlatformRegistry.categorize(url);
+  }
+
+  /**
+   * Links from a track row: the XLSX hyperlink, URLs in the links cell, then URLs mentioned in the notes
+   */
+  private static extractTrackLinks(linksText: string, notes: string, linksFormat?: CellFormat): TrackLink[] {
+    const links: TrackLink[] = [];
+    const addLink = (url: string, source: TrackLink['source'], label?: string) => {
+      if (links.some(link => link.url === url)) return;
+      const linkInfo = this.categorizeLink(url);
+      links.push({
+        url,
+        label,
+        type: linkInfo.type,
+        platform: linkInfo.platform,
+        // Strikethrough marks dead links
+        isValid: linkInfo.isValid && !(source === 'links' && linksFormat?.strike),
+        playable: linkInfo.playable,
+        source
+      });
+    };
+
+    if (linksFormat?.hyperlink) {
+      // XLSX hyperlink cell: the visible text is a label, not the URL
+      const label = linksText.trim();
+      addLink(linksFormat.hyperlink, 'links', label && label !== linksFormat.hyperlink ? label : undefined);
+    }
+    for (const url of LinkPlatformRegistry.extractUrls(linksText)) {
+      addLink(url, 'links');
+    }
+    for (const url of LinkPlatformRegistry.extractUrls(notes)) {
+      addLink(url, 'notes');
+    }
+
+    return links;
+  }
+
+  /**
+   * Find header row and create column mapping
+   */
+  static findHeaderRow(
+    rows: string[][],
+    profile: TrackerProfile = DEFAULT_PROFILE
+  ): { headerIndex: number; columnMap: Record<string, number> } {
+    const columnMap: Record<string, number> = {};
+    let headerIndex = -1;
+    const mappings = Object.entries(profile.columnMappings);
+
+    // Look for a row containing the profile's column aliases
+    for (let i = 0; i < Math.min(5, rows.length); i++) {
+      const row = rows[i];
+      const lowerRow = row.map(cell => cell?.toLowerCase().trim() || '');
+      
+      let matchCount = 0;
+      const tempMap: Record<string, number> = {};
+
+      lowerRow.forEach((cell, index) => {
+        if (!cell) return;
+        // First matching column key wins, so profile key order matters
+        const match = mappings.find(([, aliases]) => TrackerProfileRegistry.matchesAny(cell, aliases));
+        if (match) {
+          tempMap[match[0]] = index;
+          matchCount++;
+          console.log(`  -> Matched '${match[0]}' at index ${index}: "${cell}"`);
+        }
+      });
+
+      // If we found enough column matches, this is likely the header
+      if (matchCount >= 3) {
+        headerIndex = i;
+        Object.assign(columnMap, tempMap);
+        break;
+      }
+    }
+
+    return { headerIndex, columnMap };
+  }
+
+  /**
+   * Parse CSV data into structured format
+   */
+  static async parseCSVData(csvData: string): Promise<string[][]> {
+    return new Promise((resolve, reject) => {
+      Papa.parse(csvData, {
+        complete: (results) => {
+          if (results.errors.length > 0) {
+            console.warn('CSV parsing warnings:', results.errors);
+          }
+          resolve(results.data as string[][]);
+        },
+        error: (error: any) => reject(error),
+        skipEmptyLines: true
+      });
+    });
+  }
+
+
+  /**
+   * Artist name from a document or file title
+   */
+  static getArtistName(title: string): string {
+    return title.replace(/tracker/i, '').trim() || 'Unknown Artist';
+  }
+
+  /**
+   * Tab holding the main track list: the requested gid, else the Unreleased tab, else the first tab
+   */
+  static pickMainTab(tabs: SheetTab[], requestedGid: string | null): SheetTab {
+    return (requestedGid
+      ? tabs.find(tab => tab.gid === requestedGid)
+      : tabs.find(tab => tab.type === 'unreleased') || tabs[0]
+    ) || { gid: requestedGid || '0', name: '', type: 'unreleased' };
+  }
+
+  /**
+   * Parse sheets already in memory, such as an uploaded XLSX workbook or CSV file
+   */
+  static async parseSheets(
+    sheets: (SheetData & { name: string })[],
+    title: string
+  ): Promise<{ artist: Artist; report: ParseReport }> {
+    const tabs: SheetTab[] = sheets.map((sheet, index) => ({
+      gid: String(index),
+      name: sheet.name,
+      type: this.classifySheetTab(sheet.name),
+    }));
+
+    return this.parseTabs(this.getArtistName(title), null, tabs, this.pickMainTab(tabs, null), async tab => sheets[Number(tab.gid)]);
+  }
+
+  /**
+   * Build an artist from the main tab's track list plus every other tab
+   */
+  protected static async parseTabs(
+    artistName: string,
+    docId: string | null,
+    tabs: SheetTab[],
+    mainTab: SheetTab,
+    loadTab: (tab: SheetTab) => Promise<SheetData>
+  ): Promise<{ artist: Artist; report: ParseReport }> {
+    const { rows, formats } = await loadTab(mainTab);
+    const report: ParseReport = { tab: mainTab.name || undefined, profile: '', headerRowIndex: -1, columnMap: {}, entries: [] };
+    const albums = this.parseTrackRows(rows, docId, formats, report);
+
+    console.log(`Parsed ${albums.length} albums for artist: ${artistName}`);
+
+    const artist: Artist = {
+      name: artistName,
+      albums,
+      lastUpdated: new Date().toISOString()
+    };
+
+    if (tabs.length > 0) {
+      artist.tabs = tabs;
+      await this.parseOtherTabs(artist, docId, tabs.filter(tab => tab.gid !== mainTab.gid), loadTab);
+    }
+
+    return { artist, report };
+  }
+
+  /**
+   * Parse a track-list tab: pick profile, find header, build albums
+   */
+  private static parseTrackRows(
+    rows: string[][],
+    docId: string | null,
+    formats?: CellFormat[][],
+    report?: ParseReport
+  ): Album[] {
+    console.log('First 5 rows:', rows.slice(0, 5));
+
+    if (rows.length === 0) {
+      throw new Error('No data found in spreadsheet');
+    }
+
+    // Pick the tracker profile, then find header row and column mapping
+    const profile = TrackerProfileRegistry.resolve(docId, rows);
+    console.log(`Using tracker profile: ${profile.name}`);
+
+    const { headerIndex, columnMap } = this.findHeaderRow(rows, profile);
+    
+    console.log(`Header search results: headerIndex=${headerIndex}, columnMap=`, columnMap);
+    
+    if (headerIndex === -1) {
+      console.log('Header not found. First 10 rows for debugging:');
+      for (let i = 0; i < Math.min(10, rows.length); i++) {
+        console.log(`Row ${i}:`, rows[i]);
+      }
+      throw new Error('Could not find header row in spreadsheet');
+    }
+
+    console.log(`Found header at row ${headerIndex}:`, rows[headerIndex]);
+
+    if (report) {
+      report.profile = profile.name;
+      report.headerRowIndex = headerIndex;
+      report.columnMap = columnMap;
+      for (let i = 0; i <= headerIndex; i++) {
+        report.entries.push({
+          rowIndex: i,
+          classification: 'skipped',
+          reason: i === headerIndex ? 'Header row' : 'Above header row',
+          warnings: []
+        });
+      }
+    }
+
+    return this.parseSheetData(rows, columnMap, headerIndex + 1, profile, formats, report);
+  }
+
+  /**
+   * Parse the remaining tabs into updates, statistics and extra track sections
+   */
+  private static async parseOtherTabs(
+    artist: Artist,
+    docId: string | null,
+    tabs: SheetTab[],
+    loadTab: (tab: SheetTab) => Promise<SheetData>
+  ): Promise<void> {
+    for (const tab of tabs) {
+      if (tab.type === 'misc') continue;
+
+      try {
+        const { rows, formats } = await loadTab(tab);
+
+        if (tab.type === 'updates') {
+          artist.updates = [...(artist.updates || []), ...this.parseUpdatesRows(rows)];
+        } else if (tab.type === 'statistics') {
+          const existing = Array.isArray(artist.statistics) ? artist.statistics : [];
+          artist.statistics = [...existing, ...this.parseStatisticsRows(rows)];
+        } else {
+          const sections = artist.sections || {};
+          sections[tab.type] = [...(sections[tab.type] || []), ...this.parseTrackRows(rows, docId, formats)];
+          artist.sections = sections;
+        }
+
+        console.log(`Parsed tab "${tab.name}" as ${tab.type}`);
+      } catch (error) {
+        console.warn(`Could not parse tab "${tab.name}":`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Parse an Updates tab into update entries
+   * Handles both "date | description" rows and a date row followed by description rows
+   */
+  static parseUpdatesRows(rows: string[][]): UpdateEntry[] {
+    const datePattern = /^(\d{1,2}\/\d{1,2}\/\d{2,4}|\d{4}-\d{2}-\d{2}|[a-z]{3,9}\.?\s+\d{1,2}(st|nd|rd|th)?,?\s+\d{4})$/i;
+    const updates: UpdateEntry[] = [];
+    let currentDate = '';
+
+    for (const row of rows) {
+      const cells = row.map(cell => cell?.trim() || '').filter(cell => cell);
+      if (cells.length === 0) continue;
+
+      // Skip header rows
+      if (cells.every(cell => /^(date|update|updates|description|changes?|type)$/i.test(cell))) continue;
+
+      const dateCell = cells.find(cell => datePattern.test(cell));
+      if (dateCell) currentDate = dateCell;
+
+      const description = cells.filter(cell => cell !== dateCell).join(' ').trim();
+      if (!description) continue;
+
+      updates.push({
+        date: currentDate,
+        description,
+        type: this.classifyUpdate(description)
+      });
+    }
+
+    return updates;
+  }
+
+  /**
+   * Classify an update description
+   */
+  static classifyUpdate(description: string): UpdateEntry['type'] {
+    const lower = description.toLowerCase();
+
+    if (/\bleak/.test(lower)) return 'leak';
+    if (/\b(remov|delet)/.test(lower)) return 'removal';
+    if (/\b(add|new)/.test(lower)) return 'addition';
+
+    return 'update';
+  }
+
+  /**
+   * Parse a Statistics tab into label/value entries grouped by section heading
+   */
+  static parseStatisticsRows(rows: string[][]): StatEntry[] {
+    const numberPattern = /^\d[\d,]*(\.\d+)?%?$/;
+    const stats: StatEntry[] = [];
+    let section = 'general';
+
+    for (const row of rows) {
+      const cells = row.map(cell => cell?.trim() || '').filter(cell => cell);
+      if (cells.length === 0) continue;
+
+      const numberCell = cells.find(cell => numberPattern.test(cell));
+      const labelCell = cells.find(cell => !numberPattern.test(cell));
+
+      if (numberCell && labelCell) {
+        stats.push({ label: labelCell, value: parseFloat(numberCell.replace(/[,%]/g, '')), type: section });
+        continue;
+      }
+
+      // Single cell like "42 Full" or a section heading
+      const inlineMatch = cells.length === 1 ? cells[0].match(/^(\d[\d,]*)\s+(.+)$/) : null;
+      if (inlineMatch) {
+        stats.push({ label: inlineMatch[2], value: parseInt(inlineMatch[1].replace(/,/g, ''), 10), type: section });
+      } else if (labelCell && cells.length === 1) {
+        section = labelCell;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Parse an era header cell like "Era Name (aka Alt)\n(01/2015 - 05/2016)\nSub-era"
+   * Parenthesized dates become timeline notes, other parentheses become alternate names
+   */
+  static parseEraHeader(text: string, description: string = ''): EraHeaderInfo {
+    const lines = text.split('\n').map(line => line.trim()).filter(line => line);
+    const alternateNames: string[] = [];
+    const timeline: string[] = [];
+
+    const collectParentheses = (line: string): string => line.replace(/\(([^)]*)\)|\[([^\]]*)\]/g, (group: string, paren?: string, bracket?: string) => {
+      const content = (paren ?? bracket ?? '').trim();
+      if (/\b(19|20)\d{2}\b|\?\?/.test(content)) {
+        timeline.push(group.trim());
+      } else if (content) {
+        content
+          .replace(/^(aka|a\.k\.a\.?|also known as)\s+/i, '')
+          .split(/\s*(?:,|\/|\bor\b)\s*/i)
+          .map(name => name.trim())
+          .filter(name => name)
+          .forEach(name => alternateNames.push(name));
+      }
+      return '';
+    });
+
+    const name = collectParentheses(lines[0] || '').replace(/\s+/g, ' ').trim();
+    for (const line of lines.slice(1)) {
+      const rest = collectParentheses(line).trim();
+      if (rest) timeline.push(rest);
+    }
+
+    const yearMatch = timeline.join(' ').match(/\b(19|20)\d{2}\b/);
+
+    return {
+      name: name || lines[0] || '',
+      alternateNames: alternateNames.length > 0 ? alternateNames : undefined,
+      notes: timeline.join('\n'),
+      description: description.trim(),
+      year: yearMatch ? parseInt(yearMatch[0], 10) : undefined
+    };
+  }
+
+  /**
+   * Parse an era statistics cell like "1 OG File(s)\n42 Full\n1 Tagged..."
+   */
+  static parseEraStatistics(text: string): EraMetadata | null {
+    const metadata = this.createEmptyMetadata();
+    let found = false;
+
+    for (const line of text.split(/[\n,]/)) {
+      const match = line.trim().match(/^(\d+)\s*(.+)$/);
+      if (!match) continue;
+
+      const availability = normalizeAvailabilityLabel(match[2]);
+      if (availability !== 'unknown') {
+        metadata[AVAILABILITY_METADATA_FIELDS[availability]] += parseInt(match[1], 10);
+        found = true;
+      }
+    }
+
+    return found ? metadata : null;
+  }
+
+  /**
+   * Compare the tracker's reported era counts against the parsed ones
+   */
+  static compareEraMetadata(reported: EraMetadata, computed: EraMetadata): EraMetadataMismatch[] {
+    return Object.values(AVAILABILITY_METADATA_FIELDS)
+      .filter(field => (reported[field] || 0) !== (computed[field] || 0))
+      .map(field => ({ field, reported: reported[field] || 0, computed: computed[field] || 0 }));
+  }
+
+  /**
+   * Track length in seconds plus how much of it is playable
+   * Complete files count their full length; partials and snippets count an Available Length duration when given
+   */
+  private static getTrackRuntime(
+    trackLength: string,
+    availableLength: string,
+    availability: AvailabilityType
+  ): Pick<Track, 'trackLengthSeconds' | 'availableSeconds' | 'percentAvailable'> {
+    const lengthDuration = parseDuration(trackLength);
+
+    // "0:30 (snippet)" gives the length of the snippet, not of the song
+    if (lengthDuration !== null && /\((?:[^)]*\b)?(snippet|partial)\b/i.test(trackLength)) {
+      return { trackLengthSeconds: undefined, availableSeconds: lengthDuration, percentAvailable: undefined };
+    }
+
+    const trackLengthSeconds = lengthDuration ?? undefined;
+    const availableDuration = parseDuration(availableLength);
+    const isIncomplete = availability === 'partial' || availability === 'snippet';
+
+    let availableSeconds: number | undefined;
+    if (availability === 'unavailable') {
+      availableSeconds = 0;
+    } else if (availableDuration !== null) {
+      availableSeconds = trackLengthSeconds !== undefined ? Math.min(availableDuration, trackLengthSeconds) : availableDuration;
+    } else if (availability !== 'unknown' && !isIncomplete) {
+      availableSeconds = trackLengthSeconds;
+    }
+
+    const isPartial = isIncomplete || (
+      availability !== 'unavailable' &&
+      availableSeconds !== undefined && trackLengthSeconds !== undefined && availableSeconds < trackLengthSeconds
+    );
+    const percentAvailable = isPartial && availableSeconds !== undefined && trackLengthSeconds
+      ? Math.round((availableSeconds / trackLengthSeconds) * 1000) / 10
+      : undefined;
+
+    return { trackLengthSeconds, availableSeconds, percentAvailable };
+  }
+
+  /**
+   * Recompute what a live parse derives from a track's cell text: quality tier, availability,
+   * runtime, missing structured dates and link platforms. Links marked invalid (struck through) stay invalid.
+   */
+  static deriveTrackFields(track: Track): Track {
+    const availability = normalizeAvailability(track.availableLength, track.quality, track.trackLength);
+
+    return {
+      ...track,
+      // Stored dates keep the original cell text; date cells hold ISO text once normalized
+      parsedFileDate: track.parsedFileDate ?? (this.parseTrackDate(track.fileDate) || undefined),
+      parsedLeakDate: track.parsedLeakDate ?? (this.parseTrackDate(track.leakDate) || undefined),
+      ...this.getTrackRuntime(track.trackLength, track.availableLength, availability),
+      qualityTier: normalizeQuality(track.quality),
+      availability,
+      links: track.links.map(link => {
+        const linkInfo = this.categorizeLink(link.url);
+        return {
+          ...link,
+          type: linkInfo.type,
+          platform: linkInfo.platform,
+          isValid: linkInfo.isValid && link.isValid !== false,
+          playable: linkInfo.playable,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Recompute derived era fields (track fields, runtime, computed statistics, IDs), keeping the tracker's own statistics
+   */
+  static deriveEraFields(albums: Album[]): Album[] {
+    const derived = albums.map(album => {
+      const tracks = album.tracks.map(track => this.deriveTrackFields(track));
+      const computed = this.createEmptyMetadata();
+      for (const track of tracks) {
+        if (track.availability && track.availability !== 'unknown') {
+          computed[AVAILABILITY_METADATA_FIELDS[track.availability]]++;
+        }
+      }
+
+      // Eras with their own statistics were exported with computedMetadata next to them
+      const reported = album.computedMetadata ? album.metadata : null;
+      return {
+        ...album,
+        tracks,
+        runtime: computeRuntime(tracks),
+        metadata: reported || computed,
+        computedMetadata: reported ? computed : undefined,
+        metadataMismatches: reported ? this.compareEraMetadata(reported, computed) : undefined,
+      };
+    });
+
+    return this.assignEraIds(derived.filter(album => album.tracks.length > 0));
+  }
+
+  /**
+   * Data problems worth flagging on a parsed track row
+   */
+  private static getTrackWarnings(
+    track: Track,
+    cells: { trackLength: string; fileDate: string; leakDate: string; quality: string; linksText: string }
+  ): string[] {
+    const warnings: string[] = [];
+    const isPlaceholder = (value: string) => /^(n\/a|unknown|none|tbd|-+|\?+[:?]*)$/i.test(value.trim());
+
+    if (cells.trackLength.trim() && !isPlaceholder(cells.trackLength) && track.trackLengthSeconds === undefined && track.availableSeconds === undefined) {
+      warnings.push(`Unrecognized length "${cells.trackLength}"`);
+    }
+    if (cells.fileDate.trim() && !isPlaceholder(cells.fileDate) && !track.parsedFileDate) {
+      warnings.push(`Unrecognized file date "${cells.fileDate}"`);
+    }
+    if (cells.leakDate.trim() && !isPlaceholder(cells.leakDate) && !track.parsedLeakDate) {
+      warnings.push(`Unrecognized leak date "${cells.leakDate}"`);
+    }
+    if (cells.quality.trim() && track.qualityTier === 'unknown') {
+      warnings.push(`Unrecognized quality "${cells.quality}"`);
+    }
+    if (track.availability === 'unknown') {
+      warnings.push('Availability unknown');
+    }
+    if (cells.linksText.trim() && !track.links.some(link => link.source === 'links')) {
+      warnings.push('Links cell has no usable URL');
+    } else if (track.links.length === 0 && track.availability !== 'unavailable' && track.availability !== 'unknown') {
+      warnings.push('No links for an available track');
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Count report entries by classification
+   */
+  static summarizeReport(report: ParseReport): ParseReportSummary {
+    const count = (classification: ParseRowClassification) =>
+      report.entries.filter(entry => entry.classification === classification).length;
+
+    return {
+      totalRows: report.entries.length,
+      tracks: count('track'),
+      eraHeaders: count('era_header'),
+      stats: count('stats'),
+      announcements: count('announcement'),
+      skipped: count('skipped'),
+      warnings: report.entries.reduce((sum, entry) => sum + entry.warnings.length, 0)
+    };
+  }
+
+  private static createEmptyMetadata(): EraMetadata {
+    return {
+      ogFiles: 0,
+      fullFiles: 0,
+      taggedFiles: 0,
+      partialFiles: 0,
+      snippetFiles: 0,
+      stemBounceFiles: 0,
+      unavailableFiles: 0
+    };
+  }
+
+  /**
+   * Whether a row is an era header marked by formatting (XLSX)
+   * A fill alone is not enough, since many trackers color every row of an era: the row also needs bold text,
+   * an era statistics cell, or a fill that differs from the nearest track rows
+   */
+  private static isFormattedEraRow(
+    rows: string[][],
+    formats: CellFormat[][],
+    index: number,
+    columnMap: Record<string, number>,
+    profile: TrackerProfile
+  ): boolean {
+    const eraIndex = columnMap['era'] || 0;
+    const nameIndex = columnMap['name'] || 1;
+    const detailColumns = ['trackLength', 'fileDate', 'leakDate', 'quality', 'links'];
+    const hasDetails = (row: string[] | undefined) =>
+      !!row && detailColumns.some(key => columnMap[key] !== undefined && row[columnMap[key]]?.trim());
+    const getFill = (rowFormats: CellFormat[] | undefined) =>
+      rowFormats?.[eraIndex]?.background || rowFormats?.[nameIndex]?.background;
+
+    const row = rows[index];
+    const rowFormats = formats[index];
+    const fill = getFill(rowFormats);
+    if (hasDetails(row) || !fill) return false;
+
+    if (rowFormats[eraIndex]?.bold || rowFormats[nameIndex]?.bold) return true;
+
+    const eraCol = row[eraIndex]?.trim() || '';
+    if (eraCol && (TrackerProfileRegistry.matchesAny(eraCol, profile.eraPatterns) || this.ERA_STATS_PATTERN.test(eraCol))) {
+      return true;
+    }
+
+    // Nearest track row above and below, within a few rows
+    const neighbourFills: (string | undefined)[] = [];
+    for (const step of [-1, 1]) {
+      for (let j = index + step, checked = 0; j >= 0 && j < rows.length && checked < this.ERA_ROW_NEIGHBOUR_RANGE; j += step, checked++) {
+        if (hasDetails(rows[j])) {
+          neighbourFills.push(getFill(formats[j]));
+          break;
+        }
+      }
+    }
+    return neighbourFills.some(neighbourFill => neighbourFill !== fill);
+  }
+
+  /**
+   * Parse sheet data into albums and tracks
+   */
+  private static parseSheetData(
+    rows: string[][],
+    columnMap: Record<string, number>,
+    startRow: number,
+    profile: TrackerProfile = DEFAULT_PROFILE,
+    formats?: CellFormat[][],
+    report?: ParseReport
+  ): Album[] {
+    console.log(`🔄 parseSheetData: Processing ${rows.length} rows starting from row ${startRow}`);
+    
+    const albums: Album[] = [];
+    const record = (
+      rowIndex: number,
+      classification: ParseRowClassification,
+      reason: string,
+      era?: string,
+      warnings: string[] = []
+    ) => {
+      report?.entries.push({ rowIndex, classification, reason, era: era || undefined, warnings });
+    };
+    let currentAlbum: Album | null = null;
+    let currentEraName = '';
+
+    // Era header details (aliases, timeline, description), keyed by era name
+    const eraInfo = new Map<string, EraHeaderInfo>();
+    const registerEra = (block: string, description: string = ''): string => {
+      const info = this.parseEraHeader(block, description);
+      const existing = eraInfo.get(info.name);
+      eraInfo.set(info.name, {
+        name: info.name,
+        alternateNames: info.alternateNames || existing?.alternateNames,
+        notes: info.notes || existing?.notes || '',
+        description: info.description || existing?.description || '',
+        year: info.year ?? existing?.year
+      });
+      return info.name;
+    };
+
+    // Era statistics cells reported by the tracker, keyed by era name
+    const eraStats = new Map<string, EraMetadata>();
+    let pendingEraStats: EraMetadata | null = null;
+    const recordEraStats = (eraName: string, text: string) => {
+      const stats = this.parseEraStatistics(text);
+      if (!stats) return;
+      if (eraName) {
+        eraStats.set(eraName, stats);
+      } else {
+        pendingEraStats = stats;
+      }
+    };
+    
+    // Find where data ends (statistics section)
+    let dataEndRow = rows.length;
+    for (let i = startRow; i < rows.length; i++) {
+      const firstCell = rows[i]?.[0]?.toLowerCase() || '';
+      // Look for the profile's footer/statistics keywords
+      if (firstCell && TrackerProfileRegistry.matchesAny(firstCell, profile.footerPatterns)) {
+        dataEndRow = i;
+        break;
+      }
+    }
+
+    // Process data rows
+    for (let i = startRow; i < dataEndRow; i++) {
+      const row = rows[i];
+      
+      if (!row || row.every(cell => !cell?.trim())) {
+        record(i, 'skipped', 'Empty row');
+        continue;
+      }
+
+      const eraCol = row[columnMap['era'] || 0]?.trim() || '';
+      const nameCol = row[columnMap['name'] || 1]?.trim() || '';
+      const notesCol = row[columnMap['notes'] || 2]?.trim() || '';
+
+      // XLSX: a highlighted row without track details is an era header
+      const rowFormats = formats?.[i];
+      if (formats && rowFormats && this.isFormattedEraRow(rows, formats, i, columnMap, profile)) {
+        const eraSource = eraCol && !TrackerProfileRegistry.matchesAny(eraCol, profile.eraPatterns) ? eraCol : nameCol;
+        if (eraSource.trim()) {
+          const eraName = registerEra(eraSource, eraSource === nameCol ? notesCol : '');
+          currentEraName = eraName;
+          if (eraSource !== eraCol) recordEraStats(eraName, eraCol);
+          record(i, 'era_header', 'Highlighted era row without track details', eraName);
+          continue;
+        }
+      }
+
+      // Skip obvious non-data rows (Discord messages, statistics, etc.)
+      if (eraCol && !nameCol) {
+        const lowerEra = eraCol.toLowerCase();
+        const isStats = TrackerProfileRegistry.matchesAny(eraCol, profile.eraPatterns) ||
+          this.ERA_STATS_PATTERN.test(eraCol);
+
+        // Era statistics pattern like "1 OG File(s)\n42 Full\n1 Tagged..."
+        if (isStats) {
+          // A standalone statistics cell belongs to the era being listed
+          recordEraStats(currentEraName, eraCol);
+          record(i, 'stats', 'Era statistics cell', currentEraName);
+          continue;
+        }
+
+        // Messages and announcements rather than an era (Discord links, etc.)
+        if (lowerEra.includes('discord') || lowerEra.includes('tracker') || lowerEra.includes('server') ||
+            lowerEra.includes('join') || eraCol.includes('http')) {
+          record(i, 'announcement', 'Era column holds a message or link');
+          continue;
+        }
+
+        // Era-only row: the era header block with its description
+        currentEraName = registerEra(eraCol, notesCol);
+        record(i, 'era_header', 'Era column without a track name', currentEraName);
+        continue;
+      }
+
+      // Also check for statistics in Era column even when Name column exists
+      if (eraCol && nameCol) {
+        // Check if Era column marks an era header row (statistics info)
+        if (TrackerProfileRegistry.matchesAny(eraCol, profile.eraPatterns)) {
+          // Name column holds the era header block, notes column its description
+          const eraName = registerEra(nameCol, notesCol);
+          recordEraStats(eraName, eraCol);
+          // Use the name as the new era instead
+          if (!currentEraName) {
+            currentEraName = eraName;
+          }
+          record(i, 'era_header', 'Era statistics with era name', eraName);
+          continue;
+        }
+      }
+
+      // Handle track rows
+      if (nameCol) {
+        // Determine the era for this track
+        let trackEra = currentEraName;
+        
+        if (eraCol) {
+          // This row has both era and name - update current era
+          currentEraName = registerEra(eraCol);
+          trackEra = currentEraName;
+        }
+        
+        // If we don't have an era yet, skip this track
+        if (!trackEra) {
+          record(i, 'skipped', 'Track row before any era');
+          continue;
+        }
+
+        // Find or create album for this era
+        if (!currentAlbum || currentAlbum.name !== trackEra) {
+          // Start new album
+          if (currentAlbum) {
+            albums.push(currentAlbum);
+          }
+          
+          currentAlbum = {
+            id: `album-${albums.length}`,
+            name: trackEra,
+            picture: '',
+            description: '',
+            tracks: [],
+            metadata: this.createEmptyMetadata(),
+            notes: ''
+          };
+
+          const info = eraInfo.get(trackEra);
+          if (info) {
+            currentAlbum.alternateNames = info.alternateNames;
+            currentAlbum.notes = info.notes;
+            currentAlbum.description = info.description;
+            currentAlbum.year = info.year;
+          }
+
+          if (pendingEraStats && !eraStats.has(trackEra)) {
+            eraStats.set(trackEra, pendingEraStats);
+          }
+          pendingEraStats = null;
+        }
+
+        const parsedTitle = this.parseTrackTitle(nameCol);
+        const notes = row[columnMap['notes'] || 2] || '';
+        const trackLength = row[columnMap['trackLength'] || 3] || '';
+        const fileDate = row[columnMap['fileDate'] || 4] || '';
+        const leakDate = row[columnMap['leakDate'] || 5] || '';
+        const parsedFileDate = this.parseTrackDate(fileDate);
+        const parsedLeakDate = this.parseTrackDate(leakDate);
+        const availableLength = row[columnMap['availableLength'] || 6] || '';
+        const quality = row[columnMap['quality'] || 7] || '';
+        const linksText = row[columnMap['links'] || 8] || '';
+        const linksFormat = rowFormats?.[columnMap['links'] || 8];
+        
+        const links = this.extractTrackLinks(linksText, notes, linksFormat);
+
+        const availability = normalizeAvailability(availableLength, quality, trackLength);
+        const runtime = this.getTrackRuntime(trackLength, availableLength, availability);
+
+        const track: Track = {
+          id: `${currentAlbum.name}-${nameCol}-${currentAlbum.tracks.length}`,
+          era: currentAlbum.name,
+          title: parsedTitle,
+          rawName: nameCol,
+          notes,
+          trackLength,
+          fileDate: this.normalizeDateText(fileDate, parsedFileDate),
+          leakDate: this.normalizeDateText(leakDate, parsedLeakDate),
+          parsedFileDate: parsedFileDate || undefined,
+          parsedLeakDate: parsedLeakDate || undefined,
+          availableLength,
+          ...runtime,
+          quality,
+          qualityTier: normalizeQuality(quality),
+          availability,
+          links,
+          isSpecial: nameCol.includes('⭐') || nameCol.includes('✨') || nameCol.includes('🏆'),
+          specialType: nameCol.includes('⭐') ? '⭐' : 
+                      nameCol.includes('✨') ? '✨' : 
+                      nameCol.includes('🏆') ? '🏆' : undefined,
+          isWanted: nameCol.includes('🥇') || nameCol.includes('🥈') || nameCol.includes('🥉'),
+          wantedType: nameCol.includes('🥇') ? '🥇' : 
+                     nameCol.includes('🥈') ? '🥈' : 
+                     nameCol.includes('🥉') ? '🥉' : undefined
+        };
+
+        currentAlbum.tracks.push(track);
+        
+        // Update computed metadata from the track's availability
+        if (availability !== 'unknown') {
+          currentAlbum.metadata[AVAILABILITY_METADATA_FIELDS[availability]]++;
+        }
+
+        record(i, 'track', eraCol ? 'Track row with era' : 'Track row', currentAlbum.name,
+          this.getTrackWarnings(track, { trackLength, fileDate, leakDate, quality, linksText }));
+        continue;
+      }
+
+      record(i, 'skipped', 'No era or track name');
+    }
+
+    // Rows below the footer are the tracker's statistics section
+    for (let i = dataEndRow; i < rows.length; i++) {
+      record(i, 'stats', i === dataEndRow ? 'Footer row starts the statistics section' : 'Below footer');
+    }
+
+    // Add the last album
+    if (currentAlbum) {
+      albums.push(currentAlbum);
+    }
+
+    // Prefer the tracker's own era statistics, keeping computed counts next to them
+    for (const album of albums) {
+      album.runtime = computeRuntime(album.tracks);
+
+      const reported = eraStats.get(album.name);
+      if (!reported) continue;
+
+      album.computedMetadata = album.metadata;
+      album.metadata = { ...reported };
+      album.metadataMismatches = this.compareEraMetadata(reported, album.computedMetadata);
+
+      if (album.metadataMismatches.length > 0) {
+        console.warn(`⚠️ Era statistics mismatch in ${album.name}:`, album.metadataMismatches);
+      }
+    }
+    
+    console.log(`🎯 Total albums parsed: ${albums.length}`);
+
+    return this.assignEraIds(albums.filter(album => album.tracks.length > 0));
+  }
+
+  /**
+   * Give each era an ID from its name, numbering repeats ("leftovers", "leftovers-2"),
+   * so IDs survive eras being added elsewhere in the tracker
+   */
+  private static assignEraIds(albums: Album[]): Album[] {
+    const seen = new Map<string, number>();
+
+    for (const album of albums) {
+      const slug = album.name
+        .normalize('NFKD')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'era';
+      const count = (seen.get(slug) || 0) + 1;
+      seen.set(slug, count);
+      album.id = count > 1 ? `${slug}-${count}` : slug;
+    }
+
+    return albums;
+  }
+}
@@ -0,0 +1,354 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { Artist, DatePrecision, Era, Track } from '@/types';
+import { SpreadsheetFormat } from './dataExporter';
+import { computeRuntime, parseDuration } from './duration';
+import { AVAILABILITY_LABELS, getQualityBadge, getTrackAvailability, getTrackQuality, QualityBadge, QUALITY_BADGE_COLORS } from './qualityTaxonomy';
+import { resolveTrackerDate } from './trackerDate';
+import { escapeXml } from './xml';
+
+const MAX_LINK_COLUMNS = 5;
+const MAX_SHEET_NAME_LENGTH = 31; // Excel's limit
+const HEADER_FILL = 'E5E7EB'; // gray-200
+const LINK_COLOR = '1D4ED8'; // blue-700
+
+type SheetCell =
+  | { type: 'text'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'date'; value: string; precision: Exclude<DatePrecision, 'season'> } // ISO date
+  | { type: 'duration'; seconds: number }
+  | { type: 'link'; text: string; url: string }
+  | { type: 'quality'; value: string; badge: QualityBadge }
+  | null;
+
+interface SheetColumn {
+  header: string;
+  width: number; // in characters
+}
+
+interface SheetModel {
+  name: string;
+  columns: SheetColumn[];
+  headerRow: number; // 0-based; rows up to and including it stay frozen
+  rows: SheetCell[][]; // including the header row
+}
+
+const DATE_FORMATS: Record<Exclude<DatePrecision, 'season'>, string> = {
+  day: 'yyyy-mm-dd',
+  month: 'mmm yyyy',
+  year: 'yyyy',
+};
+
+function text(value: string | undefined | null): SheetCell {
+  return value ? { type: 'text', value } : null;
+}
+
+function duration(seconds: number | null | undefined): SheetCell {
+  return seconds !== null && seconds !== undefined && seconds > 0 ? { type: 'duration', seconds } : null;
+}
+
+/**
+ * Dates known to a day, month or year become date cells; seasons, ranges and uncertain dates stay as written
+ */
+function date(parsed: Track['parsedFileDate'], raw: string): SheetCell {
+  const resolved = resolveTrackerDate(parsed, raw);
+  if (!resolved || resolved.isRange || resolved.isUncertain || resolved.precision === 'season') return text(raw);
+  return { type: 'date', value: resolved.earliest, precision: resolved.precision };
+}
+
+/**
+ * Unique worksheet name without the characters Excel rejects
+ */
+function getSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Era';
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function buildSummarySheet(artist: Artist, sourceUrl: string, name: string): SheetModel {
+  const columns: SheetColumn[] = [
+    { header: 'Era', width: 32 },
+    { header: 'Tracks', width: 8 },
+    { header: 'Runtime', width: 10 },
+    { header: 'Available', width: 10 },
+    ...(['og', 'full', 'tagged', 'partial', 'snippet', 'stem', 'unavailable'] as const)
+      .map(type => ({ header: AVAILABILITY_LABELS[type], width: 11 })),
+  ];
+
+  const eraRow = (label: string, tracks: Track[]): SheetCell[] => {
+    const runtime = computeRuntime(tracks);
+    const counts = new Map<string, number>();
+    for (const track of tracks) {
+      const availability = getTrackAvailability(track);
+      counts.set(availability, (counts.get(availability) || 0) + 1);
+    }
+    return [
+      { type: 'text', value: label },
+      { type: 'number', value: tracks.length },
+      duration(runtime.totalSeconds),
+      duration(runtime.availableSeconds),
+      ...(['og', 'full', 'tagged', 'partial', 'snippet', 'stem', 'unavailable'] as const)
+        .map((type): SheetCell => ({ type: 'number', value: counts.get(type) || 0 })),
+    ];
+  };
+
+  return {
+    name,
+    columns,
+    headerRow: 4,
+    rows: [
+      [{ type: 'text', value: 'Tracker' }, { type: 'text', value: artist.name }],
+      [{ type: 'text', value: 'Source' }, { type: 'link', text: sourceUrl, url: sourceUrl }],
+      [{ type: 'text', value: 'Exported' }, { type: 'date', value: new Date().toISOString().slice(0, 10), precision: 'day' }],
+      [],
+      columns.map(column => ({ type: 'text', value: column.header })),
+      ...artist.albums.map(era => eraRow(era.name, era.tracks)),
+      eraRow('Total', artist.albums.flatMap(era => era.tracks)),
+    ],
+  };
+}
+
+function buildEraSheet(era: Era, name: string): SheetModel {
+  const linkColumns = Math.min(MAX_LINK_COLUMNS, Math.max(1, ...era.tracks.map(track => track.links?.length || 0)));
+  const columns: SheetColumn[] = [
+    { header: 'Name', width: 36 },
+    { header: 'Features', width: 20 },
+    { header: 'Producers', width: 20 },
+    { header: 'Notes', width: 48 },
+    { header: 'Length', width: 9 },
+    { header: 'Available Length', width: 16 },
+    { header: 'Availability', width: 12 },
+    { header: 'Quality', width: 16 },
+    { header: 'File Date', width: 12 },
+    { header: 'Leak Date', width: 12 },
+    ...Array.from({ length: linkColumns }, (_, index) => ({ header: `Link ${index + 1}`, width: 24 })),
+  ];
+
+  const rows = era.tracks.map((track): SheetCell[] => {
+    const availability = getTrackAvailability(track);
+    const links = (track.links || []).slice(0, linkColumns);
+    return [
+      text(track.title.main),
+      text(track.title.features?.join(', ')),
+      text(track.title.producers?.join(', ')),
+      text(track.notes),
+      duration(track.trackLengthSeconds ?? parseDuration(track.trackLength)),
+      text(track.availableLength),
+      availability === 'unknown' ? null : { type: 'text', value: AVAILABILITY_LABELS[availability] },
+      track.quality
+        ? { type: 'quality', value: track.quality, badge: getQualityBadge(track.quality, getTrackQuality(track), availability) }
+        : null,
+      date(track.parsedFileDate, track.fileDate),
+      date(track.parsedLeakDate, track.leakDate),
+      ...links.map((link): SheetCell => ({ type: 'link', text: link.label || link.platform || link.url, url: link.url })),
+    ];
+  });
+
+  return {
+    name,
+    columns,
+    headerRow: 0,
+    rows: [columns.map(column => ({ type: 'text', value: column.header })), ...rows],
+  };
+}
+
+/**
+ * ODF time value for a duration, e.g. PT0H3M35S
+ */
+function toOdfDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `PT${Math.floor(rounded / 3600)}H${Math.floor((rounded % 3600) / 60)}M${rounded % 60}S`;
+}
+
+function toOdfParagraphs(value: string): string {
+  return value.split(/\r?\n/).map(line => `<text:p>${escapeXml(line)}</text:p>`).join('');
+}
+
+const ODF_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:config="urn:oasis:names:tc:opendocument:xmlns:config:1.0"',
+].join(' ');
+
+/**
+ * Spreadsheet exports of a parsed tracker: a summary sheet plus one sheet per era, with hyperlink,
+ * date and duration cells, quality colors matching QualityTag and frozen header rows
+ */
+export class SpreadsheetExporter {
+  /**
+   * Sheets shared by the XLSX and ODS writers
+   */
+  private static buildSheets(artist: Artist, sourceUrl: string): SheetModel[] {
+    const used = new Set<string>();
+    const summary = buildSummarySheet(artist, sourceUrl, getSheetName('Summary', used));
+    return [summary, ...artist.albums.map(era => buildEraSheet(era, getSheetName(era.name, used)))];
+  }
+
+  static async export(artist: Artist, sourceUrl: string, format: SpreadsheetFormat): Promise<Uint8Array> {
+    return format === 'ods' ? this.exportToODS(artist, sourceUrl) : this.exportToXLSX(artist, sourceUrl);
+  }
+
+  static async exportToXLSX(artist: Artist, sourceUrl: string): Promise<Uint8Array> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'TrackerParse';
+    workbook.created = new Date();
+
+    for (const sheet of this.buildSheets(artist, sourceUrl)) {
+      const worksheet = workbook.addWorksheet(sheet.name, {
+        views: [{ state: 'frozen', ySplit: sheet.headerRow + 1 }],
+      });
+      worksheet.columns = sheet.columns.map(column => ({ width: column.width }));
+
+      sheet.rows.forEach((cells, rowIndex) => {
+        const row = worksheet.getRow(rowIndex + 1);
+        cells.forEach((value, columnIndex) => {
+          if (!value) return;
+          const cell = row.getCell(columnIndex + 1);
+          switch (value.type) {
+            case 'text':
+            case 'number':
+              cell.value = value.value;
+              break;
+            case 'date':
+              cell.value = new Date(`${value.value}T00:00:00Z`);
+              cell.numFmt = DATE_FORMATS[value.precision];
+              break;
+            case 'duration':
+              // Excel stores times as fractions of a day
+              cell.value = value.seconds / 86400;
+              cell.numFmt = value.seconds >= 3600 ? '[h]:mm:ss' : '[m]:ss';
+              break;
+            case 'link':
+              cell.value = { text: value.text, hyperlink: value.url };
+              cell.font = { color: { argb: `FF${LINK_COLOR}` }, underline: true };
+              break;
+            case 'quality': {
+              const colors = QUALITY_BADGE_COLORS[value.badge];
+              cell.value = value.value;
+              cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${colors.fill}` } };
+              cell.font = { color: { argb: `FF${colors.text}` } };
+              break;
+            }
+          }
+        });
+      });
+
+      const header = worksheet.getRow(sheet.headerRow + 1);
+      header.font = { bold: true };
+      header.eachCell(cell => {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${HEADER_FILL}` } };
+      });
+      worksheet.autoFilter = {
+        from: { row: sheet.headerRow + 1, column: 1 },
+        to: { row: sheet.headerRow + 1, column: sheet.columns.length },
+      };
+    }
+
+    return new Uint8Array(await workbook.xlsx.writeBuffer());
+  }
+
+  static async exportToODS(artist: Artist, sourceUrl: string): Promise<Uint8Array> {
+    const sheets = this.buildSheets(artist, sourceUrl);
+    const widths = Array.from(new Set(sheets.flatMap(sheet => sheet.columns.map(column => column.width))));
+
+    const styles = [
+      '<number:date-style style:name="N_day"><number:year number:style="long"/><number:text>-</number:text><number:month number:style="long"/><number:text>-</number:text><number:day number:style="long"/></number:date-style>',
+      '<number:date-style style:name="N_month"><number:month number:textual="true"/><number:text> </number:text><number:year number:style="long"/></number:date-style>',
+      '<number:date-style style:name="N_year"><number:year number:style="long"/></number:date-style>',
+      '<number:time-style style:name="N_minutes" number:truncate-on-overflow="false"><number:minutes/><number:text>:</number:text><number:seconds number:style="long"/></number:time-style>',
+      '<number:time-style style:name="N_hours" number:truncate-on-overflow="false"><number:hours/><number:text>:</number:text><number:minutes number:style="long"/><number:text>:</number:text><number:seconds number:style="long"/></number:time-style>',
+      ...['day', 'month', 'year', 'minutes', 'hours'].map(name =>
+        `<style:style style:name="ce_${name}" style:family="table-cell" style:data-style-name="N_${name}"/>`),
+      `<style:style style:name="ce_header" style:family="table-cell"><style:table-cell-properties fo:background-color="#${HEADER_FILL}"/><style:text-properties fo:font-weight="bold"/></style:style>`,
+      ...Object.entries(QUALITY_BADGE_COLORS).map(([badge, colors]) =>
+        `<style:style style:name="ce_q_${badge}" style:family="table-cell"><style:table-cell-properties fo:background-color="#${colors.fill}"/><style:text-properties fo:color="#${colors.text}"/></style:style>`),
+      // Roughly 0.08 inch per character, like Excel's default font
+      ...widths.map(width =>
+        `<style:style style:name="co_${width}" style:family="table-column"><style:table-column-properties style:column-width="${(width * 0.08).toFixed(2)}in"/></style:style>`),
+    ];
+
+    const renderCell = (value: SheetCell, isHeader: boolean): string => {
+      if (!value) return '<table:table-cell/>';
+      switch (value.type) {
+        case 'text':
+          return `<table:table-cell${isHeader ? ' table:style-name="ce_header"' : ''} office:value-type="string">${toOdfParagraphs(value.value)}</table:table-cell>`;
+        case 'number':
+          return `<table:table-cell office:value-type="float" office:value="${value.value}"><text:p>${value.value}</text:p></table:table-cell>`;
+        case 'date':
+          return `<table:table-cell table:style-name="ce_${value.precision}" office:value-type="date" office:date-value="${value.value}"/>`;
+        case 'duration':
+          return `<table:table-cell table:style-name="ce_${value.seconds >= 3600 ? 'hours' : 'minutes'}" office:value-type="time" office:time-value="${toOdfDuration(value.seconds)}"/>`;
+        case 'link':
+          return `<table:table-cell office:value-type="string"><text:p><text:a xlink:type="simple" xlink:href="${escapeXml(value.url)}">${escapeXml(value.text)}</text:a></text:p></table:table-cell>`;
+        case 'quality':
+          return `<table:table-cell table:style-name="ce_q_${value.badge}" office:value-type="string">${toOdfParagraphs(value.value)}</table:table-cell>`;
+      }
+    };
+
+    const tables = sheets.map(sheet => [
+      `<table:table table:name="${escapeXml(sheet.name)}">`,
+      ...sheet.columns.map(column => `<table:table-column table:style-name="co_${column.width}"/>`),
+      ...sheet.rows.map((cells, rowIndex) =>
+        `<table:table-row>${cells.length > 0 ? cells.map(cell => renderCell(cell, rowIndex === sheet.headerRow)).join('') : '<table:table-cell/>'}</table:table-row>`),
+      '</table:table>',
+    ].join('\n'));
+
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<office:document-content ${ODF_NAMESPACES} office:version="1.2">`,
+      `<office:automatic-styles>${styles.join('\n')}</office:automatic-styles>`,
+      '<office:body><office:spreadsheet>',
+      ...tables,
+      '</office:spreadsheet></office:body>',
+      '</office:document-content>',
+    ].join('\n');
+
+    // LibreOffice keeps frozen rows in the view settings: a row split with the bottom pane active
+    const frozenTables = sheets.map(sheet => [
+      `<config:config-item-map-entry config:name="${escapeXml(sheet.name)}">`,
+      '<config:config-item config:name="VerticalSplitMode" config:type="short">2</config:config-item>',
+      `<config:config-item config:name="VerticalSplitPosition" config:type="int">${sheet.headerRow + 1}</config:config-item>`,
+      '<config:config-item config:name="ActiveSplitRange" config:type="short">2</config:config-item>',
+      '<config:config-item config:name="PositionTop" config:type="int">0</config:config-item>',
+      `<config:config-item config:name="PositionBottom" config:type="int">${sheet.headerRow + 1}</config:config-item>`,
+      '</config:config-item-map-entry>',
+    ].join(''));
+
+    const settings = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<office:document-settings ${ODF_NAMESPACES} office:version="1.2"><office:settings>`,
+      '<config:config-item-set config:name="ooo:view-settings"><config:config-item-map-indexed config:name="Views"><config:config-item-map-entry>',
+      '<config:config-item config:name="ViewId" config:type="string">view1</config:config-item>',
+      `<config:config-item-map-named config:name="Tables">${frozenTables.join('')}</config:config-item-map-named>`,
+      '</config:config-item-map-entry></config:config-item-map-indexed></config:config-item-set>',
+      '</office:settings></office:document-settings>',
+    ].join('\n');
+
+    const manifest = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">',
+      '<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="application/vnd.oasis.opendocument.spreadsheet"/>',
+      '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>',
+      '<manifest:file-entry manifest:full-path="settings.xml" manifest:media-type="text/xml"/>',
+      '</manifest:manifest>',
+    ].join('\n');
+
+    const zip = new JSZip();
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.spreadsheet', { compression: 'STORE' });
+    zip.file('META-INF/manifest.xml', manifest, { createFolders: false });
+    zip.file('content.xml', content);
+    zip.file('settings.xml', settings);
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  }
+}
@@ -0,0 +1,216 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { Artist } from '@/types';
+import { CSVTrackRow, DataExporter } from './dataExporter';
+import { computeRuntime } from './duration';
+import { groupTracksByName } from './trackCollapsing';
+
+type CreditRole = 'feature' | 'producer' | 'collaborator';
+
+// Same names and order as the CSV export, so queries written against it keep working
+const TRACK_COLUMNS: Record<keyof CSVTrackRow, string> = {
+  trackerName: 'TEXT NOT NULL',
+  era: 'TEXT NOT NULL',
+  trackId: 'TEXT NOT NULL',
+  trackName: 'TEXT NOT NULL',
+  rawName: 'TEXT NOT NULL',
+  notes: 'TEXT NOT NULL',
+  trackLength: 'TEXT NOT NULL',
+  fileDate: 'TEXT NOT NULL',
+  leakDate: 'TEXT NOT NULL',
+  availableLength: 'TEXT NOT NULL',
+  trackLengthSeconds: 'REAL',
+  availableSeconds: 'REAL',
+  percentAvailable: 'REAL',
+  quality: 'TEXT NOT NULL',
+  qualityTier: 'TEXT NOT NULL',
+  availability: 'TEXT NOT NULL',
+  links: 'TEXT NOT NULL',
+  isSpecial: 'INTEGER NOT NULL',
+  specialType: 'TEXT NOT NULL',
+  features: 'TEXT NOT NULL',
+  collaborators: 'TEXT NOT NULL',
+  producers: 'TEXT NOT NULL',
+  references: 'TEXT NOT NULL',
+  interpolations: 'TEXT NOT NULL',
+  alternateNames: 'TEXT NOT NULL',
+};
+
+const CSV_COLUMNS = Object.keys(TRACK_COLUMNS) as (keyof CSVTrackRow)[];
+
+const SCHEMA = `
+CREATE TABLE eras (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  alternateNames TEXT NOT NULL,
+  description TEXT NOT NULL,
+  notes TEXT NOT NULL,
+  year INTEGER,
+  trackCount INTEGER NOT NULL,
+  trackLengthSeconds REAL NOT NULL,
+  availableSeconds REAL NOT NULL
+);
+
+CREATE TABLE version_groups (
+  id INTEGER PRIMARY KEY,
+  eraId TEXT NOT NULL REFERENCES eras(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  trackCount INTEGER NOT NULL
+);
+
+CREATE TABLE tracks (
+  id INTEGER PRIMARY KEY,
+  eraId TEXT NOT NULL REFERENCES eras(id) ON DELETE CASCADE,
+  versionGroupId INTEGER NOT NULL REFERENCES version_groups(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  ${CSV_COLUMNS.map(column => `"${column}" ${TRACK_COLUMNS[column]}`).join(',\n  ')}
+);
+
+CREATE TABLE links (
+  id INTEGER PRIMARY KEY,
+  trackRowId INTEGER NOT NULL REFERENCES tracks(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  label TEXT,
+  type TEXT,
+  platform TEXT,
+  isValid INTEGER,
+  playable INTEGER,
+  source TEXT
+);
+
+CREATE TABLE credits (
+  id INTEGER PRIMARY KEY,
+  trackRowId INTEGER NOT NULL REFERENCES tracks(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('feature', 'producer', 'collaborator')),
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL
+);
+
+CREATE INDEX idx_version_groups_era ON version_groups(eraId);
+CREATE INDEX idx_tracks_era ON tracks(eraId, position);
+CREATE INDEX idx_tracks_version_group ON tracks(versionGroupId);
+CREATE INDEX idx_tracks_track_id ON tracks(trackId);
+CREATE INDEX idx_tracks_quality_tier ON tracks(qualityTier);
+CREATE INDEX idx_tracks_availability ON tracks(availability);
+CREATE INDEX idx_links_track ON links(trackRowId);
+CREATE INDEX idx_links_platform ON links(platform);
+CREATE INDEX idx_credits_track ON credits(trackRowId);
+CREATE INDEX idx_credits_name ON credits(name COLLATE NOCASE, role);
+`;
+
+function toFlag(value: boolean | undefined): number | null {
+  return value === undefined ? null : value ? 1 : 0;
+}
+
+/**
+ * Normalized SQLite database of a parsed tracker: eras, version groups, tracks, links and credits, built in memory with sql.js
+ */
+export class SQLiteExporter {
+  private static sqlJs: Promise<SqlJsStatic> | null = null;
+
+  // The WASM module is compiled once per process
+  private static getSqlJs(): Promise<SqlJsStatic> {
+    if (!this.sqlJs) {
+      this.sqlJs = initSqlJs().catch(error => {
+        this.sqlJs = null;
+        throw error;
+      });
+    }
+    return this.sqlJs;
+  }
+
+  static async export(artist: Artist): Promise<Uint8Array> {
+    const SQL = await this.getSqlJs();
+    const db = new SQL.Database();
+    try {
+      db.run('PRAGMA foreign_keys = ON');
+      db.run(SCHEMA);
+      db.run('BEGIN');
+      this.insertTracker(db, artist);
+      db.run('COMMIT');
+      return db.export();
+    } finally {
+      db.close();
+    }
+  }
+
+  private static insertTracker(db: Database, artist: Artist): void {
+    const insertEra = db.prepare('INSERT INTO eras VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const insertGroup = db.prepare('INSERT INTO version_groups (eraId, name, trackCount) VALUES (?, ?, ?)');
+    const insertTrack = db.prepare(
+      `INSERT INTO tracks (eraId, versionGroupId, position, ${CSV_COLUMNS.map(column => `"${column}"`).join(', ')}) ` +
+      `VALUES (${['?', '?', '?', ...CSV_COLUMNS.map(() => '?')].join(', ')})`
+    );
+    const insertLink = db.prepare(
+      'INSERT INTO links (trackRowId, position, url, label, type, platform, isValid, playable, source) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertCredit = db.prepare('INSERT INTO credits (trackRowId, role, name, position) VALUES (?, ?, ?, ?)');
+    const lastId = (): number => db.exec('SELECT last_insert_rowid()')[0].values[0][0] as number;
+
+    try {
+      artist.albums.forEach((era, eraIndex) => {
+        const runtime = computeRuntime(era.tracks);
+        insertEra.run([
+          era.id,
+          eraIndex,
+          era.name,
+          era.alternateNames?.join(', ') || '',
+          era.description || '',
+          era.notes || '',
+          era.year ?? null,
+          era.tracks.length,
+          runtime.totalSeconds,
+          runtime.availableSeconds,
+        ]);
+
+        // Same grouping as the collapsed versions on the tracker page
+        const groupIds = new Map<string, number>();
+        for (const [name, tracks] of Object.entries(groupTracksByName(era.tracks))) {
+          insertGroup.run([era.id, name, tracks.length]);
+          const groupId = lastId();
+          tracks.forEach(track => groupIds.set(track.id, groupId));
+        }
+
+        era.tracks.forEach((track, trackIndex) => {
+          const row = DataExporter.toCSVRow(artist.name, era, track);
+          insertTrack.run([
+            era.id,
+            groupIds.get(track.id) ?? null,
+            trackIndex,
+            ...CSV_COLUMNS.map((column): SqlValue => {
+              const value = row[column];
+              return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+            }),
+          ]);
+          const trackRowId = lastId();
+
+          (track.links || []).forEach((link, linkIndex) => {
+            insertLink.run([
+              trackRowId,
+              linkIndex,
+              link.url,
+              link.label ?? null,
+              link.type ?? null,
+              link.platform ?? null,
+              toFlag(link.isValid),
+              toFlag(link.playable),
+              link.source ?? null,
+            ]);
+          });
+
+          const credits: [CreditRole, string[] | undefined][] = [
+            ['feature', track.title.features],
+            ['producer', track.title.producers],
+            ['collaborator', track.title.collaborators],
+          ];
+          for (const [role, names] of credits) {
+            (names || []).forEach((name, position) => insertCredit.run([trackRowId, role, name, position]));
+          }
+        });
+      });
+    } finally {
+      [insertEra, insertGroup, insertTrack, insertLink, insertCredit].forEach(statement => statement.free());
+    }
+  }
+}
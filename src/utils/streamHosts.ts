@@ -0,0 +1,47 @@
+/**
+ * Hosts the /api/stream proxy will fetch audio from
+ * A leading dot allows every subdomain as well as the domain itself
+ */
+export const STREAM_PROXY_HOSTS: string[] = [
+  '.pillows.su',
+  '.pillowcase.su',
+  '.pillowcases.su',
+  '.pillowcases.top',
+  'music.froste.lol',
+  'drive.google.com',
+  'drive.usercontent.google.com',
+  '.googleusercontent.com',
+  'www.dropbox.com',
+  'dl.dropboxusercontent.com',
+  '.dl.dropboxusercontent.com',
+  'cdn.discordapp.com',
+  'media.discordapp.net',
+];
+
+/**
+ * Whether a hostname is on the stream allowlist
+ */
+export function isStreamProxyHost(hostname: string, allowedHosts: string[] = STREAM_PROXY_HOSTS): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return allowedHosts.some(entry => {
+    const allowed = entry.toLowerCase();
+    return allowed.startsWith('.')
+      ? host === allowed.slice(1) || host.endsWith(allowed)
+      : host === allowed;
+  });
+}
+
+/**
+ * Same-origin playback URL for an audio source; hosts off the allowlist are returned unchanged
+ */
+export function getStreamUrl(mediaUrl: string): string {
+  try {
+    const { protocol, hostname } = new URL(mediaUrl);
+    if ((protocol === 'https:' || protocol === 'http:') && isStreamProxyHost(hostname)) {
+      return `/api/stream?url=${encodeURIComponent(mediaUrl)}`;
+    }
+  } catch {
+    // Relative or malformed URLs are played as-is
+  }
+  return mediaUrl;
+}
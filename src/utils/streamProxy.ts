@@ -0,0 +1,254 @@
+import { lookup as dnsLookup } from 'dns/promises';
+import { isIP } from 'net';
+import { Agent, fetch as undiciFetch } from 'undici';
+import { StreamProxyOptions } from '@/types';
+import { STREAM_PROXY_HOSTS, isStreamProxyHost } from './streamHosts';
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg',
+};
+
+// Request headers forwarded upstream so seeking works
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range'];
+const FORWARDED_RESPONSE_HEADERS = ['content-length', 'content-range', 'accept-ranges', 'etag', 'last-modified'];
+
+/**
+ * Resolve a hostname to all of its IP addresses
+ */
+export async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await dnsLookup(hostname, { all: true });
+  return addresses.map(address => address.address);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && Number(ip.split('.')[2]) === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224;
+  }
+
+  if (isIP(ip) === 6) {
+    // IPv4-mapped and IPv4-compatible addresses
+    const embedded = ip.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/);
+    if (embedded) return isPrivateAddress(embedded[1]);
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1], 16);
+      const low = parseInt(mappedHex[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return ip === '::' ||
+      ip === '::1' ||
+      /^f[cd][0-9a-f]{2}:/.test(ip) || // fc00::/7 unique local
+      /^fe[89ab][0-9a-f]:/.test(ip) || // fe80::/10 link-local
+      /^ff[0-9a-f]{2}:/.test(ip); // multicast
+  }
+
+  return false;
+}
+
+/**
+ * Audio content type for a response, from the upstream header or the file extension
+ */
+export function getAudioContentType(upstreamType: string | null, pathname: string): string {
+  const type = upstreamType?.split(';')[0].trim().toLowerCase() || '';
+  if (type.startsWith('audio/') || type.startsWith('video/')) return upstreamType as string;
+
+  const extension = pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || '';
+  if (AUDIO_CONTENT_TYPES[extension]) return AUDIO_CONTENT_TYPES[extension];
+
+  // Hosts like Pillowcase and Drive label audio as a generic download
+  return type === 'application/octet-stream' || !type ? 'audio/mpeg' : type;
+}
+
+type UrlProblem = { message: string; status: number };
+
+/**
+ * Address a server-side fetch of a URL should connect to, or the reason it must be refused
+ * (bad scheme, credentials, private address)
+ */
+export async function resolvePublicUrl(
+  url: URL,
+  lookup: (hostname: string) => Promise<string[]> = resolveHost
+): Promise<{ address: string } | { problem: UrlProblem }> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { problem: { message: 'Only http and https URLs can be fetched', status: 400 } };
+  }
+  if (url.username || url.password) {
+    return { problem: { message: 'URLs with credentials cannot be fetched', status: 400 } };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+  } catch {
+    return { problem: { message: `Could not resolve ${url.hostname}`, status: 502 } };
+  }
+  // Also catches public hostnames that point at internal addresses
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return { problem: { message: `Host ${url.hostname} resolves to a private address`, status: 403 } };
+  }
+
+  return { address: addresses[0] };
+}
+
+/**
+ * Reason a server-side fetch of a URL must be refused (bad scheme, credentials, private address), or null
+ */
+export async function checkPublicUrl(
+  url: URL,
+  lookup: (hostname: string) => Promise<string[]> = resolveHost
+): Promise<UrlProblem | null> {
+  const resolved = await resolvePublicUrl(url, lookup);
+  return 'problem' in resolved ? resolved.problem : null;
+}
+
+/**
+ * Fetch a URL over a connection to an address that was already checked
+ * The hostname is not looked up again, so a DNS-rebinding host cannot swap in a private address after the check
+ */
+export async function fetchPinned(url: string, init: RequestInit, address: string): Promise<Response> {
+  const family = isIP(address);
+  const dispatcher = new Agent({
+    connect: {
+      lookup: (hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [{ address, family }]);
+        } else {
+          callback(null, address, family);
+        }
+      },
+    },
+  });
+
+  try {
+    const response = await undiciFetch(url, { ...init, dispatcher } as Parameters<typeof undiciFetch>[1]);
+    return response as unknown as Response;
+  } finally {
+    // Lets the response body finish, then closes the connection
+    void dispatcher.close();
+  }
+}
+
+/**
+ * Address to stream a URL from, or the reason it may not be streamed
+ */
+async function resolveTarget(
+  url: URL,
+  allowedHosts: string[],
+  lookup: (hostname: string) => Promise<string[]>
+): Promise<{ address: string } | { problem: UrlProblem }> {
+  if (url.protocol === 'https:' || url.protocol === 'http:') {
+    if (!isStreamProxyHost(url.hostname, allowedHosts)) {
+      return { problem: { message: `Host ${url.hostname} is not allowed`, status: 403 } };
+    }
+  }
+  return resolvePublicUrl(url, lookup);
+}
+
+/**
+ * Proxy an audio file from an allowlisted host, passing Range requests through
+ * Every redirect hop is checked against the allowlist and private address ranges, and fetched from the checked address
+ */
+export async function proxyStream(request: Request, options: StreamProxyOptions = {}): Promise<Response> {
+  const {
+    allowedHosts = STREAM_PROXY_HOSTS,
+    fetcher = fetchPinned,
+    lookup = resolveHost,
+    maxRedirects = 5,
+  } = options;
+
+  const target = new URL(request.url).searchParams.get('url');
+  if (!target) {
+    return Response.json({ error: 'url parameter is required' }, { status: 400 });
+  }
+
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return Response.json({ error: 'Invalid url parameter' }, { status: 400 });
+  }
+
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  const method = request.method === 'HEAD' ? 'HEAD' : 'GET';
+  let upstream: Response;
+  for (let redirects = 0; ; redirects++) {
+    const resolved = await resolveTarget(url, allowedHosts, lookup);
+    if ('problem' in resolved) {
+      return Response.json({ error: resolved.problem.message }, { status: resolved.problem.status });
+    }
+
+    try {
+      upstream = await fetcher(url.toString(), { method, headers, redirect: 'manual', signal: request.signal }, resolved.address);
+    } catch (error) {
+      console.error('Stream proxy fetch failed:', error);
+      return Response.json({ error: 'Failed to reach the audio host' }, { status: 502 });
+    }
+
+    const location = upstream.headers.get('location');
+    if (upstream.status >= 300 && upstream.status < 400 && location) {
+      if (redirects >= maxRedirects) {
+        return Response.json({ error: 'Too many redirects' }, { status: 502 });
+      }
+      url = new URL(location, url);
+      continue;
+    }
+    break;
+  }
+
+  const responseHeaders = new Headers();
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+
+  // Unsatisfiable range: pass the status and Content-Range through so the player can recover
+  if (upstream.status === 416) {
+    return new Response(null, { status: 416, headers: responseHeaders });
+  }
+  if (!upstream.ok) {
+    return Response.json({ error: `Audio host responded with ${upstream.status}` }, { status: 502 });
+  }
+
+  const upstreamType = upstream.headers.get('content-type');
+  if (upstreamType?.toLowerCase().startsWith('text/html')) {
+    // Login walls, virus-scan interstitials and deleted-file pages
+    return Response.json({ error: 'Audio host returned a web page instead of audio' }, { status: 502 });
+  }
+
+  responseHeaders.set('content-type', getAudioContentType(upstreamType, url.pathname));
+  if (!responseHeaders.has('accept-ranges') && upstream.status === 206) {
+    responseHeaders.set('accept-ranges', 'bytes');
+  }
+  responseHeaders.set('cache-control', 'public, max-age=3600');
+  responseHeaders.set('x-content-type-options', 'nosniff');
+
+  return new Response(method === 'HEAD' ? null : upstream.body, { status: upstream.status, headers: responseHeaders });
+}
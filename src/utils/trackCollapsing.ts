@@ -1,4 +1,5 @@
 import { Track } from '@/types';
+import { compareQuality, getTrackQuality } from './qualityTaxonomy';
 
 // Regex patterns for cleaning track titles
 const PAREN_VERSION_REGEX = /\s*\([^)]*(?:version|edit|remix|mix|demo|live|acoustic|instrumental|clean|explicit|radio|studio|alt|alternative|leak|ref|reference|og|original|remaster)\b[^)]*\)/gi;
@@ -211,14 +212,9 @@ export function sortTracksInGroup(tracks: Track[]): Track[] {
     }
 
     // If same priority, sort by quality or other factors
-    const aQuality = a.quality?.toLowerCase() || '';
-    const bQuality = b.quality?.toLowerCase() || '';
-    
     // Prefer better quality
-    if (aQuality.includes('lossless') && !bQuality.includes('lossless')) return -1;
-    if (!aQuality.includes('lossless') && bQuality.includes('lossless')) return 1;
-    if (aQuality.includes('hq') && !bQuality.includes('hq')) return -1;
-    if (!aQuality.includes('hq') && bQuality.includes('hq')) return 1;
+    const qualityOrder = compareQuality(getTrackQuality(a), getTrackQuality(b));
+    if (qualityOrder !== 0) return qualityOrder;
     
     // Finally sort by name
     return (a.title?.main || a.rawName).localeCompare(b.title?.main || b.rawName);
@@ -0,0 +1,247 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Artist, ParseReport, TrackerCacheEntry, TrackerCacheStatus, TrackerCacheStore, TrackerSnapshotInfo } from '@/types';
+import { UnifiedParser, ParseOptions } from './unifiedParser';
+import { TrackerSnapshots } from './trackerSnapshots';
+import { TrackerWebhooks } from './trackerWebhooks';
+import { diffArtists } from './trackerDiff';
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_STALE_MS = 60 * 60 * 1000; // stale entries are served for up to an hour while refreshing
+const DEFAULT_MAX_ENTRIES = 100; // parsed trackers kept in memory; the least recently used go first
+
+const TTL_MS = Number(process.env.TRACKER_CACHE_TTL_SECONDS) * 1000 || DEFAULT_TTL_MS;
+
+/**
+ * In-memory cache store; lives as long as the server process
+ * Holds at most maxEntries trackers, dropping the least recently used, and forgets entries older than maxAgeMs
+ */
+export class MemoryTrackerCacheStore implements TrackerCacheStore {
+  private entries = new Map<string, TrackerCacheEntry>();
+  private readonly maxEntries: number;
+  private readonly maxAgeMs: number;
+
+  constructor(options: { maxEntries?: number; maxAgeMs?: number } = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_TTL_MS + DEFAULT_STALE_MS;
+  }
+
+  private isExpired(entry: TrackerCacheEntry): boolean {
+    return Date.now() - entry.cachedAt >= this.maxAgeMs;
+  }
+
+  async get(key: string): Promise<TrackerCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (this.isExpired(entry)) return undefined;
+    // Maps iterate in insertion order, so re-inserting marks the entry as most recently used
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: TrackerCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    for (const [storedKey, stored] of Array.from(this.entries)) {
+      if (this.isExpired(stored)) this.entries.delete(storedKey);
+    }
+    for (const storedKey of Array.from(this.entries.keys())) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(storedKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Filesystem cache store, one JSON file per key; survives restarts and is shared by workers on one machine
+ */
+export class FileTrackerCacheStore implements TrackerCacheStore {
+  constructor(private readonly directory: string) {}
+
+  private getPath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  async get(key: string): Promise<TrackerCacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.getPath(key), 'utf8')) as TrackerCacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: TrackerCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a half-written file
+    const filePath = this.getPath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+}
+
+function createDefaultStore(): TrackerCacheStore {
+  return process.env.TRACKER_CACHE_STORE === 'file'
+    ? new FileTrackerCacheStore(process.env.TRACKER_CACHE_DIR || path.join(process.cwd(), 'cache', 'trackers'))
+    : new MemoryTrackerCacheStore({
+      maxEntries: Number(process.env.TRACKER_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES,
+      maxAgeMs: TTL_MS + DEFAULT_STALE_MS,
+    });
+}
+
+// A fresh parse, and the snapshot being taken of it (CSV parses only)
+interface LoadResult {
+  entry: TrackerCacheEntry;
+  snapshot: Promise<TrackerSnapshotInfo> | null;
+}
+
+/**
+ * Server-side cache in front of UnifiedParser.parseGoogleDoc
+ * Keyed by doc ID, gid and format; fresh entries are served directly, stale ones while a refresh runs,
+ * and concurrent requests for the same tracker share one download
+ */
+export class TrackerCache {
+  private static store: TrackerCacheStore = createDefaultStore();
+  private static ttlMs = TTL_MS;
+  private static staleMs = DEFAULT_STALE_MS;
+  private static inFlight = new Map<string, Promise<LoadResult>>();
+
+  /**
+   * Swap the store or timings, e.g. a filesystem store in production or a fresh memory store in tests
+   */
+  static configure(options: { store?: TrackerCacheStore; ttlMs?: number; staleMs?: number }): void {
+    if (options.store) this.store = options.store;
+    if (options.ttlMs !== undefined) this.ttlMs = options.ttlMs;
+    if (options.staleMs !== undefined) this.staleMs = options.staleMs;
+  }
+
+  /**
+   * Cache key for a tracker URL
+   */
+  static getKey(googleSheetsUrl: string, options: ParseOptions = {}): string {
+    const docId = UnifiedParser.getDocumentId(googleSheetsUrl);
+    const gid = UnifiedParser.getGid(googleSheetsUrl) || 'main';
+    return `${docId}_gid_${gid}_${options.format || 'csv'}`;
+  }
+
+  /**
+   * Tracker ID as used in page URLs: the document ID, plus "_gid_<gid>" when the URL picks a tab
+   */
+  static getTrackerId(googleSheetsUrl: string): string {
+    const docId = UnifiedParser.getDocumentId(googleSheetsUrl);
+    const gid = UnifiedParser.getGid(googleSheetsUrl);
+    return gid ? `${docId}_gid_${gid}` : docId;
+  }
+
+  /**
+   * Parsed tracker from the cache, parsing it when missing, expired or when refresh is set
+   */
+  static async parse(
+    googleSheetsUrl: string,
+    options: ParseOptions & { refresh?: boolean } = {}
+  ): Promise<{ artist: Artist; report: ParseReport; cacheStatus: TrackerCacheStatus; cachedAt: number }> {
+    const { refresh = false, ...parseOptions } = options;
+    const key = this.getKey(googleSheetsUrl, parseOptions);
+
+    if (!refresh) {
+      const cached = await this.store.get(key);
+      const age = cached ? Date.now() - cached.cachedAt : Infinity;
+
+      if (cached && age < this.ttlMs) {
+        return { ...cached, cacheStatus: 'hit' };
+      }
+      if (cached && age < this.ttlMs + this.staleMs) {
+        // Refresh in the background; failures keep serving the stale copy
+        this.load(key, googleSheetsUrl, parseOptions).catch(error => {
+          console.error(`Background refresh failed for ${key}:`, error);
+        });
+        return { ...cached, cacheStatus: 'stale' };
+      }
+      if (cached) {
+        // Too old to serve; don't leave it in a store that never forgets on its own
+        await this.store.delete(key);
+      }
+    }
+
+    const { entry } = await this.load(key, googleSheetsUrl, parseOptions);
+    return { ...entry, cacheStatus: refresh ? 'refresh' : 'miss' };
+  }
+
+  /**
+   * Re-read a tracker (CSV) and wait until its snapshot is stored
+   */
+  static async refreshWithSnapshot(googleSheetsUrl: string): Promise<{ artist: Artist; snapshot: TrackerSnapshotInfo | null }> {
+    const { entry, snapshot } = await this.load(this.getKey(googleSheetsUrl), googleSheetsUrl, {});
+    return { artist: entry.artist, snapshot: snapshot ? await snapshot : null };
+  }
+
+  /**
+   * Drop a tracker from the cache
+   */
+  static async invalidate(googleSheetsUrl: string, options: ParseOptions = {}): Promise<void> {
+    await this.store.delete(this.getKey(googleSheetsUrl, options));
+  }
+
+  /**
+   * Snapshot a fresh parse and, when it differs from the previous snapshot, notify the tracker's webhooks
+   */
+  private static async recordSnapshot(trackerId: string, artist: Artist): Promise<TrackerSnapshotInfo> {
+    const { snapshot, previous } = await TrackerSnapshots.save(trackerId, artist);
+    if (!previous || snapshot.id === previous.id) return snapshot;
+
+    const before = await TrackerSnapshots.load(trackerId, previous.id);
+    if (!before) return snapshot;
+    const diff = diffArtists(before.artist, artist, before.takenAt, snapshot.takenAt);
+    if (diff.changes.length > 0) {
+      // Webhooks are sent in the background; callers waiting on the snapshot don't wait for retries
+      TrackerWebhooks.dispatch(trackerId, artist.name, diff).catch(error => {
+        console.warn(`Could not notify webhooks of ${trackerId}:`, error instanceof Error ? error.message : error);
+      });
+    }
+    return snapshot;
+  }
+
+  /**
+   * Parse and store a tracker, sharing one parse between concurrent callers
+   */
+  private static load(key: string, googleSheetsUrl: string, options: ParseOptions): Promise<LoadResult> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      console.log(`📥 Cache ${key}: fetching from Google`);
+      const { artist, report } = await UnifiedParser.parseGoogleDocWithReport(googleSheetsUrl, options);
+      const entry: TrackerCacheEntry = { artist, report, cachedAt: Date.now() };
+      try {
+        await this.store.set(key, entry);
+      } catch (error) {
+        console.error(`Failed to store ${key} in the tracker cache:`, error);
+      }
+      // Snapshot CSV parses only, so history isn't split by XLSX-only details like link labels
+      const snapshot = options.format !== 'xlsx' ? this.recordSnapshot(this.getTrackerId(googleSheetsUrl), artist) : null;
+      snapshot?.catch(error => {
+        console.warn(`Could not snapshot ${key}:`, error instanceof Error ? error.message : error);
+      });
+      return { entry, snapshot };
+    })().finally(() => {
+      this.inFlight.delete(key);
+    });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Date parsing for tracker date cells ("??/??/2019", "Early 2016", "Summer 2014", "Jan ??, 2020", ranges)
+ */
+
+import { TrackerDate, DatePrecision } from '@/types';
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+// Month spans for "Early/Mid/Late YYYY" and seasons; winter starts in the previous December
+const PARTS_OF_YEAR: Record<string, [number, number]> = {
+  early: [1, 4],
+  mid: [5, 8],
+  late: [9, 12],
+  spring: [3, 5],
+  summer: [6, 8],
+  fall: [9, 11],
+  autumn: [9, 11],
+  winter: [0, 2],
+};
+
+const PRECISION_ORDER: DatePrecision[] = ['day', 'month', 'season', 'year'];
+
+interface DateBounds {
+  earliest: string;
+  latest: string;
+  precision: DatePrecision;
+  isUncertain: boolean;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toIso = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const lastDayOfMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const monthSpan = (year: number, startMonth: number, endMonth: number): Pick<DateBounds, 'earliest' | 'latest'> => ({
+  earliest: startMonth < 1 ? toIso(year - 1, 12, 1) : toIso(year, startMonth, 1),
+  latest: toIso(year, endMonth, lastDayOfMonth(year, endMonth)),
+});
+
+const expandYear = (value: string): number => {
+  const year = parseInt(value, 10);
+  if (value.length > 2) return year;
+  return year <= 50 ? 2000 + year : 1900 + year;
+};
+
+const isUnknownPart = (value: string | undefined): boolean => !value || /^[?x]+$/i.test(value);
+
+const monthFromName = (value: string): number | null => MONTHS[value.slice(0, 3).toLowerCase()] ?? null;
+
+/**
+ * Parse a single (non-range) date expression
+ */
+function parseSingle(input: string): DateBounds | null {
+  let text = input.trim();
+  let isUncertain = false;
+
+  // Uncertainty markers: "2019?", "~2019", "c. 2019", "(?)", "circa"
+  if (/\?\s*\)?$|^~|^c\.\s*|^circa\s+|^around\s+|\(\?\)/i.test(text)) {
+    isUncertain = true;
+    text = text.replace(/\(\?\)/g, '').replace(/^(~|c\.\s*|circa\s+|around\s+)/i, '').replace(/\?+$/, '').trim();
+  }
+
+  let match: RegExpMatchArray | null;
+
+  // ISO: 2019-01-02
+  if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})/))) {
+    const [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+    return { earliest: toIso(year, month, day), latest: toIso(year, month, day), precision: 'day', isUncertain };
+  }
+
+  // Numeric: M/D/YYYY with any part possibly "??"
+  if ((match = text.match(/^([0-9?xX]{1,2})[/.]([0-9?xX]{1,2})[/.]([0-9]{2}|[0-9]{4}|[?xX]{2,4})$/))) {
+    if (isUnknownPart(match[3])) return null;
+    const year = expandYear(match[3]);
+
+    if (isUnknownPart(match[1])) {
+      return { ...monthSpan(year, 1, 12), precision: 'year', isUncertain: true };
+    }
+    const month = parseInt(match[1], 10);
+    if (month < 1 || month > 12) return null;
+
+    if (isUnknownPart(match[2])) {
+      return { ...monthSpan(year, month, month), precision: 'month', isUncertain: true };
+    }
+    const day = parseInt(match[2], 10);
+    if (day < 1 || day > lastDayOfMonth(year, month)) return null;
+    return { earliest: toIso(year, month, day), latest: toIso(year, month, day), precision: 'day', isUncertain };
+  }
+
+  // Numeric month and year: MM/YYYY
+  if ((match = text.match(/^([0-9?]{1,2})[/.](\d{4})$/))) {
+    const year = parseInt(match[2], 10);
+    if (isUnknownPart(match[1])) {
+      return { ...monthSpan(year, 1, 12), precision: 'year', isUncertain: true };
+    }
+    const month = parseInt(match[1], 10);
+    if (month < 1 || month > 12) return null;
+    return { ...monthSpan(year, month, month), precision: 'month', isUncertain };
+  }
+
+  // Month name, optional day, year: "Jan 5, 2020", "January ??, 2020", "Jan 2020"
+  if ((match = text.match(/^([a-z]{3,9})\.?\s+(?:([0-9?]{1,2})(?:st|nd|rd|th)?,?\s+)?(\d{4})$/i))) {
+    const month = monthFromName(match[1]);
+    if (month) {
+      const year = parseInt(match[3], 10);
+      if (match[2] === undefined) {
+        return { ...monthSpan(year, month, month), precision: 'month', isUncertain };
+      }
+      if (isUnknownPart(match[2])) {
+        return { ...monthSpan(year, month, month), precision: 'month', isUncertain: true };
+      }
+      const day = parseInt(match[2], 10);
+      if (day < 1 || day > lastDayOfMonth(year, month)) return null;
+      return { earliest: toIso(year, month, day), latest: toIso(year, month, day), precision: 'day', isUncertain };
+    }
+  }
+
+  // Day, month name, year: "5 January 2020"
+  if ((match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[2]);
+    const year = parseInt(match[3], 10);
+    const day = parseInt(match[1], 10);
+    if (month && day >= 1 && day <= lastDayOfMonth(year, month)) {
+      return { earliest: toIso(year, month, day), latest: toIso(year, month, day), precision: 'day', isUncertain };
+    }
+  }
+
+  // Part of year or season: "Early 2016", "Summer 2014"
+  if ((match = text.match(/^(early|mid|late|spring|summer|fall|autumn|winter)[\s-]+(\d{4})$/i))) {
+    const [startMonth, endMonth] = PARTS_OF_YEAR[match[1].toLowerCase()];
+    return { ...monthSpan(parseInt(match[2], 10), startMonth, endMonth), precision: 'season', isUncertain };
+  }
+
+  // Year only
+  if ((match = text.match(/^(\d{4})$/))) {
+    return { ...monthSpan(parseInt(match[1], 10), 1, 12), precision: 'year', isUncertain };
+  }
+
+  // Last resort: anything the platform parser understands, if it names a year
+  if (/\b(19|20)\d{2}\b/.test(text)) {
+    const date = new Date(text);
+    if (!isNaN(date.getTime()) && date.getFullYear() > 1900) {
+      const iso = toIso(date.getFullYear(), date.getMonth() + 1, date.getDate());
+      return { earliest: iso, latest: iso, precision: 'day', isUncertain };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a tracker date cell into bounds, precision and an uncertainty flag
+ * @param text Raw date text from the spreadsheet
+ * @returns Structured date, or null when the text holds no usable date
+ */
+export function parseTrackerDate(text: string | undefined | null): TrackerDate | null {
+  const raw = text?.trim() || '';
+  if (!raw || /^(unknown|n\/a|none|tbd|-+|\?+)$/i.test(raw)) return null;
+
+  // Ranges: "2015 - 2016", "01/2015 - 05/2016", "Summer 2014 to Fall 2014", "2015-2016"
+  const rangeParts = raw.match(/^(\d{4})\s*[-–—]\s*(\d{4})$/)
+    ? raw.split(/\s*[-–—]\s*/)
+    : raw.split(/\s+(?:-|–|—|to|until)\s+/i);
+
+  if (rangeParts.length === 2) {
+    const start = parseSingle(rangeParts[0]);
+    const end = parseSingle(rangeParts[1]);
+    if (start && end) {
+      const precision = PRECISION_ORDER[Math.max(
+        PRECISION_ORDER.indexOf(start.precision),
+        PRECISION_ORDER.indexOf(end.precision)
+      )];
+      return {
+        raw,
+        earliest: start.earliest,
+        latest: end.latest,
+        precision,
+        isUncertain: start.isUncertain || end.isUncertain,
+        isRange: true,
+      };
+    }
+  }
+
+  const single = parseSingle(raw);
+  return single ? { raw, ...single, isRange: false } : null;
+}
+
+/**
+ * Compare two tracker dates by earliest bound, then latest bound; missing dates sort last
+ * @returns Negative when a is earlier than b
+ */
+export function compareTrackerDates(a: TrackerDate | null | undefined, b: TrackerDate | null | undefined): number {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a.earliest.localeCompare(b.earliest) || a.latest.localeCompare(b.latest);
+}
+
+/**
+ * Whether a tracker date overlaps the given window
+ * @param from ISO date (inclusive), or null for no lower bound
+ * @param to ISO date (inclusive), or null for no upper bound
+ */
+export function isTrackerDateWithin(date: TrackerDate | null | undefined, from: string | null, to: string | null): boolean {
+  if (!date) return false;
+  if (from && date.latest < from) return false;
+  if (to && date.earliest > to) return false;
+  return true;
+}
+
+/**
+ * Use a track's parsed date when present, else parse the raw text (older cached data)
+ */
+export function resolveTrackerDate(parsed: TrackerDate | undefined, raw: string | undefined): TrackerDate | null {
+  return parsed || parseTrackerDate(raw);
+}
+
+/**
+ * Human-readable label for a tracker date at its own precision
+ * Ranges and seasons keep the tracker's wording
+ */
+export function formatTrackerDate(date: TrackerDate, locale?: string): string {
+  if (date.isRange || date.precision === 'season') {
+    return date.raw;
+  }
+
+  const [year, month, day] = date.earliest.split('-').map(Number);
+  const value = new Date(year, month - 1, day);
+  let label: string;
+
+  if (date.precision === 'day') {
+    label = value.toLocaleDateString(locale, { year: 'numeric', month: '2-digit', day: '2-digit' });
+  } else if (date.precision === 'month') {
+    label = value.toLocaleDateString(locale, { year: 'numeric', month: 'short' });
+  } else {
+    label = String(year);
+  }
+
+  return date.isUncertain ? `${label} (?)` : label;
+}
@@ -0,0 +1,141 @@
+import { Artist, Track, TrackChange, TrackChangeType, TrackerDiff } from '@/types';
+import { compareAvailability, compareQuality, getTrackAvailability, getTrackQuality } from './qualityTaxonomy';
+
+export const TRACK_CHANGE_TYPES: TrackChangeType[] = [
+  'added',
+  'removed',
+  'renamed',
+  'moved',
+  'quality_upgrade',
+  'quality_downgrade',
+  'availability_upgrade',
+  'availability_downgrade',
+  'new_links',
+];
+
+interface EraTrack {
+  track: Track;
+  era: string;
+  eraId: string;
+}
+
+/**
+ * Title used to recognize the same song across snapshots: case, punctuation and emoji markers ignored
+ */
+function getTitleKey(track: Track): string {
+  return track.title.main.toLowerCase().replace(/[^\p{L}\p{N}?]+/gu, ' ').trim();
+}
+
+/**
+ * Things that survive a rename: link URLs, or the same length and file date in the same era
+ */
+function getFingerprints({ track, era }: EraTrack): string[] {
+  const prints = (track.links || []).map(link => `link:${link.url}`);
+  if (track.trackLength && track.fileDate) {
+    prints.push(`meta:${era}|${track.trackLength}|${track.fileDate}`);
+  }
+  return prints;
+}
+
+function flattenTracks(artist: Artist): EraTrack[] {
+  return artist.albums.flatMap(album => album.tracks.map(track => ({ track, era: album.name, eraId: album.id })));
+}
+
+/**
+ * Pair tracks from two snapshots in passes: same title in the same era, same title elsewhere (a move),
+ * then shared links or file details (a rename). Whatever is left was added or removed.
+ */
+function matchTracks(before: EraTrack[], after: EraTrack[]): { pairs: [EraTrack, EraTrack][]; added: EraTrack[]; removed: EraTrack[] } {
+  const remaining = new Set(before);
+  const pairs: [EraTrack, EraTrack][] = [];
+
+  // Pair each candidate with the first unpaired older track sharing one of its keys
+  const matchPass = (candidates: EraTrack[], getKeys: (item: EraTrack) => string[]): EraTrack[] => {
+    const index = new Map<string, EraTrack[]>();
+    for (const item of Array.from(remaining)) {
+      for (const key of getKeys(item)) {
+        const items = index.get(key) || [];
+        items.push(item);
+        index.set(key, items);
+      }
+    }
+
+    const left: EraTrack[] = [];
+    for (const current of candidates) {
+      const previous = getKeys(current)
+        .flatMap(key => index.get(key) || [])
+        .find(item => remaining.has(item));
+      if (previous) {
+        remaining.delete(previous);
+        pairs.push([previous, current]);
+      } else {
+        left.push(current);
+      }
+    }
+    return left;
+  };
+
+  let left = matchPass(after, ({ track, era }) => [`${era}|${getTitleKey(track)}`]);
+  left = matchPass(left, ({ track }) => [getTitleKey(track)]);
+  const added = matchPass(left, getFingerprints);
+
+  return { pairs, added, removed: Array.from(remaining) };
+}
+
+/**
+ * Changes to one track between two snapshots
+ */
+function diffTrack(previous: EraTrack, current: EraTrack): TrackChange[] {
+  const changes: TrackChange[] = [];
+  const base = { trackId: current.track.id, title: current.track.title.main, era: current.era, eraId: current.eraId };
+
+  if (previous.era !== current.era) {
+    changes.push({ ...base, type: 'moved', previousEra: previous.era });
+  }
+  if (getTitleKey(previous.track) !== getTitleKey(current.track)) {
+    changes.push({ ...base, type: 'renamed', previousTitle: previous.track.title.main });
+  }
+
+  const previousQuality = getTrackQuality(previous.track);
+  const currentQuality = getTrackQuality(current.track);
+  if (previousQuality !== currentQuality && currentQuality !== 'unknown' && previousQuality !== 'unknown') {
+    const type = compareQuality(currentQuality, previousQuality) < 0 ? 'quality_upgrade' : 'quality_downgrade';
+    changes.push({ ...base, type, from: previousQuality, to: currentQuality });
+  }
+
+  const previousAvailability = getTrackAvailability(previous.track);
+  const currentAvailability = getTrackAvailability(current.track);
+  const availabilityOrder = compareAvailability(currentAvailability, previousAvailability);
+  if (availabilityOrder !== null && availabilityOrder !== 0) {
+    const type = availabilityOrder < 0 ? 'availability_upgrade' : 'availability_downgrade';
+    changes.push({ ...base, type, from: previousAvailability, to: currentAvailability });
+  }
+
+  const previousUrls = new Set((previous.track.links || []).map(link => link.url));
+  const newLinks = (current.track.links || []).filter(link => !previousUrls.has(link.url));
+  if (newLinks.length > 0) {
+    changes.push({ ...base, type: 'new_links', links: newLinks });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two snapshots of a tracker's main track list
+ */
+export function diffArtists(before: Artist, after: Artist, from: string = before.lastUpdated, to: string = after.lastUpdated): TrackerDiff {
+  const { pairs, added, removed } = matchTracks(flattenTracks(before), flattenTracks(after));
+
+  const changes: TrackChange[] = [
+    ...added.map(({ track, era, eraId }): TrackChange => ({ type: 'added', trackId: track.id, title: track.title.main, era, eraId })),
+    ...pairs.flatMap(([previous, current]) => diffTrack(previous, current)),
+    ...removed.map(({ track, era, eraId }): TrackChange => ({ type: 'removed', trackId: track.id, title: track.title.main, era, eraId })),
+  ];
+
+  const summary = Object.fromEntries(TRACK_CHANGE_TYPES.map(type => [type, 0])) as Record<TrackChangeType, number>;
+  for (const change of changes) {
+    summary[change.type]++;
+  }
+
+  return { from, to, changes, summary };
+}
@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import { Artist, FeedEntryType, Track, TrackChange, TrackerDiff, TrackerFeed, TrackerFeedEntry, UpdateTrackRef } from '@/types';
+import { TrackerCache } from './trackerCache';
+import { parseTrackerDate } from './trackerDate';
+import { changeToUpdate, getTrackPath, linkUpdateTracks, UPDATE_TYPE_LABELS } from './trackerUpdates';
+import { loadSnapshotDiffs } from './updateSource';
+import { reconstructGoogleSheetsUrl } from './urlUtils';
+import { escapeXml } from './xml';
+
+export const FEED_ENTRY_TYPES: FeedEntryType[] = ['leak', 'quality_upgrade', 'addition', 'update', 'removal'];
+export const DEFAULT_FEED_TYPES: FeedEntryType[] = ['leak', 'quality_upgrade'];
+
+const MAX_ENTRIES = 50;
+
+const FEED_TYPE_LABELS: Record<FeedEntryType, string> = {
+  ...UPDATE_TYPE_LABELS,
+  quality_upgrade: 'Quality upgrade',
+};
+
+function getEntryId(docId: string, parts: string[]): string {
+  return `urn:trackerparse:${docId}:${createHash('sha1').update(parts.join('|')).digest('hex').slice(0, 20)}`;
+}
+
+function findTrack(artist: Artist, ref: UpdateTrackRef): Track | undefined {
+  const album = artist.albums.find(album => album.id === ref.eraId) || artist.albums.find(album => album.name === ref.era);
+  return album?.tracks.find(track => track.id === ref.id) || album?.tracks.find(track => track.title.main === ref.title);
+}
+
+function getFeedType(change: TrackChange): FeedEntryType {
+  return change.type === 'quality_upgrade' ? 'quality_upgrade' : changeToUpdate(change, '').type;
+}
+
+/**
+ * Feed entries for a tracker: one per track named in its Updates tab, plus one per change between snapshots
+ */
+export function buildFeedEntries(
+  docId: string,
+  artist: Artist,
+  snapshotDiffs: { diff: TrackerDiff; artist: Artist }[],
+  options: { origin: string; types?: FeedEntryType[] }
+): TrackerFeedEntry[] {
+  const types = options.types && options.types.length > 0 ? options.types : DEFAULT_FEED_TYPES;
+  const updatesUrl = `${options.origin}/updates?docId=${docId}`;
+  const entries: TrackerFeedEntry[] = [];
+
+  const describe = (track: Track | undefined) => ({
+    quality: track?.quality || undefined,
+    availability: track?.availableLength || undefined,
+  });
+
+  for (const update of linkUpdateTracks(artist.updates || [], artist)) {
+    if (!types.includes(update.type)) continue;
+    // Undated rows would look brand new on every refresh
+    const date = parseTrackerDate(update.date);
+    if (!date) continue;
+
+    const refs: (UpdateTrackRef | undefined)[] = update.tracks && update.tracks.length > 0 ? update.tracks : [undefined];
+    for (const ref of refs) {
+      const track = ref && findTrack(artist, ref);
+      entries.push({
+        id: getEntryId(docId, ['tab', update.date, update.description, ref?.title || '']),
+        type: update.type,
+        title: ref ? `${FEED_TYPE_LABELS[update.type]}: ${ref.title}` : update.description,
+        summary: update.description,
+        url: ref ? `${options.origin}${getTrackPath(docId, ref)}` : updatesUrl,
+        date: `${date.earliest}T00:00:00.000Z`,
+        era: ref?.era,
+        ...describe(track),
+        source: 'tab',
+      });
+    }
+  }
+
+  for (const { diff, artist: snapshotArtist } of snapshotDiffs) {
+    for (const change of diff.changes) {
+      const type = getFeedType(change);
+      if (!types.includes(type)) continue;
+
+      const update = changeToUpdate(change, diff.to);
+      const ref = update.tracks?.[0];
+      const track = ref && findTrack(snapshotArtist, ref);
+      entries.push({
+        id: getEntryId(docId, ['snapshot', diff.to, change.type, change.trackId, change.title]),
+        type,
+        title: `${FEED_TYPE_LABELS[type]}: ${change.title}`,
+        summary: update.description,
+        url: ref ? `${options.origin}${getTrackPath(docId, ref)}` : updatesUrl,
+        date: diff.to,
+        era: change.era,
+        ...describe(track),
+        source: 'snapshot',
+      });
+    }
+  }
+
+  return entries
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_ENTRIES);
+}
+
+/**
+ * Feed of a tracker's leaks and other changes, from its Updates tab and stored snapshots
+ */
+export async function loadTrackerFeed(
+  docId: string,
+  options: { origin: string; feedUrl: string; types?: FeedEntryType[] }
+): Promise<TrackerFeed> {
+  const { artist, cachedAt } = await TrackerCache.parse(reconstructGoogleSheetsUrl(docId));
+  const snapshotDiffs = await loadSnapshotDiffs(docId);
+  const entries = buildFeedEntries(docId, artist, snapshotDiffs, options);
+
+  return {
+    docId,
+    title: `${artist.name} tracker`,
+    homeUrl: `${options.origin}/${docId}`,
+    feedUrl: options.feedUrl,
+    updated: entries[0]?.date || new Date(cachedAt).toISOString(),
+    entries,
+  };
+}
+
+function getEntryDetails(entry: TrackerFeedEntry): string[] {
+  return [
+    entry.era && `Era: ${entry.era}`,
+    entry.quality && `Quality: ${entry.quality}`,
+    entry.availability && `Available: ${entry.availability}`,
+  ].filter((line): line is string => !!line);
+}
+
+/**
+ * Atom 1.0 document for a feed
+ */
+export function renderAtom(feed: TrackerFeed): string {
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" href="${escapeXml(entry.url)}"/>`,
+    `    <updated>${entry.date}</updated>`,
+    `    <published>${entry.date}</published>`,
+    `    <category term="${entry.type}" label="${escapeXml(FEED_TYPE_LABELS[entry.type])}"/>`,
+    `    <summary>${escapeXml([entry.summary, ...getEntryDetails(entry)].join('\n'))}</summary>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>urn:trackerparse:${escapeXml(feed.docId)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <updated>${feed.updated}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    '  <generator>TrackerParse</generator>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * JSON Feed 1.1 document for a feed; era, quality and availability go in the _tracker extension
+ */
+export function renderJSONFeed(feed: TrackerFeed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    items: feed.entries.map(entry => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      content_text: [entry.summary, ...getEntryDetails(entry)].join('\n'),
+      date_published: entry.date,
+      tags: [entry.type],
+      _tracker: {
+        type: entry.type,
+        era: entry.era,
+        quality: entry.quality,
+        availability: entry.availability,
+        source: entry.source,
+      },
+    })),
+  }, null, 2);
+}
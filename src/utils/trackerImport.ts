@@ -0,0 +1,288 @@
+import { Album, Artist, ParsedSpreadsheetData, Track } from '@/types';
+import { TrackerExport } from './dataExporter';
+import { computeRuntime } from './duration';
+import { SheetParser } from './sheetParser';
+
+export const CURRENT_EXPORT_VERSION = '2.1';
+export const SUPPORTED_EXPORT_VERSIONS = ['2.0', '2.1'];
+
+const MAX_ERRORS = 20;
+
+type SchemaNode = { optional?: boolean } & (
+  | { type: 'string' | 'number' | 'boolean' | 'any' }
+  | { type: 'array'; items: SchemaNode }
+  | { type: 'object'; properties: Record<string, SchemaNode> }
+  | { type: 'record'; values: SchemaNode }
+);
+
+const string: SchemaNode = { type: 'string' };
+const number: SchemaNode = { type: 'number' };
+const boolean: SchemaNode = { type: 'boolean' };
+const optional = (node: SchemaNode): SchemaNode => ({ ...node, optional: true });
+const arrayOf = (items: SchemaNode): SchemaNode => ({ type: 'array', items });
+const object = (properties: Record<string, SchemaNode>): SchemaNode => ({ type: 'object', properties });
+
+const TRACK_SCHEMA = object({
+  id: string,
+  era: optional(string),
+  title: object({
+    main: string,
+    isUnknown: optional(boolean),
+    features: optional(arrayOf(string)),
+    collaborators: optional(arrayOf(string)),
+    producers: optional(arrayOf(string)),
+    references: optional(arrayOf(string)),
+    interpolations: optional(arrayOf(string)),
+    alternateNames: optional(arrayOf(string)),
+  }),
+  rawName: optional(string),
+  notes: optional(string),
+  trackLength: optional(string),
+  fileDate: optional(string),
+  leakDate: optional(string),
+  availableLength: optional(string),
+  quality: optional(string),
+  links: optional(arrayOf(object({ url: string, label: optional(string), isValid: optional(boolean) }))),
+  isSpecial: optional(boolean),
+  isWanted: optional(boolean),
+});
+
+const ALBUM_SCHEMA = object({
+  id: optional(string),
+  name: string,
+  notes: optional(string),
+  description: optional(string),
+  metadata: optional({ type: 'any' }),
+  tracks: arrayOf(TRACK_SCHEMA),
+});
+
+// Fields every supported export version shares; everything derived from cell text is recomputed on import
+const TRACKER_EXPORT_SCHEMA = object({
+  trackerName: optional(string),
+  docId: string,
+  sourceUrl: string,
+  lastUpdated: string,
+  hasUpdatesPage: optional(boolean),
+  hasStatisticsPage: optional(boolean),
+  artist: object({
+    name: string,
+    picture: optional(string),
+    description: optional(string),
+    albums: arrayOf(ALBUM_SCHEMA),
+    sections: optional({ type: 'record', values: arrayOf(ALBUM_SCHEMA) }),
+    tabs: optional(arrayOf(object({ gid: string, name: string, type: string }))),
+    updates: optional(arrayOf(object({ date: string, description: string, type: string }))),
+    statistics: optional({ type: 'any' }),
+    lastUpdated: optional(string),
+  }),
+  metadata: optional(object({
+    totalTracks: optional(number),
+    totalAlbums: optional(number),
+    exportVersion: string,
+  })),
+});
+
+/**
+ * Upgrades from one export version to the next
+ */
+const MIGRATIONS: Record<string, { to: string; migrate: (data: TrackerExport) => TrackerExport }> = {
+  // 2.1 only added the runtime totals to metadata, which every import recomputes from the normalized tracks
+  '2.0': {
+    to: '2.1',
+    migrate: data => ({ ...data, metadata: { ...data.metadata, exportVersion: '2.1' } }),
+  },
+};
+
+export interface ImportedTracker {
+  data: TrackerExport; // upgraded to the current version
+  artist: Artist; // ready to render, derived fields recomputed like a live parse
+  exportVersion: string; // version the input was written with
+  migratedFrom?: string;
+}
+
+export type TrackerImportResult = ({ ok: true } & ImportedTracker) | { ok: false; errors: string[] };
+
+function validateNode(value: unknown, schema: SchemaNode, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+  if (value === undefined || value === null) {
+    if (!schema.optional) errors.push(`${path}: is required`);
+    return;
+  }
+
+  switch (schema.type) {
+    case 'any':
+      return;
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.type) errors.push(`${path}: expected ${schema.type}, got ${typeof value}`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected array`);
+        return;
+      }
+      value.forEach((item, index) => validateNode(item, schema.items, `${path}[${index}]`, errors));
+      return;
+    case 'object':
+    case 'record':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path}: expected object`);
+        return;
+      }
+      if (schema.type === 'record') {
+        for (const [key, item] of Object.entries(value)) {
+          validateNode(item, schema.values, `${path}.${key}`, errors);
+        }
+      } else {
+        for (const [key, node] of Object.entries(schema.properties)) {
+          validateNode((value as Record<string, unknown>)[key], node, `${path}.${key}`, errors);
+        }
+      }
+      return;
+  }
+}
+
+/**
+ * Fill text fields older exports may leave out, so derived fields can be recomputed
+ */
+function normalizeTrack(track: Track, era: string): Track {
+  return {
+    ...track,
+    era: track.era || era,
+    title: {
+      ...track.title,
+      isUnknown: track.title.isUnknown ?? track.title.main.includes('???'),
+      features: track.title.features || [],
+      collaborators: track.title.collaborators || [],
+      producers: track.title.producers || [],
+      references: track.title.references || [],
+      interpolations: track.title.interpolations || [],
+      alternateNames: track.title.alternateNames || [],
+    },
+    rawName: track.rawName ?? track.title.main,
+    notes: track.notes || '',
+    trackLength: track.trackLength || '',
+    fileDate: track.fileDate || '',
+    leakDate: track.leakDate || '',
+    availableLength: track.availableLength || '',
+    quality: track.quality || '',
+    links: track.links || [],
+    isSpecial: track.isSpecial ?? false,
+    isWanted: track.isWanted ?? false,
+  };
+}
+
+function normalizeAlbums(albums: Album[]): Album[] {
+  return SheetParser.deriveEraFields(albums.map(album => ({
+    ...album,
+    id: album.id || '',
+    notes: album.notes || '',
+    description: album.description || '',
+    tracks: album.tracks.map(track => normalizeTrack(track, album.name)),
+  })));
+}
+
+/**
+ * Imports TrackerExport JSON written by DataExporter or JSONExporter, so archived trackers can be viewed offline
+ */
+export class TrackerImporter {
+  /**
+   * Schema errors for an export, empty when it is valid
+   */
+  static validate(input: unknown): string[] {
+    const errors: string[] = [];
+    validateNode(input, TRACKER_EXPORT_SCHEMA, 'export', errors);
+    return errors;
+  }
+
+  /**
+   * Validate, migrate and normalize an export (object or JSON text)
+   */
+  static import(input: unknown): TrackerImportResult {
+    let parsed = input;
+    if (typeof input === 'string') {
+      try {
+        parsed = JSON.parse(input);
+      } catch (error) {
+        return { ok: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+      }
+    }
+
+    const errors = this.validate(parsed);
+    if (errors.length > 0) return { ok: false, errors };
+
+    let data = parsed as TrackerExport;
+    // Exports written without metadata (includeMetadata: false) come from the current exporter
+    const exportVersion = data.metadata?.exportVersion || CURRENT_EXPORT_VERSION;
+    if (!SUPPORTED_EXPORT_VERSIONS.includes(exportVersion)) {
+      return {
+        ok: false,
+        errors: [`Unsupported export version ${exportVersion} (supported: ${SUPPORTED_EXPORT_VERSIONS.join(', ')})`],
+      };
+    }
+
+    data = {
+      ...data,
+      trackerName: data.trackerName || data.artist.name,
+      metadata: data.metadata || { totalTracks: 0, totalAlbums: 0, exportVersion },
+    };
+    for (let version = exportVersion; version !== CURRENT_EXPORT_VERSION; version = MIGRATIONS[version].to) {
+      console.log(`🔄 Migrating export ${data.docId} from ${version} to ${MIGRATIONS[version].to}`);
+      data = MIGRATIONS[version].migrate(data);
+    }
+
+    const artist: Artist = {
+      ...data.artist,
+      albums: normalizeAlbums(data.artist.albums),
+      sections: data.artist.sections && Object.fromEntries(
+        Object.entries(data.artist.sections).map(([type, albums]) => [type, normalizeAlbums(albums || [])])
+      ),
+      lastUpdated: data.artist.lastUpdated || data.lastUpdated,
+    };
+    const runtime = computeRuntime(artist.albums.flatMap(album => album.tracks));
+
+    data = {
+      ...data,
+      artist,
+      metadata: {
+        ...data.metadata,
+        totalTracks: artist.albums.reduce((sum, album) => sum + album.tracks.length, 0),
+        totalAlbums: artist.albums.length,
+        totalRuntimeSeconds: runtime.totalSeconds,
+        availableRuntimeSeconds: runtime.availableSeconds,
+      },
+    };
+
+    console.log(`📦 Imported ${data.trackerName}: ${data.metadata.totalTracks} tracks in ${data.metadata.totalAlbums} eras`);
+
+    return {
+      ok: true,
+      data,
+      artist,
+      exportVersion,
+      migratedFrom: exportVersion !== CURRENT_EXPORT_VERSION ? exportVersion : undefined,
+    };
+  }
+
+  /**
+   * API response for an imported tracker, shaped like a live parse
+   */
+  static toSpreadsheetData(result: ImportedTracker): ParsedSpreadsheetData {
+    const summary = SheetParser.getTabSummary(result.artist);
+    return {
+      artist: result.artist,
+      ...summary,
+      // Exports from before tab detection only carry the flags
+      hasUpdatesPage: summary.hasUpdatesPage || (result.data.hasUpdatesPage ?? false),
+      hasStatisticsPage: summary.hasStatisticsPage || (result.data.hasStatisticsPage ?? false),
+      importInfo: {
+        docId: result.data.docId,
+        sourceUrl: result.data.sourceUrl,
+        exportedAt: result.data.lastUpdated,
+        exportVersion: result.exportVersion,
+        migratedFrom: result.migratedFrom,
+      },
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { TrackerProfile } from '@/types';
+
+/**
+ * Default profile - matches the layout most trackers share
+ */
+export const DEFAULT_PROFILE: TrackerProfile = {
+  name: 'default',
+  hasUpdatesPage: false,
+  hasStatisticsPage: false,
+  columnMappings: {
+    era: ['era', 'album'],
+    name: ['^name', 'song title', 'track title'],
+    notes: ['note'],
+    trackLength: ['track.*length', 'length.*track', 'duration'],
+    leakDate: ['leak.*date', 'date.*leak'],
+    fileDate: ['file.*date', 'date.*file'],
+    quality: ['quality'],
+    links: ['link', 'url'],
+  },
+  eraPatterns: [
+    '^\\d+\\s*og\\s*file',
+    '\\d+\\s*(full|tagged|partial|snippet|stem|bounce|unavailable)',
+  ],
+  footerPatterns: [
+    'total tracks',
+    'total files',
+    'statistic',
+    'last updated',
+    '^\\d+\\s+(total|files|tracks|links)',
+  ],
+};
+
+/**
+ * Tracker profile registry
+ * Lets odd tracker layouts be onboarded by registering a profile instead of editing parser code
+ */
+export class TrackerProfileRegistry {
+  private static profiles = new Map<string, TrackerProfile>([[DEFAULT_PROFILE.name, DEFAULT_PROFILE]]);
+  private static patternCache = new Map<string, RegExp>();
+
+  /**
+   * Register (or replace) a named profile
+   */
+  static register(profile: TrackerProfile): void {
+    this.profiles.set(profile.name, profile);
+  }
+
+  /**
+   * Get a profile by name, falling back to the default profile
+   */
+  static get(name: string): TrackerProfile {
+    return this.profiles.get(name) || DEFAULT_PROFILE;
+  }
+
+  /**
+   * List all registered profiles
+   */
+  static list(): TrackerProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Pick the profile for a tracker: explicit doc ID first, then header fingerprint, then default
+   */
+  static resolve(docId: string | null, rows: string[][] = []): TrackerProfile {
+    const candidates = this.list().filter(profile => profile !== DEFAULT_PROFILE);
+
+    if (docId) {
+      const byDocId = candidates.find(profile => profile.docIds?.includes(docId));
+      if (byDocId) return byDocId;
+    }
+
+    const headerCells = new Set(
+      rows.slice(0, 5).flat().map(cell => cell?.toLowerCase().trim() || '').filter(cell => cell)
+    );
+    const byFingerprint = candidates.find(profile =>
+      profile.headerFingerprint &&
+      profile.headerFingerprint.length > 0 &&
+      profile.headerFingerprint.every(cell => headerCells.has(cell.toLowerCase().trim()))
+    );
+
+    return byFingerprint || DEFAULT_PROFILE;
+  }
+
+  /**
+   * Test a value against a list of case-insensitive regex patterns
+   */
+  static matchesAny(value: string, patterns: string[]): boolean {
+    return patterns.some(pattern => this.compile(pattern).test(value));
+  }
+
+  private static compile(pattern: string): RegExp {
+    let regex = this.patternCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern, 'i');
+      this.patternCache.set(pattern, regex);
+    }
+    return regex;
+  }
+}
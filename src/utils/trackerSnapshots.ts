@@ -0,0 +1,129 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Artist, TrackerSnapshot, TrackerSnapshotInfo } from '@/types';
+
+const MAX_SNAPSHOTS = 100; // per tracker; the oldest are pruned
+
+/**
+ * Timestamped copies of each parsed tracker, stored as snapshots/<docId>/<id>.json with an index.json listing them
+ */
+export class TrackerSnapshots {
+  private static SNAPSHOT_DIR = path.join(process.cwd(), process.env.SNAPSHOT_DIR || 'snapshots');
+  private static writes = new Map<string, Promise<unknown>>();
+
+  /**
+   * Move the snapshot store, e.g. to a temporary directory in tests
+   */
+  static configure(options: { directory?: string }): void {
+    if (options.directory) this.SNAPSHOT_DIR = options.directory;
+  }
+
+  private static getTrackerDir(docId: string): string {
+    return path.join(this.SNAPSHOT_DIR, docId.replace(/[^a-zA-Z0-9_-]/g, '_'));
+  }
+
+  private static async writeJSON(filePath: string, data: unknown): Promise<void> {
+    // Write then rename so readers never see a half-written file
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Hash of the parsed content, ignoring the parse time
+   */
+  static getContentHash(artist: Artist): string {
+    const { lastUpdated, ...content } = artist;
+    void lastUpdated;
+    return createHash('sha1').update(JSON.stringify(content)).digest('hex');
+  }
+
+  /**
+   * Snapshots of a tracker, oldest first
+   */
+  static async list(docId: string): Promise<TrackerSnapshotInfo[]> {
+    try {
+      const data = await fs.readFile(path.join(this.getTrackerDir(docId), 'index.json'), 'utf-8');
+      return JSON.parse(data) as TrackerSnapshotInfo[];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Store a snapshot unless the tracker is unchanged since the latest one
+   * Resolves with the stored snapshot and the one before it, which is the same snapshot when nothing changed;
+   * saves for one tracker run one at a time so concurrent saves can't drop each other from the index
+   */
+  static save(
+    docId: string,
+    artist: Artist,
+    takenAt: Date = new Date()
+  ): Promise<{ snapshot: TrackerSnapshotInfo; previous: TrackerSnapshotInfo | null }> {
+    const previous = this.writes.get(docId) || Promise.resolve();
+    const write = previous.then(() => this.writeSnapshot(docId, artist, takenAt));
+    // A failed save doesn't hold up the next one
+    this.writes.set(docId, write.catch(() => undefined));
+    return write;
+  }
+
+  private static async writeSnapshot(
+    docId: string,
+    artist: Artist,
+    takenAt: Date
+  ): Promise<{ snapshot: TrackerSnapshotInfo; previous: TrackerSnapshotInfo | null }> {
+    const snapshots = await this.list(docId);
+    const hash = this.getContentHash(artist);
+    const latest = snapshots[snapshots.length - 1] || null;
+    if (latest?.hash === hash) {
+      return { snapshot: latest, previous: latest };
+    }
+
+    const info: TrackerSnapshotInfo = {
+      id: takenAt.toISOString().replace(/[:.]/g, '-'),
+      docId,
+      takenAt: takenAt.toISOString(),
+      trackerName: artist.name,
+      totalTracks: artist.albums.reduce((sum, album) => sum + album.tracks.length, 0),
+      hash,
+    };
+
+    const dir = this.getTrackerDir(docId);
+    await fs.mkdir(dir, { recursive: true });
+    await this.writeJSON(path.join(dir, `${info.id}.json`), { ...info, artist } satisfies TrackerSnapshot);
+
+    const kept = [...snapshots.filter(snapshot => snapshot.id !== info.id), info];
+    const pruned = kept.splice(0, Math.max(0, kept.length - MAX_SNAPSHOTS));
+    await this.writeJSON(path.join(dir, 'index.json'), kept);
+    for (const snapshot of pruned) {
+      await fs.rm(path.join(dir, `${snapshot.id}.json`), { force: true });
+    }
+
+    console.log(`📸 Saved snapshot ${info.id} of ${docId} (${info.totalTracks} tracks)`);
+    return { snapshot: info, previous: latest };
+  }
+
+  /**
+   * Load one snapshot
+   */
+  static async load(docId: string, id: string): Promise<TrackerSnapshot | null> {
+    if (!/^[\w-]+$/.test(id)) return null;
+    try {
+      const data = await fs.readFile(path.join(this.getTrackerDir(docId), `${id}.json`), 'utf-8');
+      return JSON.parse(data) as TrackerSnapshot;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Newest snapshot taken at or before a time, falling back to the oldest one
+   */
+  static async findAt(docId: string, time: Date): Promise<TrackerSnapshot | null> {
+    const snapshots = await this.list(docId);
+    const before = snapshots.filter(snapshot => Date.parse(snapshot.takenAt) <= time.getTime());
+    const match = before[before.length - 1] || snapshots[0];
+    return match ? this.load(docId, match.id) : null;
+  }
+}
@@ -0,0 +1,135 @@
+import { Artist, TrackChange, TrackerDiff, UpdateEntry, UpdateFilter, UpdateTrackRef } from '@/types';
+import { AVAILABILITY_LABELS, QUALITY_TIER_LABELS } from './qualityTaxonomy';
+import { parseTrackerDate, isTrackerDateWithin } from './trackerDate';
+
+export const UPDATE_TYPES: UpdateEntry['type'][] = ['leak', 'addition', 'update', 'removal'];
+
+export const UPDATE_TYPE_LABELS: Record<UpdateEntry['type'], string> = {
+  leak: 'Leak',
+  addition: 'Addition',
+  update: 'Update',
+  removal: 'Removal',
+};
+
+// Titles shorter than this match too many unrelated words
+const MIN_TITLE_LENGTH = 4;
+const MAX_TRACK_REFS = 10;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Tracks whose titles appear in an update description, first version of each title, longest titles first
+ */
+export function findMentionedTracks(description: string, artist: Artist): UpdateTrackRef[] {
+  const byTitle = new Map<string, UpdateTrackRef>();
+  for (const album of artist.albums) {
+    for (const track of album.tracks) {
+      const title = track.title.main.trim();
+      const key = title.toLowerCase();
+      if (title.length < MIN_TITLE_LENGTH || track.title.isUnknown || byTitle.has(key)) continue;
+      byTitle.set(key, { id: track.id, title, era: album.name, eraId: album.id });
+    }
+  }
+
+  const text = description.toLowerCase();
+  const matches: UpdateTrackRef[] = [];
+  for (const [key, ref] of Array.from(byTitle.entries()).sort((a, b) => b[0].length - a[0].length)) {
+    if (!text.includes(key)) continue;
+    // Whole words only, and not inside a longer title that already matched
+    if (!new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(key)}($|[^\\p{L}\\p{N}])`, 'u').test(text)) continue;
+    if (matches.some(match => match.title.toLowerCase().includes(key))) continue;
+    matches.push(ref);
+    if (matches.length >= MAX_TRACK_REFS) break;
+  }
+  return matches;
+}
+
+/**
+ * Updates tab entries with the tracks each one mentions
+ */
+export function linkUpdateTracks(updates: UpdateEntry[], artist: Artist): UpdateEntry[] {
+  return updates.map(update => ({
+    ...update,
+    source: update.source || 'tab',
+    tracks: update.tracks || findMentionedTracks(update.description, artist),
+  }));
+}
+
+/**
+ * Tracker page path that opens a track's details; the era name and title are fallbacks for when IDs have shifted
+ */
+export function getTrackPath(docId: string, track: UpdateTrackRef): string {
+  const params = new URLSearchParams({ era: track.eraId || '', track: track.id, title: track.title });
+  if (track.era) params.set('eraName', track.era);
+  return `/${docId}?${params.toString()}`;
+}
+
+/**
+ * Changelog entry for one detected change
+ */
+export function changeToUpdate(change: TrackChange, date: string): UpdateEntry {
+  const track: UpdateTrackRef = { id: change.trackId, title: change.title, era: change.era, eraId: change.eraId };
+  const labels: Record<string, string> = change.type.startsWith('quality') ? QUALITY_TIER_LABELS : AVAILABILITY_LABELS;
+  const label = (value?: string) => (value && labels[value]) || value || '?';
+
+  let type: UpdateEntry['type'] = 'update';
+  let description: string;
+  switch (change.type) {
+    case 'added':
+      type = 'addition';
+      description = `Added ${change.title} to ${change.era}`;
+      break;
+    case 'removed':
+      type = 'removal';
+      description = `Removed ${change.title} from ${change.era}`;
+      break;
+    case 'renamed':
+      description = `Renamed ${change.previousTitle} to ${change.title}`;
+      break;
+    case 'moved':
+      description = `Moved ${change.title} from ${change.previousEra} to ${change.era}`;
+      break;
+    case 'availability_upgrade':
+      // More of the song surfaced
+      type = 'leak';
+      description = `${change.title}: ${label(change.from)} → ${label(change.to)}`;
+      break;
+    case 'new_links':
+      type = 'leak';
+      description = `New link${change.links && change.links.length > 1 ? 's' : ''} for ${change.title}`;
+      break;
+    default:
+      description = `${change.title}: ${label(change.from)} → ${label(change.to)}`;
+  }
+
+  return {
+    date,
+    description,
+    type,
+    source: 'snapshot',
+    // Removed tracks have nothing to link to
+    tracks: change.type === 'removed' ? [] : [track],
+  };
+}
+
+/**
+ * Changelog entries for a snapshot diff, dated when the newer snapshot was taken
+ */
+export function diffToUpdates(diff: TrackerDiff): UpdateEntry[] {
+  const date = diff.to.slice(0, 10);
+  return diff.changes.map(change => changeToUpdate(change, date));
+}
+
+/**
+ * Updates matching the selected types and overlapping the date range; undated entries only pass without a range
+ */
+export function filterUpdates(updates: UpdateEntry[], filter: UpdateFilter): UpdateEntry[] {
+  const hasRange = !!(filter.from || filter.to);
+  return updates.filter(update => {
+    if (filter.types && filter.types.length > 0 && !filter.types.includes(update.type)) return false;
+    if (!hasRange) return true;
+    return isTrackerDateWithin(parseTrackerDate(update.date), filter.from || null, filter.to || null);
+  });
+}
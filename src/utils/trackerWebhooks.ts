@@ -0,0 +1,421 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  TrackChange,
+  TrackChangeType,
+  TrackerDiff,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookFormat,
+  WebhookHttpClient,
+  WebhookSubscription,
+} from '@/types';
+import { fetchPinned, resolvePublicUrl } from './streamProxy';
+import { changeToUpdate } from './trackerUpdates';
+import { getBaseDocumentId, reconstructGoogleSheetsUrl } from './urlUtils';
+
+export const DEFAULT_WEBHOOK_EVENTS: TrackChangeType[] = ['added', 'removed', 'quality_upgrade', 'quality_downgrade'];
+
+const DEFAULT_RETRY_DELAYS_MS = [1000, 5000, 25000, 120000]; // waits between attempts; one more attempt than entries
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_DELIVERIES = 200; // per tracker; the oldest are pruned
+const MAX_SUBSCRIPTIONS = 20; // per document; registration is open to anyone
+const MAX_PAYLOAD_CHANGES = 200;
+const MAX_DISCORD_LINES = 25;
+const DISCORD_COLOR = 0x9333ea; // purple-600, the app's accent
+
+const CHANGE_EMOJI: Record<TrackChangeType, string> = {
+  added: '🆕',
+  removed: '🗑️',
+  renamed: '✏️',
+  moved: '📦',
+  quality_upgrade: '⬆️',
+  quality_downgrade: '⬇️',
+  availability_upgrade: '🔓',
+  availability_downgrade: '🔒',
+  new_links: '🔗',
+};
+
+/**
+ * HTTP client that POSTs with fetch, refusing private addresses unless allowPrivate is set
+ * Public receivers are connected to at the address that was checked, so a second DNS answer can't redirect the POST
+ */
+export function createFetchWebhookClient(options: {
+  allowPrivate?: boolean;
+  lookup?: (hostname: string) => Promise<string[]>;
+  fetcher?: (url: string, init: RequestInit, address: string) => Promise<Response>; // connects to the checked address
+} = {}): WebhookHttpClient {
+  const fetcher = options.fetcher || fetchPinned;
+  return {
+    async post(url, body, headers) {
+      const init: RequestInit = {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      };
+      let response: Response;
+      if (options.allowPrivate) {
+        response = await fetch(url, init);
+      } else {
+        const resolved = await resolvePublicUrl(new URL(url), options.lookup);
+        if ('problem' in resolved) throw new Error(resolved.problem.message);
+        response = await fetcher(url, init, resolved.address);
+      }
+      await response.body?.cancel();
+      const retryAfter = Number(response.headers.get('retry-after'));
+      return { status: response.status, retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined };
+    },
+  };
+}
+
+/**
+ * Receiver URL without its path or query, which can hold credentials (Discord webhook URLs end in their token)
+ */
+export function redactWebhookUrl(url: string): string {
+  try {
+    const { origin, pathname, search } = new URL(url);
+    return pathname === '/' && !search ? origin : `${origin}/…`;
+  } catch {
+    return '…';
+  }
+}
+
+/**
+ * Signed TrackerParse payload for a set of changes
+ */
+export function buildJsonPayload(
+  subscription: WebhookSubscription,
+  trackerName: string,
+  diff: TrackerDiff,
+  changes: TrackChange[]
+): Record<string, unknown> {
+  const summary: Partial<Record<TrackChangeType, number>> = {};
+  for (const change of changes) {
+    summary[change.type] = (summary[change.type] || 0) + 1;
+  }
+  return {
+    event: 'tracker.changed',
+    docId: subscription.docId,
+    trackerName,
+    sourceUrl: reconstructGoogleSheetsUrl(subscription.docId),
+    from: diff.from,
+    to: diff.to,
+    summary,
+    changes: changes.slice(0, MAX_PAYLOAD_CHANGES),
+    truncated: changes.length > MAX_PAYLOAD_CHANGES,
+  };
+}
+
+/**
+ * Discord webhook body: one embed listing the changes, with a count per change type
+ */
+export function buildDiscordPayload(
+  subscription: WebhookSubscription,
+  trackerName: string,
+  diff: TrackerDiff,
+  changes: TrackChange[]
+): Record<string, unknown> {
+  const lines = changes
+    .slice(0, MAX_DISCORD_LINES)
+    .map(change => {
+      const { description } = changeToUpdate(change, diff.to);
+      // Added, removed and moved descriptions already name the era
+      const era = ['added', 'removed', 'moved'].includes(change.type) ? '' : ` · *${change.era}*`;
+      return `${CHANGE_EMOJI[change.type]} ${description}${era}`;
+    });
+  if (changes.length > MAX_DISCORD_LINES) {
+    lines.push(`…and ${changes.length - MAX_DISCORD_LINES} more`);
+  }
+
+  const counts = new Map<TrackChangeType, number>();
+  for (const change of changes) {
+    counts.set(change.type, (counts.get(change.type) || 0) + 1);
+  }
+
+  return {
+    username: 'TrackerParse',
+    embeds: [{
+      title: `${trackerName} updated`,
+      url: reconstructGoogleSheetsUrl(subscription.docId),
+      // Discord caps embed descriptions at 4096 characters
+      description: lines.join('\n').slice(0, 4096),
+      color: DISCORD_COLOR,
+      fields: Array.from(counts.entries()).map(([type, count]) => ({
+        name: `${CHANGE_EMOJI[type]} ${type.replace(/_/g, ' ')}`,
+        value: String(count),
+        inline: true,
+      })),
+      timestamp: diff.to,
+    }],
+  };
+}
+
+/**
+ * Per-tracker webhook subscriptions, stored as webhooks/<docId>/subscriptions.json with a deliveries.json log
+ * A refresh that changes a tracker sends each matching subscription a signed POST, retried with backoff
+ * Subscriptions belong to the document, so changes found while parsing any of its tabs reach them
+ */
+export class TrackerWebhooks {
+  private static WEBHOOK_DIR = path.join(process.cwd(), process.env.WEBHOOK_DIR || 'webhooks');
+  private static httpClient: WebhookHttpClient = createFetchWebhookClient({
+    allowPrivate: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+  });
+  private static retryDelaysMs = DEFAULT_RETRY_DELAYS_MS;
+  private static fileWrites = new Map<string, Promise<void>>();
+
+  /**
+   * Swap the HTTP client or retry delays, e.g. a client that posts to a local receiver in tests
+   */
+  static configure(options: { httpClient?: WebhookHttpClient; retryDelaysMs?: number[]; directory?: string }): void {
+    if (options.httpClient) this.httpClient = options.httpClient;
+    if (options.retryDelaysMs) this.retryDelaysMs = options.retryDelaysMs;
+    if (options.directory) this.WEBHOOK_DIR = options.directory;
+  }
+
+  private static getTrackerDir(docId: string): string {
+    return path.join(this.WEBHOOK_DIR, getBaseDocumentId(docId).replace(/[^a-zA-Z0-9_-]/g, '_'));
+  }
+
+  /**
+   * A stored JSON list; empty when it hasn't been written yet
+   * Other failures are thrown, so a write never replaces a file that couldn't be read
+   */
+  private static async readJSON<T>(docId: string, file: string): Promise<T[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.getTrackerDir(docId), file), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return JSON.parse(content) as T[];
+  }
+
+  private static async writeJSON(docId: string, file: string, data: unknown): Promise<void> {
+    const dir = this.getTrackerDir(docId);
+    await fs.mkdir(dir, { recursive: true });
+    // Write then rename so readers never see a half-written file
+    const filePath = path.join(dir, file);
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Read, change and rewrite a JSON list; updates of one file run one at a time so concurrent changes aren't lost
+   */
+  private static updateJSON<T>(docId: string, file: string, update: (items: T[]) => T[]): Promise<void> {
+    const filePath = path.join(this.getTrackerDir(docId), file);
+    const previous = this.fileWrites.get(filePath) || Promise.resolve();
+    const write = previous.then(async () => {
+      await this.writeJSON(docId, file, update(await this.readJSON<T>(docId, file)));
+    });
+    // A failed write doesn't hold up the next one
+    this.fileWrites.set(filePath, write.catch(() => undefined));
+    return write;
+  }
+
+  private static hashManagementKey(managementKey: string): string {
+    return createHash('sha256').update(managementKey).digest('hex');
+  }
+
+  /**
+   * Signature header value for a payload: HMAC-SHA256 of "<timestamp>.<body>"
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Check a received signature, for receivers written in TypeScript
+   */
+  static verifySignature(secret: string, signature: string, timestamp: string, body: string): boolean {
+    const expected = Buffer.from(this.sign(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Whether a management key belongs to a webhook; webhooks registered without one can't be managed
+   */
+  static verifyManagementKey(subscription: WebhookSubscription, managementKey: string): boolean {
+    if (!subscription.managementKeyHash) return false;
+    const expected = Buffer.from(subscription.managementKeyHash);
+    const actual = Buffer.from(this.hashManagementKey(managementKey));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Webhooks registered for a tracker
+   */
+  static async list(docId: string): Promise<WebhookSubscription[]> {
+    return this.readJSON<WebhookSubscription>(docId, 'subscriptions.json');
+  }
+
+  /**
+   * Register a webhook; a secret is generated when none is given
+   * The management key is only returned here; deleting or testing the webhook requires it
+   * Refused when the URL is already registered for the document or the document has MAX_SUBSCRIPTIONS webhooks
+   */
+  static async register(
+    docId: string,
+    options: { url: string; format?: WebhookFormat; events?: TrackChangeType[]; secret?: string }
+  ): Promise<{ subscription: WebhookSubscription; managementKey: string } | { problem: { message: string; status: number } }> {
+    const managementKey = `whmk_${randomBytes(24).toString('hex')}`;
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      docId: getBaseDocumentId(docId),
+      url: options.url,
+      secret: options.secret || `whsec_${randomBytes(24).toString('hex')}`,
+      managementKeyHash: this.hashManagementKey(managementKey),
+      format: options.format || 'json',
+      events: options.events && options.events.length > 0 ? options.events : DEFAULT_WEBHOOK_EVENTS,
+      createdAt: new Date().toISOString(),
+    };
+    // Checked inside the update so overlapping registrations can't both get past the limit
+    let problem: string | null = null;
+    await this.updateJSON<WebhookSubscription>(docId, 'subscriptions.json', subscriptions => {
+      if (subscriptions.some(existing => existing.url === subscription.url)) {
+        problem = 'This URL is already registered for this tracker';
+      } else if (subscriptions.length >= MAX_SUBSCRIPTIONS) {
+        problem = `A tracker can have at most ${MAX_SUBSCRIPTIONS} webhooks`;
+      }
+      return problem ? subscriptions : [...subscriptions, subscription];
+    });
+    if (problem) return { problem: { message: problem, status: 409 } };
+
+    console.log(`🪝 Registered webhook ${subscription.id} for ${subscription.docId}`);
+    return { subscription, managementKey };
+  }
+
+  /**
+   * Remove a webhook; false when it doesn't exist
+   */
+  static async remove(docId: string, id: string): Promise<boolean> {
+    let removed = false;
+    await this.updateJSON<WebhookSubscription>(docId, 'subscriptions.json', subscriptions => {
+      const kept = subscriptions.filter(subscription => subscription.id !== id);
+      removed = kept.length < subscriptions.length;
+      return kept;
+    });
+    return removed;
+  }
+
+  /**
+   * Delivery log of a tracker, newest first
+   */
+  static async getDeliveries(docId: string, webhookId?: string): Promise<WebhookDelivery[]> {
+    const deliveries = await this.readJSON<WebhookDelivery>(docId, 'deliveries.json');
+    return deliveries.filter(delivery => !webhookId || delivery.webhookId === webhookId).reverse();
+  }
+
+  /**
+   * Notify every subscription interested in a diff's changes
+   */
+  static async dispatch(docId: string, trackerName: string, diff: TrackerDiff): Promise<WebhookDelivery[]> {
+    const subscriptions = await this.list(docId);
+    const deliveries = await Promise.all(subscriptions.map(subscription => {
+      const changes = diff.changes.filter(change => subscription.events.includes(change.type));
+      if (changes.length === 0) return null;
+      const payload = subscription.format === 'discord'
+        ? buildDiscordPayload(subscription, trackerName, diff, changes)
+        : buildJsonPayload(subscription, trackerName, diff, changes);
+      return this.deliver(subscription, 'tracker.changed', payload, changes.length);
+    }));
+    return deliveries.filter((delivery): delivery is WebhookDelivery => delivery !== null);
+  }
+
+  /**
+   * Send a ping to one webhook, to check the receiver and its signature handling
+   */
+  static async sendTest(docId: string, id: string): Promise<WebhookDelivery | null> {
+    const subscription = (await this.list(docId)).find(subscription => subscription.id === id);
+    if (!subscription) return null;
+    const payload = subscription.format === 'discord'
+      ? { username: 'TrackerParse', content: `🪝 Webhook test for tracker ${docId}` }
+      : { event: 'ping', docId, webhookId: id };
+    // One attempt, so the caller sees the receiver's answer right away
+    return this.deliver(subscription, 'ping', payload, 0, []);
+  }
+
+  /**
+   * POST a payload, retrying network errors, 429s and 5xx responses with backoff, and log the outcome
+   */
+  private static async deliver(
+    subscription: WebhookSubscription,
+    event: WebhookDelivery['event'],
+    payload: Record<string, unknown>,
+    changeCount: number,
+    retryDelaysMs: number[] = this.retryDelaysMs
+  ): Promise<WebhookDelivery> {
+    const id = randomUUID();
+    const body = JSON.stringify(payload);
+    const attempts: WebhookAttempt[] = [];
+    let delivered = false;
+
+    for (let attempt = 0; attempt <= retryDelaysMs.length; attempt++) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const startedAt = Date.now();
+      let retryAfterMs: number | undefined;
+      try {
+        const response = await this.httpClient.post(subscription.url, body, {
+          'Content-Type': 'application/json',
+          'User-Agent': 'TrackerParse-Webhooks',
+          'X-TrackerParse-Event': event,
+          'X-TrackerParse-Delivery': id,
+          'X-TrackerParse-Timestamp': timestamp,
+          'X-TrackerParse-Signature': this.sign(subscription.secret, timestamp, body),
+        });
+        attempts.push({ at: new Date(startedAt).toISOString(), status: response.status, durationMs: Date.now() - startedAt });
+        if (response.status >= 200 && response.status < 300) {
+          delivered = true;
+          break;
+        }
+        // Other client errors won't succeed on retry
+        if (response.status !== 429 && response.status < 500) break;
+        retryAfterMs = response.retryAfterMs;
+      } catch (error) {
+        attempts.push({
+          at: new Date(startedAt).toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startedAt,
+        });
+      }
+
+      if (attempt < retryDelaysMs.length) {
+        const delay = Math.min(Math.max(retryDelaysMs[attempt], retryAfterMs || 0), MAX_RETRY_AFTER_MS);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: subscription.id,
+      docId: subscription.docId,
+      url: subscription.url,
+      event,
+      changeCount,
+      status: delivered ? 'delivered' : 'failed',
+      attempts,
+      createdAt: attempts[0].at,
+    };
+    console.log(`${delivered ? '🪝' : '⚠️'} Webhook ${subscription.id} ${delivery.status} after ${attempts.length} attempt(s)`);
+    await this.appendDelivery(delivery);
+    return delivery;
+  }
+
+  /**
+   * Add to the delivery log, keeping the newest deliveries
+   */
+  private static appendDelivery(delivery: WebhookDelivery): Promise<void> {
+    return this.updateJSON<WebhookDelivery>(delivery.docId, 'deliveries.json', deliveries =>
+      [...deliveries, delivery].slice(-MAX_DELIVERIES)
+    ).catch(error => {
+      console.error(`Failed to log webhook delivery ${delivery.id}:`, error);
+    });
+  }
+}
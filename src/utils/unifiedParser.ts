@@ -1,12 +1,18 @@
 import axios from 'axios';
-import Papa from 'papaparse';
-import { Artist, Album, Track, TrackTitle, TrackLink, TrackerStatistics } from '@/types';
+import { Artist, ParseReport, SheetTab } from '@/types';
+import { XlsxReader } from './xlsxReader';
+import { SheetParser, SheetData } from './sheetParser';
+
+export interface ParseOptions {
+  format?: 'csv' | 'xlsx'; // xlsx keeps hyperlinks and cell formatting
+}
 
 /**
  * Unified Google Sheets Parser
  * Combines the best features of HtmlParser and ImprovedParser while removing complexity
+ * Fetches tracker tabs from Google Sheets; parsing the rows is SheetParser's job
  */
-export class UnifiedParser {
+export class UnifiedParser extends SheetParser {
   private static readonly USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
   private static readonly REQUEST_TIMEOUT = 30000;
 
@@ -26,19 +32,80 @@ export class UnifiedParser {
    */
   static getCSVUrl(googleSheetsUrl: string): string {
     const docId = this.getDocumentId(googleSheetsUrl);
-    
-    // Extract gid from original URL if present
+    return this.getTabCSVUrl(docId, this.getGid(googleSheetsUrl) || '0');
+  }
+
+  /**
+   * Extract gid from Google Sheets URL, if present
+   */
+  static getGid(googleSheetsUrl: string): string | null {
     const gidMatch = googleSheetsUrl.match(/[?&#]gid=([0-9]+)/);
-    const gid = gidMatch ? gidMatch[1] : '0';
-    
+    return gidMatch ? gidMatch[1] : null;
+  }
+
+  /**
+   * Build CSV export URL for a single tab
+   */
+  static getTabCSVUrl(docId: string, gid: string): string {
     let csvUrl = `https://docs.google.com/spreadsheets/d/${docId}/export?format=csv`;
     if (gid && gid !== '0') {
       csvUrl += `&gid=${gid}`;
     }
-    
     return csvUrl;
   }
 
+  /**
+   * List all tabs in the workbook from the public htmlview page
+   */
+  static async getSheetTabs(docId: string): Promise<SheetTab[]> {
+    try {
+      const response = await axios.get(`https://docs.google.com/spreadsheets/d/${docId}/htmlview`, {
+        headers: { 'User-Agent': this.USER_AGENT },
+        timeout: this.REQUEST_TIMEOUT,
+      });
+      const html: string = response.data || '';
+      const tabs: SheetTab[] = [];
+      const seen = new Set<string>();
+
+      const addTab = (gid: string, rawName: string) => {
+        if (seen.has(gid)) return;
+        seen.add(gid);
+        const name = this.decodeHtml(rawName).trim();
+        tabs.push({ gid, name, type: this.classifySheetTab(name) });
+      };
+
+      // Tab buttons: <li id="sheet-button-123"><a ...>Name</a></li>
+      const buttonPattern = /id="sheet-button-(\d+)"[^>]*>\s*<a[^>]*>([^<]+)<\/a>/g;
+      let match;
+      while ((match = buttonPattern.exec(html)) !== null) {
+        addTab(match[1], match[2]);
+      }
+
+      // Script data: items.push({name: "Name", pageUrl: "...", gid: "123"
+      if (tabs.length === 0) {
+        const itemPattern = /name:\s*"((?:[^"\\]|\\.)*)",\s*pageUrl:\s*"[^"]*",\s*gid:\s*"(\d+)"/g;
+        while ((match = itemPattern.exec(html)) !== null) {
+          addTab(match[2], match[1].replace(/\\(.)/g, '$1'));
+        }
+      }
+
+      console.log(`Found ${tabs.length} sheet tabs:`, tabs.map(tab => `${tab.name} (${tab.type})`));
+      return tabs;
+    } catch (error) {
+      console.warn('Could not list sheet tabs:', error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+  }
+
+  private static decodeHtml(text: string): string {
+    return text
+      .replace(/&amp;/g, '&')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&#x27;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>');
+  }
+
   /**
    * Get document title from Google Sheets
    */
@@ -65,267 +132,56 @@ export class UnifiedParser {
   }
 
   /**
-   * Parse track title to extract features and metadata
-   */
-  static parseTrackTitle(rawTitle: string): TrackTitle {
-    if (!rawTitle) {
-      return {
-        main: '',
-        isUnknown: false,
-        features: [],
-        collaborators: [],
-        producers: [],
-        references: [],
-        alternateNames: []
-      };
-    }
-
-    let cleanTitle = rawTitle.trim();
-    const features: string[] = [];
-    const producers: string[] = [];
-    const alternateNames: string[] = [];
-
-    // Check if title contains unknown markers
-    const isUnknown = cleanTitle.includes('???');
-
-    // Extract features (ft., feat., featuring)
-    const featurePattern = /\s*(?:\(|\[)?\s*(?:ft\.?|feat\.?|featuring)\s+([^)\]]+?)(?:\)|\])?$/gi;
-    let match = featurePattern.exec(cleanTitle);
-    if (match) {
-      const featList = match[1].split(/[,&]/);
-      features.push(...featList.map(f => f.trim()).filter(f => f));
-      cleanTitle = cleanTitle.replace(match[0], '').trim();
-    }
-
-    // Extract producers (prod., produced by)
-    const producerPattern = /\s*(?:\(|\[)?\s*(?:prod\.?|produced by)\s+([^)\]]+?)(?:\)|\])?$/gi;
-    match = producerPattern.exec(cleanTitle);
-    if (match) {
-      const prodList = match[1].split(/[,&]/);
-      producers.push(...prodList.map(p => p.trim()).filter(p => p));
-      cleanTitle = cleanTitle.replace(match[0], '').trim();
-    }
-
-    // Extract alternate names in parentheses or brackets
-    const altNamePattern = /\s*(?:\(([^)]+)\)|\[([^\]]+)\])/g;
-    let altMatch;
-    while ((altMatch = altNamePattern.exec(cleanTitle)) !== null) {
-      const altName = (altMatch[1] || altMatch[2]).trim();
-      if (altName && !altName.match(/^\d+$/)) {
-        alternateNames.push(altName);
-      }
-      cleanTitle = cleanTitle.replace(altMatch[0], '').trim();
-    }
-
-    // Clean main title
-    const main = cleanTitle
-      .replace(/[🎵🎶🎤🎧🔥💎⭐✨🏆]/g, '') // Remove emojis
-      .replace(/\s+/g, ' ')
-      .trim();
-
-    return {
-      main,
-      isUnknown,
-      features,
-      collaborators: [], // Not commonly used, keeping for compatibility
-      producers,
-      references: [], // Not commonly used, keeping for compatibility
-      alternateNames
-    };
-  }
-
-  /**
-   * Parse track date from various formats
-   */
-  static parseTrackDate(dateString: string): Date | null {
-    if (!dateString?.trim()) return null;
-
-    try {
-      // Try direct parsing first
-      const date = new Date(dateString.trim());
-      if (!isNaN(date.getTime()) && date.getFullYear() > 1900) {
-        return date;
-      }
-    } catch {
-      // Continue to manual parsing
-    }
-
-    return null;
-  }
-
-  /**
-   * Categorize links by platform
-   */
-  static categorizeLink(url: string): { platform: string; type: string; isValid: boolean } {
-    if (!url?.trim()) {
-      return { platform: 'unknown', type: 'unknown', isValid: false };
-    }
-
-    const cleanUrl = url.trim();
-    const isValid = /^https?:\/\/.+/.test(cleanUrl);
-    
-    let platform = 'unknown';
-    let type = 'unknown';
-    
-    if (cleanUrl.includes('youtube.com') || cleanUrl.includes('youtu.be')) {
-      platform = 'youtube';
-      type = 'video';
-    } else if (cleanUrl.includes('soundcloud.com')) {
-      platform = 'soundcloud';
-      type = 'audio';
-    } else if (cleanUrl.includes('spotify.com')) {
-      platform = 'spotify';
-      type = 'stream';
-    } else if (cleanUrl.includes('apple.com/music') || cleanUrl.includes('music.apple.com')) {
-      platform = 'apple-music';
-      type = 'stream';
-    } else if (cleanUrl.includes('pillows.su') || cleanUrl.includes('pillowcase.su')) {
-      platform = 'pillowcase';
-      type = 'audio';
-    }
-
-    return { platform, type, isValid };
-  }
-
-  /**
-   * Find header row and create column mapping
-   */
-  static findHeaderRow(rows: string[][]): { headerIndex: number; columnMap: Record<string, number> } {
-    const columnMap: Record<string, number> = {};
-    let headerIndex = -1;
-
-    // Look for a row containing common column names
-    for (let i = 0; i < Math.min(5, rows.length); i++) {
-      const row = rows[i];
-      const lowerRow = row.map(cell => cell?.toLowerCase().trim() || '');
-      
-      let matchCount = 0;
-      const tempMap: Record<string, number> = {};
-
-      lowerRow.forEach((cell, index) => {
-        console.log(`Checking cell ${index}: "${cell}"`);
-        if (cell.includes('era') || cell.includes('album')) {
-          tempMap['era'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'era' at index ${index}`);
-        } else if (cell === 'name' || cell.startsWith('name') || cell.includes('song title') || cell.includes('track title')) {
-          tempMap['name'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'name' at index ${index}`);
-        } else if (cell.includes('notes') || cell.includes('note')) {
-          tempMap['notes'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'notes' at index ${index}`);
-        } else if ((cell.includes('track') && cell.includes('length')) || cell.includes('duration')) {
-          tempMap['trackLength'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'trackLength' at index ${index}`);
-        } else if (cell.includes('leak') && cell.includes('date')) {
-          tempMap['leakDate'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'leakDate' at index ${index}`);
-        } else if (cell.includes('file') && cell.includes('date')) {
-          tempMap['fileDate'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'fileDate' at index ${index}`);
-        } else if (cell.includes('quality')) {
-          tempMap['quality'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'quality' at index ${index}`);
-        } else if (cell.includes('link') || cell.includes('url')) {
-          tempMap['links'] = index;
-          matchCount++;
-          console.log(`  -> Matched 'links' at index ${index}`);
-        }
-      });
-
-      // If we found enough column matches, this is likely the header
-      if (matchCount >= 3) {
-        headerIndex = i;
-        Object.assign(columnMap, tempMap);
-        break;
-      }
-    }
-
-    return { headerIndex, columnMap };
-  }
-
-  /**
-   * Parse CSV data into structured format
+   * Main parsing method
    */
-  static async parseCSVData(csvData: string): Promise<string[][]> {
-    return new Promise((resolve, reject) => {
-      Papa.parse(csvData, {
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            console.warn('CSV parsing warnings:', results.errors);
-          }
-          resolve(results.data as string[][]);
-        },
-        error: (error: any) => reject(error),
-        skipEmptyLines: true
-      });
-    });
+  static async parseGoogleDoc(googleSheetsUrl: string, options: ParseOptions = {}): Promise<Artist> {
+    const { artist } = await this.parseGoogleDocWithReport(googleSheetsUrl, options);
+    return artist;
   }
 
   /**
-   * Main parsing method
+   * Parse a Google Sheets document and return the row-by-row report for its main tab
    */
-  static async parseGoogleDoc(googleSheetsUrl: string): Promise<Artist> {
+  static async parseGoogleDocWithReport(
+    googleSheetsUrl: string,
+    options: ParseOptions = {}
+  ): Promise<{ artist: Artist; report: ParseReport }> {
     try {
       console.log(`Parsing Google Sheets: ${googleSheetsUrl}`);
-      
-      // Get CSV URL and fetch data
-      const csvUrl = this.getCSVUrl(googleSheetsUrl);
-      console.log(`Fetching CSV from: ${csvUrl}`);
-
-      const response = await axios.get(csvUrl, {
-        headers: { 'User-Agent': this.USER_AGENT },
-        timeout: this.REQUEST_TIMEOUT,
-      });
-
-      if (!response.data) {
-        throw new Error('No data received from Google Sheets');
-      }
-
-      // Parse CSV data
-      const rows = await this.parseCSVData(response.data);
-      console.log(`Parsed ${rows.length} rows from CSV`);
-      console.log('First 5 rows:', rows.slice(0, 5));
-
-      if (rows.length === 0) {
-        throw new Error('No data found in spreadsheet');
-      }
+      const docId = this.getDocumentId(googleSheetsUrl);
 
-      // Find header row and column mapping
-      const { headerIndex, columnMap } = this.findHeaderRow(rows);
-      
-      console.log(`Header search results: headerIndex=${headerIndex}, columnMap=`, columnMap);
-      
-      if (headerIndex === -1) {
-        console.log('Header not found. First 10 rows for debugging:');
-        for (let i = 0; i < Math.min(10, rows.length); i++) {
-          console.log(`Row ${i}:`, rows[i]);
-        }
-        throw new Error('Could not find header row in spreadsheet');
+      // Find all tabs; an explicit gid in the URL picks the main tab
+      let tabs = await this.getSheetTabs(docId);
+      let loadTab = async (tab: SheetTab): Promise<SheetData> => ({ rows: await this.fetchTabRows(docId, tab.gid) });
+
+      if (options.format === 'xlsx') {
+        const sheets = await this.fetchWorkbookSheets(docId);
+        const sheetsByGid = new Map<string, SheetData>();
+
+        // Workbook sheet names are authoritative; gids come from the tab list when names match
+        tabs = sheets.map((sheet, index) => {
+          const gid = tabs.find(tab => tab.name === sheet.name)?.gid || String(index);
+          sheetsByGid.set(gid, sheet);
+          return { gid, name: sheet.name, type: this.classifySheetTab(sheet.name) };
+        });
+
+        // A gid missing from the htmlview tab list cannot be matched to a sheet; read that tab as CSV instead
+        loadTab = async (tab: SheetTab) => {
+          const sheet = sheetsByGid.get(tab.gid);
+          if (!sheet) {
+            console.warn(`⚠️ Tab ${tab.gid} not found in workbook, falling back to CSV`);
+            return { rows: await this.fetchTabRows(docId, tab.gid) };
+          }
+          return sheet;
+        };
       }
 
-      console.log(`Found header at row ${headerIndex}:`, rows[headerIndex]);
+      const mainTab = this.pickMainTab(tabs, this.getGid(googleSheetsUrl));
 
-      // Parse sheet data
-      const albums = this.parseSheetData(rows, columnMap, headerIndex + 1);
-      
       // Get document title and extract artist name
       const documentTitle = await this.getDocumentTitle(googleSheetsUrl);
-      const artistName = documentTitle.replace(/tracker/i, '').trim() || 'Unknown Artist';
-
-      console.log(`Parsed ${albums.length} albums for artist: ${artistName}`);
 
-      return {
-        name: artistName,
-        albums,
-        lastUpdated: new Date().toISOString()
-      };
+      return await this.parseTabs(this.getArtistName(documentTitle), docId, tabs, mainTab, loadTab);
 
     } catch (error) {
       console.error('Error parsing Google Sheets:', error);
@@ -343,210 +199,45 @@ export class UnifiedParser {
   }
 
   /**
-   * Parse sheet data into albums and tracks
+   * Fetch a single tab as CSV rows
    */
-  private static parseSheetData(rows: string[][], columnMap: Record<string, number>, startRow: number): Album[] {
-    console.log(`🔄 parseSheetData: Processing ${rows.length} rows starting from row ${startRow}`);
-    console.log('🗂️ Column mapping:', columnMap);
-    
-    const albums: Album[] = [];
-    let currentAlbum: Album | null = null;
-    let currentEraName = '';
-    
-    // Find where data ends (statistics section)
-    let dataEndRow = rows.length;
-    for (let i = startRow; i < rows.length; i++) {
-      const firstCell = rows[i]?.[0]?.toLowerCase() || '';
-      // Look for actual statistics keywords
-      if (firstCell.includes('total tracks') || firstCell.includes('total files') || 
-          firstCell.includes('statistic') || firstCell.includes('last updated') ||
-          firstCell.match(/^\d+\s+(total|files|tracks|links)/)) {
-        dataEndRow = i;
-        console.log(`📊 Found statistics section at row ${i}: "${firstCell}"`);
-        break;
-      }
-    }
-    
-    console.log(`📊 Data processing range: rows ${startRow} to ${dataEndRow} (${dataEndRow - startRow} rows)`);
+  private static async fetchTabRows(docId: string, gid: string): Promise<string[][]> {
+    const csvUrl = this.getTabCSVUrl(docId, gid);
+    console.log(`Fetching CSV from: ${csvUrl}`);
 
-    // Process data rows
-    for (let i = startRow; i < dataEndRow; i++) {
-      const row = rows[i];
-      
-      if (!row || row.every(cell => !cell?.trim())) {
-        continue; // Skip empty rows
-      }
-
-      const eraCol = row[columnMap['era'] || 0]?.trim() || '';
-      const nameCol = row[columnMap['name'] || 1]?.trim() || '';
-
-      console.log(`📋 Row ${i}: eraCol="${eraCol}", nameCol="${nameCol}"`);
-
-      // Skip obvious non-data rows (Discord messages, statistics, etc.)
-      if (eraCol && !nameCol) {
-        // Check if this looks like a message/announcement rather than an era
-        if (eraCol.toLowerCase().includes('discord') || 
-            eraCol.toLowerCase().includes('tracker') ||
-            eraCol.toLowerCase().includes('server') ||
-            eraCol.toLowerCase().includes('join') ||
-            eraCol.includes('http') ||
-            // Statistics pattern like "1 OG File(s)\n42 Full\n1 Tagged..."
-            eraCol.match(/^\d+\s*og\s*file/i) ||
-            eraCol.match(/\d+\s*(full|tagged|partial|snippet|stem|bounce|unavailable)/i) ||
-            // General statistics patterns
-            eraCol.match(/^\d+\s*(og|full|tagged|partial|snippet|stem|bounce|unavailable)/i)) {
-          console.log(`⏭️  Skipping non-data row: "${eraCol}"`);
-          continue;
-        }
-      }
-
-      // Also check for statistics in Era column even when Name column exists
-      if (eraCol && nameCol) {
-        // Check if Era column contains statistics info
-        if (eraCol.match(/^\d+\s*og\s*file/i) ||
-            eraCol.match(/\d+\s*(full|tagged|partial|snippet|stem|bounce|unavailable)/i)) {
-          console.log(`⏭️  Skipping statistics row with era stats: "${eraCol}" and name: "${nameCol}"`);
-          // Use the name as the new era instead
-          if (!currentEraName) {
-            currentEraName = nameCol;
-            console.log(`🎵 Setting era from name column: ${nameCol}`);
-          }
-          continue;
-        }
-      }
-
-      // Handle track rows
-      if (nameCol) {
-        // Determine the era for this track
-        let trackEra = currentEraName;
-        
-        if (eraCol) {
-          // This row has both era and name - update current era
-          currentEraName = eraCol;
-          trackEra = eraCol;
-        }
-        
-        // If we don't have an era yet, skip this track
-        if (!trackEra) {
-          console.log(`⏭️  Skipping track without era: "${nameCol}"`);
-          continue;
-        }
-
-        // Find or create album for this era
-        if (!currentAlbum || currentAlbum.name !== trackEra) {
-          // Start new album
-          if (currentAlbum) {
-            albums.push(currentAlbum);
-            console.log(`✅ Completed album: ${currentAlbum.name} with ${currentAlbum.tracks.length} tracks`);
-          }
-          
-          console.log(`🎵 Starting new album: ${trackEra}`);
-          
-          currentAlbum = {
-            id: `album-${albums.length}`,
-            name: trackEra,
-            picture: '',
-            description: '',
-            tracks: [],
-            metadata: {
-              ogFiles: 0,
-              fullFiles: 0,
-              taggedFiles: 0,
-              partialFiles: 0,
-              snippetFiles: 0,
-              stemBounceFiles: 0,
-              unavailableFiles: 0
-            },
-            notes: ''
-          };
-        }
+    const response = await axios.get(csvUrl, {
+      headers: { 'User-Agent': this.USER_AGENT },
+      timeout: this.REQUEST_TIMEOUT,
+    });
 
-        console.log(`🎵 Adding track: ${nameCol} to album: ${currentAlbum.name}`);
-        
-        const parsedTitle = this.parseTrackTitle(nameCol);
-        const notes = row[columnMap['notes'] || 2] || '';
-        const trackLength = row[columnMap['trackLength'] || 3] || '';
-        const fileDate = row[columnMap['fileDate'] || 4] || '';
-        const leakDate = row[columnMap['leakDate'] || 5] || '';
-        const availableLength = row[columnMap['availableLength'] || 6] || '';
-        const quality = row[columnMap['quality'] || 7] || '';
-        const linksText = row[columnMap['links'] || 8] || '';
-        
-        // Process links
-        const links: TrackLink[] = [];
-        if (linksText) {
-          const linkUrls = linksText.split(/[,\n]/).map(l => l.trim()).filter(l => l);
-          for (const url of linkUrls) {
-            const linkInfo = this.categorizeLink(url);
-            links.push({
-              url,
-              type: linkInfo.type as TrackLink['type'],
-              platform: linkInfo.platform,
-              isValid: linkInfo.isValid
-            });
-          }
-        }
+    if (!response.data) {
+      throw new Error('No data received from Google Sheets');
+    }
 
-        const track: Track = {
-          id: `${currentAlbum.name}-${nameCol}-${currentAlbum.tracks.length}`,
-          era: currentAlbum.name,
-          title: parsedTitle,
-          rawName: nameCol,
-          notes,
-          trackLength,
-          fileDate: this.parseTrackDate(fileDate)?.toISOString().split('T')[0] || fileDate,
-          leakDate: this.parseTrackDate(leakDate)?.toISOString().split('T')[0] || leakDate,
-          availableLength,
-          quality,
-          links,
-          isSpecial: nameCol.includes('⭐') || nameCol.includes('✨') || nameCol.includes('🏆'),
-          specialType: nameCol.includes('⭐') ? '⭐' : 
-                      nameCol.includes('✨') ? '✨' : 
-                      nameCol.includes('🏆') ? '🏆' : undefined,
-          isWanted: nameCol.includes('🥇') || nameCol.includes('🥈') || nameCol.includes('🥉'),
-          wantedType: nameCol.includes('🥇') ? '🥇' : 
-                     nameCol.includes('🥈') ? '🥈' : 
-                     nameCol.includes('🥉') ? '🥉' : undefined
-        };
+    const rows = await this.parseCSVData(response.data);
+    console.log(`Parsed ${rows.length} rows from CSV`);
+    return rows;
+  }
 
-        currentAlbum.tracks.push(track);
-        
-        // Update metadata based on quality
-        const qualityLower = quality.toLowerCase();
-        if (qualityLower.includes('og') || qualityLower.includes('original')) {
-          currentAlbum.metadata.ogFiles++;
-        } else if (qualityLower.includes('high quality') || qualityLower.includes('full')) {
-          currentAlbum.metadata.fullFiles++;
-        } else if (qualityLower.includes('tagged')) {
-          currentAlbum.metadata.taggedFiles++;
-        } else if (qualityLower.includes('partial')) {
-          currentAlbum.metadata.partialFiles++;
-        } else if (qualityLower.includes('snippet')) {
-          currentAlbum.metadata.snippetFiles++;
-        } else if (qualityLower.includes('stem') || qualityLower.includes('bounce')) {
-          currentAlbum.metadata.stemBounceFiles++;
-        } else if (qualityLower.includes('not available') || qualityLower.includes('unavailable')) {
-          currentAlbum.metadata.unavailableFiles++;
-        } else {
-          // Default to full if no specific quality detected
-          currentAlbum.metadata.fullFiles++;
-        }
-        
-        console.log(`➕ Added track: ${nameCol} (${currentAlbum.tracks.length} total tracks in ${currentAlbum.name})`);
-      }
-    }
+  /**
+   * Fetch the whole workbook as XLSX and read every sheet with its formatting
+   */
+  private static async fetchWorkbookSheets(docId: string): Promise<(SheetData & { name: string })[]> {
+    const xlsxUrl = `https://docs.google.com/spreadsheets/d/${docId}/export?format=xlsx`;
+    console.log(`Fetching XLSX from: ${xlsxUrl}`);
+
+    const response = await axios.get(xlsxUrl, {
+      headers: { 'User-Agent': this.USER_AGENT },
+      timeout: this.REQUEST_TIMEOUT,
+      responseType: 'arraybuffer',
+    });
 
-    // Add the last album
-    if (currentAlbum) {
-      albums.push(currentAlbum);
-      console.log(`✅ Completed final album: ${currentAlbum.name} with ${currentAlbum.tracks.length} tracks`);
+    if (!response.data) {
+      throw new Error('No data received from Google Sheets');
     }
-    
-    console.log(`🎯 Total albums parsed: ${albums.length}`);
-    albums.forEach((album, i) => {
-      console.log(`  Album ${i + 1}: ${album.name} (${album.tracks.length} tracks)`);
-    });
 
-    return albums.filter(album => album.tracks.length > 0);
+    const sheets = await XlsxReader.readWorkbook(response.data);
+    console.log(`Read ${sheets.length} sheets from XLSX`);
+    return sheets;
   }
 }
@@ -0,0 +1,68 @@
+import { Artist, TrackerDiff, UpdateEntry, UpdateSource } from '@/types';
+import { TrackerCache } from './trackerCache';
+import { TrackerSnapshots } from './trackerSnapshots';
+import { diffArtists } from './trackerDiff';
+import { diffToUpdates, linkUpdateTracks } from './trackerUpdates';
+import { reconstructGoogleSheetsUrl } from './urlUtils';
+
+const MAX_SNAPSHOT_DIFFS = 20; // consecutive snapshot pairs turned into updates
+const MAX_CACHED_TRACKERS = 50; // trackers whose latest diffs are kept in memory
+
+type SnapshotDiff = { diff: TrackerDiff; artist: Artist };
+
+// Snapshots never change once saved, so the diffs only need recomputing when a newer one is taken
+const diffCache = new Map<string, { key: string; diffs: Promise<SnapshotDiff[]> }>();
+
+/**
+ * Diffs between consecutive stored snapshots, newest first, each with the newer snapshot's tracker
+ */
+export async function loadSnapshotDiffs(docId: string, limit: number = MAX_SNAPSHOT_DIFFS): Promise<SnapshotDiff[]> {
+  const snapshots = (await TrackerSnapshots.list(docId)).slice(-(limit + 1));
+  const key = `${limit}:${snapshots[snapshots.length - 1]?.id ?? ''}`;
+
+  const cached = diffCache.get(docId);
+  if (cached && cached.key === key) return cached.diffs;
+
+  const diffs = computeSnapshotDiffs(docId, snapshots.map(info => info.id));
+  diffCache.delete(docId);
+  diffCache.set(docId, { key, diffs });
+  if (diffCache.size > MAX_CACHED_TRACKERS) {
+    diffCache.delete(diffCache.keys().next().value as string);
+  }
+  // A failed load shouldn't be served to later requests
+  diffs.catch(() => {
+    if (diffCache.get(docId)?.diffs === diffs) diffCache.delete(docId);
+  });
+  return diffs;
+}
+
+async function computeSnapshotDiffs(docId: string, ids: string[]): Promise<SnapshotDiff[]> {
+  const loaded = [];
+  for (const id of ids) {
+    const snapshot = await TrackerSnapshots.load(docId, id);
+    if (snapshot) loaded.push(snapshot);
+  }
+
+  const diffs: SnapshotDiff[] = [];
+  for (let i = loaded.length - 1; i > 0; i--) {
+    const diff = diffArtists(loaded[i - 1].artist, loaded[i].artist, loaded[i - 1].takenAt, loaded[i].takenAt);
+    diffs.push({ diff, artist: loaded[i].artist });
+  }
+  return diffs;
+}
+
+/**
+ * Changelog for a tracker: its Updates tab when it has one, otherwise changes between consecutive snapshots, newest first
+ */
+export async function loadTrackerUpdates(docId: string): Promise<{ source: UpdateSource; updates: UpdateEntry[] }> {
+  const { artist } = await TrackerCache.parse(reconstructGoogleSheetsUrl(docId));
+  if (artist.updates && artist.updates.length > 0) {
+    return { source: 'tab', updates: linkUpdateTracks(artist.updates, artist) };
+  }
+
+  const diffs = await loadSnapshotDiffs(docId);
+  if (diffs.length === 0) {
+    return { source: 'none', updates: [] };
+  }
+  return { source: 'snapshots', updates: diffs.flatMap(({ diff }) => diffToUpdates(diff)) };
+}
@@ -0,0 +1,194 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { CellFormat } from '@/types';
+
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][];
+  formats: CellFormat[][];
+}
+
+export interface WorkbookLimits {
+  maxUncompressedBytes: number; // all parts of the workbook once unzipped
+  maxSheets: number;
+  maxRows: number; // per sheet
+  maxColumns: number; // per sheet
+}
+
+/**
+ * XLSX workbook reader
+ * Keeps what the CSV export drops: hyperlink targets, fill colors and strikethrough
+ */
+export class XlsxReader {
+  private static readonly WHITE_FILLS = ['FFFFFFFF', '00FFFFFF'];
+  private static readonly DEFAULT_LIMITS: WorkbookLimits = {
+    maxUncompressedBytes: 200 * 1024 * 1024,
+    maxSheets: 200,
+    maxRows: 50000,
+    maxColumns: 200,
+  };
+
+  /**
+   * Read every worksheet into text rows plus parallel per-cell formatting
+   * Fully empty rows are skipped, matching the CSV path
+   */
+  static async readWorkbook(data: ArrayBuffer, limits: Partial<WorkbookLimits> = {}): Promise<WorkbookSheet[]> {
+    const { maxUncompressedBytes, maxSheets, maxRows, maxColumns } = { ...this.DEFAULT_LIMITS, ...limits };
+    await this.checkArchive(data, maxUncompressedBytes, maxSheets);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(data);
+
+    return workbook.worksheets.map(worksheet => {
+      if (worksheet.rowCount > maxRows || worksheet.columnCount > maxColumns) {
+        throw new Error(`Sheet ${worksheet.name} is larger than ${maxRows} rows by ${maxColumns} columns`);
+      }
+
+      const rows: string[][] = [];
+      const formats: CellFormat[][] = [];
+
+      worksheet.eachRow({ includeEmpty: false }, row => {
+        const cells: string[] = [];
+        const cellFormats: CellFormat[] = [];
+
+        for (let col = 1; col <= worksheet.columnCount; col++) {
+          const cell = row.getCell(col);
+          cells.push(this.getCellText(cell));
+          cellFormats.push(this.getCellFormat(cell));
+        }
+
+        if (cells.some(cell => cell.trim())) {
+          rows.push(cells);
+          formats.push(cellFormats);
+        }
+      });
+
+      return { name: worksheet.name, rows, formats };
+    });
+  }
+
+  /**
+   * Reject zip bombs before ExcelJS unzips everything into memory
+   * Sizes are counted while inflating, since the sizes a zip declares can lie
+   */
+  private static async checkArchive(data: ArrayBuffer, maxUncompressedBytes: number, maxSheets: number): Promise<void> {
+    const zip = await JSZip.loadAsync(data);
+    const entries = Object.values(zip.files).filter(entry => !entry.dir);
+
+    const sheetCount = entries.filter(entry => /^\/?xl\/worksheets\/[^/]+\.xml$/.test(entry.name)).length;
+    if (sheetCount > maxSheets) {
+      throw new Error(`Workbook has more than ${maxSheets} sheets`);
+    }
+
+    let total = 0;
+    for (const entry of entries) {
+      total += await this.countInflatedBytes(entry, maxUncompressedBytes - total);
+    }
+  }
+
+  /**
+   * Inflate one entry without keeping it, stopping as soon as it passes the remaining allowance
+   */
+  private static countInflatedBytes(entry: JSZip.JSZipObject, allowance: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const stream = entry.nodeStream();
+      let size = 0;
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > allowance) {
+          stream.pause();
+          stream.removeAllListeners();
+          reject(new Error('Workbook is too large once unzipped'));
+        }
+      });
+      stream.on('end', () => resolve(size));
+      stream.on('error', reject);
+    });
+  }
+
+  /**
+   * Display text of a cell, as the CSV export would show it
+   */
+  static getCellText(cell: ExcelJS.Cell): string {
+    return this.valueToText(cell.value);
+  }
+
+  private static valueToText(value: ExcelJS.CellValue | undefined): string {
+    if (value === null || value === undefined) return '';
+
+    if (value instanceof Date) {
+      return this.formatDate(value);
+    }
+
+    if (typeof value === 'object') {
+      if ('richText' in value) {
+        return value.richText.map(part => part.text).join('');
+      }
+      if ('hyperlink' in value) {
+        return typeof value.text === 'string' ? value.text : this.valueToText(value.text as ExcelJS.CellValue);
+      }
+      if ('result' in value) {
+        return this.valueToText(value.result as ExcelJS.CellValue);
+      }
+      if ('error' in value) {
+        return '';
+      }
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Sheets stores durations as times on the 1899-12-30 epoch; show those as m:ss
+   */
+  private static formatDate(date: Date): string {
+    if (date.getUTCFullYear() < 1900) {
+      const hours = date.getUTCHours();
+      const minutes = date.getUTCMinutes();
+      const seconds = String(date.getUTCSeconds()).padStart(2, '0');
+      return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+        : `${minutes}:${seconds}`;
+    }
+
+    return `${date.getUTCMonth() + 1}/${date.getUTCDate()}/${date.getUTCFullYear()}`;
+  }
+
+  /**
+   * Formatting hints for a cell
+   */
+  static getCellFormat(cell: ExcelJS.Cell): CellFormat {
+    const format: CellFormat = {};
+
+    const hyperlink = this.getHyperlink(cell);
+    if (hyperlink) format.hyperlink = hyperlink;
+
+    const fill = cell.fill;
+    if (fill && fill.type === 'pattern' && fill.pattern !== 'none') {
+      const argb = fill.fgColor?.argb;
+      if (argb && !this.WHITE_FILLS.includes(argb.toUpperCase())) {
+        format.background = argb.toUpperCase();
+      }
+    }
+
+    if (cell.font?.bold) format.bold = true;
+    if (cell.font?.strike) format.strike = true;
+
+    return format;
+  }
+
+  private static getHyperlink(cell: ExcelJS.Cell): string | undefined {
+    const value = cell.value;
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      if ('hyperlink' in value && value.hyperlink) {
+        return value.hyperlink;
+      }
+      // =HYPERLINK("url", "label") formulas
+      if ('formula' in value && typeof value.formula === 'string') {
+        const match = value.formula.match(/^HYPERLINK\(\s*"([^"]+)"/i);
+        if (match) return match[1];
+      }
+    }
+    return undefined;
+  }
+}